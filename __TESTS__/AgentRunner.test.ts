@@ -0,0 +1,146 @@
+import { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { AIMessage, BaseMessage, ToolMessage } from "@langchain/core/messages";
+import { ChatResult } from "@langchain/core/outputs";
+import { AgentRunner } from "../src/modules/agents/AgentRunner";
+import { ToolRegistry } from "../src/modules/aiTools/ToolRegistry";
+import { ToolExecutor } from "../src/modules/aiTools/ToolExecutor";
+import { Tool } from "../src/modules/aiTools/AiTools";
+import { ScriptedChatModel } from "../src/modules/chatModels/ScriptedChatModel";
+import { convertResponseToStream } from "../src/utils/Stream";
+
+// Answers with the queued messages and records the bound tools and received messages
+class ToolCallingChatModel extends BaseChatModel {
+  boundTools: any[] = [];
+  received: BaseMessage[][] = [];
+
+  constructor(private readonly responses: AIMessage[]) {
+    super({});
+  }
+
+  _llmType() {
+    return "tool-calling";
+  }
+
+  bindTools(tools: any[]): any {
+    this.boundTools = tools;
+    return this;
+  }
+
+  async _generate(messages: BaseMessage[]): Promise<ChatResult> {
+    this.received.push(messages);
+    const message = this.responses.shift();
+    return {
+      generations: [{ message, text: message.content as string }],
+    };
+  }
+}
+
+describe("AgentRunner", () => {
+  let runner: AgentRunner;
+
+  beforeEach(() => {
+    const toolRegistry = new ToolRegistry();
+    toolRegistry.registerTool({
+      interface: new Tool({
+        toolName: "weather",
+        toolDescription: "Returns the weather of a city",
+      }),
+      inputSchema: {
+        type: "object",
+        properties: { city: { type: "string" } },
+        required: ["city"],
+      },
+      outputSchema: { type: "object" },
+      handler: async (tool) =>
+        convertResponseToStream(
+          JSON.stringify({ city: tool.toolArgs.city, weather: "sunny" })
+        ),
+    });
+    runner = new AgentRunner(toolRegistry, new ToolExecutor(toolRegistry));
+  });
+
+  it("should call tools natively and answer with their output", async () => {
+    const model = new ToolCallingChatModel([
+      new AIMessage({
+        content: "",
+        tool_calls: [{ id: "call-1", name: "weather", args: { city: "Oslo" } }],
+      }),
+      new AIMessage("It is sunny in Oslo."),
+    ]);
+
+    const result = await runner.run(model, "Weather in Oslo?");
+
+    expect(result).toMatchObject({
+      answer: "It is sunny in Oslo.",
+      stoppedBy: "answer",
+      toolCalling: "native",
+    });
+    expect(model.boundTools[0].function).toMatchObject({
+      name: "weather",
+      parameters: { required: ["city"] },
+    });
+    const observation = model.received[1].at(-1) as ToolMessage;
+    expect(observation.tool_call_id).toBe("call-1");
+    expect(JSON.parse(observation.content as string)).toEqual({
+      city: "Oslo",
+      weather: "sunny",
+    });
+  });
+
+  it("should give invalid arguments back to the model", async () => {
+    const model = new ToolCallingChatModel([
+      new AIMessage({
+        content: "",
+        tool_calls: [{ id: "call-1", name: "weather", args: {} }],
+      }),
+      new AIMessage("I need a city."),
+    ]);
+
+    const result = await runner.run(model, "Weather?");
+
+    expect(result.steps[0].toolCalls[0].error).toContain(
+      "Invalid input for tool weather"
+    );
+    expect(result.answer).toBe("I need a city.");
+  });
+
+  it("should fall back to JSON tool calls in the text", async () => {
+    const model = new ScriptedChatModel({
+      replies: [
+        {
+          pattern: "Observation from weather",
+          reply: '{"answer": "Sunny in Oslo."}',
+        },
+        {
+          pattern: "Weather in Oslo?",
+          reply: '{"tool": "weather", "arguments": {"city": "Oslo"}}',
+        },
+      ],
+    });
+
+    const result = await runner.run(model, "Weather in Oslo?");
+
+    expect(result).toMatchObject({
+      answer: "Sunny in Oslo.",
+      toolCalling: "text",
+      steps: [
+        {
+          iteration: 1,
+          toolCalls: [{ toolName: "weather", arguments: { city: "Oslo" } }],
+        },
+      ],
+    });
+    expect(model.calls[0].prompt).toContain('"name": "weather"');
+  });
+
+  it("should stop when the iteration budget is used up", async () => {
+    const model = new ScriptedChatModel({
+      defaultReply: '{"tool": "weather", "arguments": {"city": "Oslo"}}',
+    });
+
+    const result = await runner.run(model, "Weather?", { maxIterations: 2 });
+
+    expect(result.stoppedBy).toBe("maxIterations");
+    expect(result.steps).toHaveLength(2);
+  });
+});
@@ -0,0 +1,117 @@
+import jwt from "jsonwebtoken";
+import {
+  CompositeAuthenticator,
+  getAuthRequest,
+  hasPermission,
+} from "../src/modules/auth/Authenticator";
+import { ApiKeyAuthenticator } from "../src/modules/auth/ApiKeyAuthenticator";
+import { JwtAuthenticator } from "../src/modules/auth/JwtAuthenticator";
+import { createAuthenticator } from "../src/modules/auth/AuthenticatorFactory";
+
+describe("Authentication", () => {
+  const apiKeys = new ApiKeyAuthenticator([
+    { id: "frontend", key: "secret-key", permissions: ["tool:*"] },
+  ]);
+  const jwts = new JwtAuthenticator({ key: "jwt-secret", issuer: "eva" });
+
+  it("should read the bearer token from the header or the query", () => {
+    expect(
+      getAuthRequest({
+        headers: { authorization: "Bearer abc" },
+        url: "/",
+      } as any)
+    ).toEqual({ token: "abc" });
+    expect(getAuthRequest({ headers: {}, url: "/?token=xyz" } as any)).toEqual({
+      token: "xyz",
+    });
+  });
+
+  it("should authenticate static API keys", async () => {
+    expect(await apiKeys.authenticate({ token: "secret-key" })).toEqual({
+      id: "frontend",
+      method: "apiKey",
+      permissions: ["tool:*"],
+    });
+    expect(await apiKeys.authenticate({ token: "wrong" })).toBeNull();
+    expect(await apiKeys.authenticate({})).toBeNull();
+  });
+
+  it("should authenticate JWTs with permissions or scope claims", async () => {
+    const withPermissions = jwt.sign(
+      { sub: "alice", permissions: ["workflow:create"] },
+      "jwt-secret",
+      { issuer: "eva" }
+    );
+    const withScope = jwt.sign(
+      { sub: "bob", scope: "tool:echo workflow:execute:*" },
+      "jwt-secret",
+      { issuer: "eva" }
+    );
+
+    expect(await jwts.authenticate({ token: withPermissions })).toEqual({
+      id: "alice",
+      method: "jwt",
+      permissions: ["workflow:create"],
+    });
+    expect((await jwts.authenticate({ token: withScope })).permissions).toEqual(
+      ["tool:echo", "workflow:execute:*"]
+    );
+  });
+
+  it("should reject JWTs with a wrong signature, issuer or no subject", async () => {
+    const tokens = [
+      jwt.sign({ sub: "alice" }, "other-secret", { issuer: "eva" }),
+      jwt.sign({ sub: "alice" }, "jwt-secret", { issuer: "someone" }),
+      jwt.sign({ permissions: ["*"] }, "jwt-secret", { issuer: "eva" }),
+    ];
+    for (const token of tokens) {
+      expect(await jwts.authenticate({ token })).toBeNull();
+    }
+  });
+
+  it("should try API keys before JWTs", async () => {
+    const authenticator = new CompositeAuthenticator([apiKeys, jwts]);
+    const token = jwt.sign({ sub: "alice" }, "jwt-secret", { issuer: "eva" });
+
+    expect((await authenticator.authenticate({ token: "secret-key" })).id).toBe(
+      "frontend"
+    );
+    expect((await authenticator.authenticate({ token })).id).toBe("alice");
+    expect(await authenticator.authenticate({ token: "nope" })).toBeNull();
+  });
+
+  it("should match permissions with wildcards", () => {
+    const identity = {
+      id: "bob",
+      method: "jwt" as const,
+      permissions: ["tool:*", "workflow:execute:blog"],
+    };
+    expect(hasPermission(identity, "tool:generate_ideas")).toBe(true);
+    expect(hasPermission(identity, "workflow:execute:blog")).toBe(true);
+    expect(hasPermission(identity, "workflow:execute:other")).toBe(false);
+    expect(hasPermission(identity, "workflow:create")).toBe(false);
+    expect(
+      hasPermission({ ...identity, permissions: ["*"] }, "workflow:create")
+    ).toBe(true);
+  });
+
+  it("should refuse every client unless anonymous access is opted in", async () => {
+    const env = { ...process.env };
+    for (const name of Object.keys(env)) {
+      if (name.startsWith("WS_") || name === "AUTH_MODE") {
+        delete process.env[name];
+      }
+    }
+    try {
+      expect(await createAuthenticator().authenticate({})).toBeNull();
+
+      process.env.AUTH_MODE = "anonymous";
+      expect(await createAuthenticator().authenticate({})).toMatchObject({
+        method: "anonymous",
+        permissions: ["*"],
+      });
+    } finally {
+      process.env = env;
+    }
+  });
+});
@@ -0,0 +1,118 @@
+import { Document } from "@langchain/core/documents";
+import { CassandraTable } from "@langchain/community/utils/cassandra";
+import { CassandraDocumentStore } from "../src/database/vectorStores/CassandraDocumentStore";
+import { getCassandraStoreConfig } from "../src/database/CassandraVectorDatabase";
+import { DeterministicEmbeddings } from "../src/modules/embeddings/DeterministicEmbeddings";
+
+describe("CassandraDocumentStore", () => {
+  const config = getCassandraStoreConfig();
+  const columns = [
+    config.primaryKey.name,
+    ...config.metadataColumns.map((column) => column.name),
+  ];
+  const indexed = config.indices.map((index) => index.name);
+
+  // Store whose table records the queries instead of running them
+  const createStore = () => {
+    jest
+      .spyOn(CassandraTable.prototype as any, "initialize")
+      .mockResolvedValue(undefined);
+    const store = new CassandraDocumentStore(
+      new DeterministicEmbeddings({ dimensions: 4 }),
+      config
+    );
+    const table = store.getCassandraTable();
+    const select = jest
+      .spyOn(table, "select")
+      .mockResolvedValue({ rows: [] } as any);
+    const upsert = jest.spyOn(table, "upsert").mockResolvedValue(undefined);
+    return { store, select, upsert };
+  };
+
+  it("should translate note filters to conditions on indexed columns", async () => {
+    const { store, select } = createStore();
+
+    await store.findDocuments({
+      and: [
+        { field: "kind", eq: "note" },
+        { field: "chunkIndex", eq: 0 },
+        { field: "folder", eq: "work" },
+        { field: "tags", contains: "urgent" },
+        { field: "timestamp", gte: "2026-10-11T00:00:00.000Z" },
+      ],
+    });
+
+    const filters = select.mock.calls[0][1];
+    expect(filters).toEqual([
+      { name: "kind", value: "note", operator: "=" },
+      { name: "chunkIndex", value: 0, operator: "=" },
+      { name: "folder", value: "work", operator: "=" },
+      { name: "tags", value: "urgent", operator: "CONTAINS" },
+      {
+        name: "timestamp",
+        value: "2026-10-11T00:00:00.000Z",
+        operator: ">=",
+      },
+    ]);
+    for (const { name } of filters as { name: string }[]) {
+      expect(columns).toContain(name);
+      expect(indexed).toContain(name);
+    }
+    await expect(
+      store.findDocuments({ not: { field: "kind", eq: "note" } })
+    ).rejects.toThrow(/or and not/);
+  });
+
+  it("should store every note column, including falsy values", async () => {
+    const { store, upsert } = createStore();
+
+    await store.addDocuments([
+      new Document({
+        pageContent: "Pro costs 20.",
+        metadata: {
+          id: "note:0",
+          parentId: "note",
+          chunkIndex: 0,
+          kind: "note",
+          title: "Pricing",
+          folder: "work",
+          tags: ["x"],
+          timestamp: "2026-10-18T00:00:00.000Z",
+        },
+      }),
+    ]);
+
+    const [[values], names] = upsert.mock.calls[0] as any;
+    const row = Object.fromEntries(
+      names.map((column: { name: string }, index: number) => [
+        column.name,
+        values[index],
+      ])
+    );
+    expect(row).toMatchObject({
+      id: "note:0",
+      chunkIndex: 0,
+      kind: "note",
+      folder: "work",
+      tags: ["x"],
+      text: "Pro costs 20.",
+    });
+  });
+
+  it("should update metadata without touching the text and vector", async () => {
+    const { store, upsert } = createStore();
+
+    await store.updateMetadata(["note:0"], [{ kind: "note", title: "T2" }]);
+
+    const [[values], names] = upsert.mock.calls[0] as any;
+    const row = Object.fromEntries(
+      names.map((column: { name: string }, index: number) => [
+        column.name,
+        values[index],
+      ])
+    );
+    expect(row).toMatchObject({ id: "note:0", title: "T2", folder: null });
+    expect(row).not.toHaveProperty("text");
+    expect(row).not.toHaveProperty("vector");
+  });
+});
@@ -0,0 +1,71 @@
+import {
+  ChatModelRegistry,
+  mergeChatModelConfigs,
+} from "../src/modules/chatModels/ChatModelRegistry";
+import { ScriptedChatModel } from "../src/modules/chatModels/ScriptedChatModel";
+
+describe("ChatModelRegistry", () => {
+  it("should build a model with a registered provider", () => {
+    const registry = new ChatModelRegistry();
+    const model = registry.createModel({
+      provider: "fake",
+      options: { defaultReply: "hello" },
+    });
+    expect(model).toBeInstanceOf(ScriptedChatModel);
+  });
+
+  it("should cache models per config", () => {
+    const registry = new ChatModelRegistry();
+    const config = { provider: "fake", temperature: 0.2 };
+    expect(registry.getModel(config)).toBe(registry.getModel(config));
+    expect(registry.getModel(config)).not.toBe(
+      registry.getModel({ ...config, temperature: 0.9 })
+    );
+  });
+
+  it("should not cache models of configs with functions", () => {
+    const registry = new ChatModelRegistry();
+    const config = (reply: string) => ({
+      provider: "fake",
+      options: { replies: [{ pattern: /.*/, reply: () => reply }] },
+    });
+    expect(registry.getModel(config("a"))).not.toBe(
+      registry.getModel(config("b"))
+    );
+  });
+
+  it("should use custom providers", () => {
+    const registry = new ChatModelRegistry();
+    const factory = jest.fn(
+      (config) => new ScriptedChatModel({ defaultReply: config.model })
+    );
+    registry.registerProvider("custom", factory);
+    registry.createModel({ provider: "custom", model: "my-model" });
+    expect(factory).toHaveBeenCalledWith(
+      expect.objectContaining({ provider: "custom", model: "my-model" })
+    );
+  });
+
+  it("should throw for unknown providers", () => {
+    const registry = new ChatModelRegistry();
+    expect(() => registry.createModel({ provider: "unknown" })).toThrow(
+      "Chat model provider unknown is not registered"
+    );
+  });
+});
+
+describe("mergeChatModelConfigs", () => {
+  it("should not override defined values with undefined ones", () => {
+    const merged = mergeChatModelConfigs(
+      { provider: "ollama", model: "llama3", temperature: 0.5 },
+      { provider: undefined, temperature: 0.1, options: { a: 1 } },
+      { options: { b: 2 } }
+    );
+    expect(merged).toEqual({
+      provider: "ollama",
+      model: "llama3",
+      temperature: 0.1,
+      options: { a: 1, b: 2 },
+    });
+  });
+});
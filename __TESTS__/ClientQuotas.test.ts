@@ -0,0 +1,116 @@
+import { ClientQuotas } from "../src/modules/ClientQuotas";
+import { RateLimitedError } from "../src/modules/WebSocketProtocol";
+
+describe("ClientQuotas", () => {
+  const deferred = () => {
+    let resolve: () => void;
+    const promise = new Promise<void>((r) => (resolve = r));
+    return { promise, resolve };
+  };
+  const tick = () => new Promise((resolve) => setImmediate(resolve));
+
+  it("should rate limit messages per client and refill over time", () => {
+    let now = 0;
+    const quotas = new ClientQuotas(
+      {
+        messagesPerMinute: 2,
+        maxInFlightPerClient: 1,
+        maxConcurrentExecutions: 1,
+      },
+      () => now
+    );
+
+    quotas.consumeMessage("a");
+    quotas.consumeMessage("a");
+    quotas.consumeMessage("b");
+    let error: RateLimitedError;
+    try {
+      quotas.consumeMessage("a");
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(RateLimitedError);
+    expect(error.code).toBe("RATE_LIMITED");
+    expect(error.retryAfterMs).toBe(30000);
+
+    now = 30000;
+    expect(() => quotas.consumeMessage("a")).not.toThrow();
+
+    // Reconnecting does not reset a used budget
+    quotas.release("a");
+    expect(() => quotas.consumeMessage("a")).toThrow(RateLimitedError);
+  });
+
+  it("should limit the executions a client has in flight", async () => {
+    const quotas = new ClientQuotas({
+      messagesPerMinute: 60,
+      maxInFlightPerClient: 1,
+      maxConcurrentExecutions: 4,
+    });
+    const gate = deferred();
+    const first = quotas.schedule("a", () => gate.promise);
+
+    await expect(quotas.schedule("a", async () => "second")).rejects.toThrow(
+      RateLimitedError
+    );
+    await expect(quotas.schedule("b", async () => "other")).resolves.toBe(
+      "other"
+    );
+    gate.resolve();
+    await first;
+    await expect(quotas.schedule("a", async () => "again")).resolves.toBe(
+      "again"
+    );
+  });
+
+  it("should start queued executions round-robin across clients", async () => {
+    const quotas = new ClientQuotas({
+      messagesPerMinute: 60,
+      maxInFlightPerClient: 10,
+      maxConcurrentExecutions: 1,
+    });
+    const started: string[] = [];
+    const gate = deferred();
+    const run = (clientId: string, name: string) =>
+      quotas.schedule(clientId, async () => {
+        started.push(name);
+        await gate.promise;
+      });
+
+    const executions = [
+      run("a", "a1"),
+      run("a", "a2"),
+      run("a", "a3"),
+      run("b", "b1"),
+      run("b", "b2"),
+    ];
+    gate.resolve();
+    await Promise.all(executions);
+
+    expect(started).toEqual(["a1", "a2", "b1", "a3", "b2"]);
+  });
+
+  it("should drop queued executions when their signal aborts", async () => {
+    const quotas = new ClientQuotas({
+      messagesPerMinute: 60,
+      maxInFlightPerClient: 10,
+      maxConcurrentExecutions: 1,
+    });
+    const gate = deferred();
+    const controller = new AbortController();
+    const work = jest.fn(async () => "queued");
+
+    const running = quotas.schedule("a", () => gate.promise);
+    const queued = quotas.schedule("b", work, controller.signal);
+    await tick();
+    controller.abort(new Error("Cancelled by the client"));
+
+    await expect(queued).rejects.toThrow("Cancelled by the client");
+    gate.resolve();
+    await running;
+    expect(work).not.toHaveBeenCalled();
+    await expect(quotas.schedule("b", async () => "next")).resolves.toBe(
+      "next"
+    );
+  });
+});
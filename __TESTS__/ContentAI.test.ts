@@ -0,0 +1,98 @@
+jest.mock("inquirer", () => ({
+  __esModule: true,
+  default: { createPromptModule: jest.fn(), prompt: jest.fn() },
+}));
+
+process.env.EMBEDDINGS_PROVIDER = "deterministic";
+process.env.VECTOR_STORE_BACKEND = "memory";
+process.env.WORKFLOW_RUN_STORE = "memory";
+process.env.WEB_SOCKET_PORT = "5999";
+process.env.HTTP_GATEWAY_PORT = "5998";
+
+import { ContentAI } from "../src/content_ai/content.RAG";
+import { ScriptedChatModel } from "../src/modules/chatModels/ScriptedChatModel";
+
+// Models usually wrap their JSON answer in a markdown code block
+const jsonReply = (value: any) =>
+  "```json\n" + JSON.stringify(value, null, 2) + "\n```";
+
+describe("ContentAI default_content_generation workflow", () => {
+  let contentAi: ContentAI;
+  let chatModel: ScriptedChatModel;
+
+  beforeAll(async () => {
+    contentAi = new ContentAI();
+    chatModel = new ScriptedChatModel({
+      chunkSize: 8,
+      replies: [
+        {
+          toolName: "content_idea_generator",
+          reply: jsonReply({
+            ideas: [
+              {
+                idea: "Blockchain for risk analysis",
+                category: "finance",
+                keywords: ["blockchain", "risk"],
+              },
+            ],
+          }),
+        },
+        {
+          toolName: "content_production",
+          reply: jsonReply({
+            title: "Blockchain for risk analysis",
+            content: "Draft content",
+            keywords: ["blockchain", "risk"],
+          }),
+        },
+        {
+          toolName: "content_title_improver",
+          reply: jsonReply({
+            title: "How Blockchain Changes Risk Analysis",
+            content: "Improved content",
+            keywords: ["blockchain", "risk", "finance"],
+          }),
+        },
+      ],
+    });
+    contentAi.registerChatModelProvider("scripted", () => chatModel);
+    await contentAi.build({ provider: "scripted" });
+  });
+
+  afterAll(async () => {
+    (contentAi as any).webSocketModule.closeWebSocket();
+    await (contentAi as any).httpGateway.close();
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  });
+
+  it("should run every step against the scripted model", async () => {
+    const workflow = contentAi.getWorkflowByName("default_content_generation");
+    const stream = await (contentAi as any).workflowManager.executeWorkflow(
+      workflow.id,
+      {
+        topic: "AI in finance",
+        keywords: "blockchain, trading, risk analysis",
+        meta: {
+          wordCount: 300,
+          tone: "professional",
+          style: "analytical",
+          language: "en",
+        },
+      }
+    );
+    const chunks = [];
+    for await (const chunk of stream) chunks.push(chunk);
+
+    expect(chunks[0]).toEqual({
+      title: "How Blockchain Changes Risk Analysis",
+      content: "Improved content",
+      keywords: ["blockchain", "risk", "finance"],
+    });
+    expect(chatModel.calls.map((call) => call.toolName)).toEqual([
+      "content_idea_generator",
+      "content_production",
+      "content_title_improver",
+    ]);
+    expect(chatModel.calls[1].prompt).toContain("Blockchain for risk analysis");
+  });
+});
@@ -0,0 +1,158 @@
+import { Document } from "@langchain/core/documents";
+import { VectorStore } from "@langchain/core/vectorstores";
+import { DocumentOperations } from "../src/database/DocumentOperations";
+import { InMemoryVectorStore } from "../src/database/vectorStores/InMemoryVectorStore";
+import { SQLiteVectorStore } from "../src/database/vectorStores/SQLiteVectorStore";
+import { IDocumentStore } from "../src/database/vectorStores/VectorStoreUtils";
+import { DeterministicEmbeddings } from "../src/modules/embeddings/DeterministicEmbeddings";
+
+const text =
+  "First paragraph of the text.\n\nSecond paragraph of the text.\n\nThird paragraph of the text.";
+
+describe.each([
+  [
+    "memory",
+    () =>
+      new InMemoryVectorStore(new DeterministicEmbeddings({ dimensions: 32 })),
+  ],
+  [
+    "sqlite",
+    () =>
+      new SQLiteVectorStore(
+        new DeterministicEmbeddings({ dimensions: 32 }),
+        {}
+      ),
+  ],
+])("DocumentOperations on the %s store", (_, createStore) => {
+  let store: VectorStore & IDocumentStore;
+  let operations: DocumentOperations;
+
+  beforeEach(() => {
+    store = createStore();
+    // Small chunks so a document spans several of them
+    operations = new DocumentOperations(store, {
+      chunkSize: 40,
+      chunkOverlap: 0,
+      batchSize: 8,
+    });
+  });
+
+  it("should skip documents whose content did not change", async () => {
+    const document = new Document({ id: "doc", pageContent: text });
+
+    expect(await operations.upsertDocuments([document])).toEqual({
+      upserted: ["doc"],
+      skipped: [],
+    });
+    const embedDocuments = jest.spyOn(store.embeddings, "embedDocuments");
+    expect(await operations.upsertDocuments([document])).toEqual({
+      upserted: [],
+      skipped: ["doc"],
+    });
+    expect(embedDocuments).not.toHaveBeenCalled();
+  });
+
+  it("should replace the chunks of a changed document", async () => {
+    await operations.upsertDocuments([
+      new Document({ id: "doc", pageContent: text }),
+    ]);
+    await operations.upsertDocuments([
+      new Document({ id: "doc", pageContent: "Short text now." }),
+    ]);
+
+    const chunks = await store.findDocuments({ parentId: "doc" });
+    expect(chunks.map((chunk) => chunk.pageContent)).toEqual([
+      "Short text now.",
+    ]);
+  });
+
+  it("should keep the stored document when embedding its change fails", async () => {
+    await operations.upsertDocuments([
+      new Document({ id: "doc", pageContent: text }),
+    ]);
+    const stored = await operations.getDocument("doc");
+    jest
+      .spyOn(store.embeddings, "embedDocuments")
+      .mockRejectedValueOnce(new Error("Embeddings are down"));
+
+    await expect(
+      operations.upsertDocuments([
+        new Document({ id: "doc", pageContent: "Short text now." }),
+      ])
+    ).rejects.toThrow("Embeddings are down");
+    expect(await operations.getDocument("doc")).toEqual(stored);
+  });
+
+  it("should give documents without an id a content hash id", async () => {
+    const { upserted } = await operations.upsertDocuments([
+      new Document({ pageContent: "Same text" }),
+    ]);
+    const { skipped } = await operations.upsertDocuments([
+      new Document({ pageContent: "Same text" }),
+    ]);
+
+    expect(upserted[0]).toMatch(/^[0-9a-f]{64}$/);
+    expect(skipped).toEqual(upserted);
+  });
+
+  it("should join the chunks of a document back together", async () => {
+    await operations.upsertDocuments([
+      new Document({ id: "doc", pageContent: text, metadata: { title: "T" } }),
+    ]);
+
+    const document = await operations.getDocument("doc");
+
+    expect(document.pageContent).toBe(
+      "First paragraph of the text.\nSecond paragraph of the text.\nThird paragraph of the text."
+    );
+    expect(document.metadata).toEqual({
+      id: "doc",
+      title: "T",
+      contentHash: expect.any(String),
+    });
+    expect(await operations.getDocument("missing")).toBeUndefined();
+  });
+
+  it("should join overlapping chunks of repetitive text back together", async () => {
+    const repetitive = Array.from(
+      { length: 300 },
+      (_, index) => ["alpha", "beta", "gamma", "alpha beta"][index % 4]
+    ).join(" ");
+    operations = new DocumentOperations(store, {
+      chunkSize: 40,
+      chunkOverlap: 15,
+      batchSize: 8,
+    });
+    await operations.upsertDocuments([
+      new Document({ id: "doc", pageContent: repetitive }),
+    ]);
+
+    const document = await operations.getDocument("doc");
+
+    expect(document.pageContent).toBe(repetitive);
+    expect(document.metadata).not.toHaveProperty("chunkStart");
+  });
+
+  it("should delete documents by id and by filter with their chunks", async () => {
+    await operations.upsertDocuments([
+      new Document({ id: "a", pageContent: text, metadata: { tag: "x" } }),
+      new Document({ id: "b", pageContent: text, metadata: { tag: "y" } }),
+      new Document({ id: "c", pageContent: "Short", metadata: { tag: "y" } }),
+    ]);
+
+    expect(await operations.deleteDocuments(["a"])).toBe(3);
+    expect(await operations.deleteDocuments({ tag: "y" })).toBe(4);
+    expect(await store.findDocuments({})).toEqual([]);
+  });
+
+  it("should keep the id of plain text across instances", async () => {
+    await operations.insertPlainTextDocument("Remember the milk");
+    await new DocumentOperations(store).insertPlainTextDocument(
+      "Remember the milk"
+    );
+
+    expect(
+      await store.findDocuments({ title: "Remember the milk" })
+    ).toHaveLength(1);
+  });
+});
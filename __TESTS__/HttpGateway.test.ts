@@ -0,0 +1,170 @@
+import { HttpGateway } from "../src/modules/HttpGateway";
+import { WorkflowManager } from "../src/modules/WorkFlowManager";
+import { ToolRegistry } from "../src/modules/aiTools/ToolRegistry";
+import { ToolExecutor } from "../src/modules/aiTools/ToolExecutor";
+import { Tool } from "../src/modules/aiTools/AiTools";
+import { convertResponseToStream } from "../src/utils/Stream";
+import { InMemoryWorkflowRunStore } from "../src/database/runStores/InMemoryWorkflowRunStore";
+import { ApiKeyAuthenticator } from "../src/modules/auth/ApiKeyAuthenticator";
+import { ClientQuotas, getQuotaKey } from "../src/modules/ClientQuotas";
+
+describe("HttpGateway", () => {
+  let gateway: HttpGateway;
+  let baseUrl: string;
+  const quotas = new ClientQuotas();
+
+  const request = (
+    path: string,
+    { key = "admin-key", body, headers = {} }: any = {}
+  ) =>
+    fetch(`${baseUrl}${path}`, {
+      method: body === undefined ? "GET" : "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(key && { Authorization: `Bearer ${key}` }),
+        ...headers,
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+  beforeAll(async () => {
+    const toolRegistry = new ToolRegistry();
+    toolRegistry.registerTool({
+      interface: new Tool({ toolName: "echo", toolDescription: "echo" }),
+      inputSchema: { type: "object", properties: { text: {} } },
+      outputSchema: { type: "object" },
+      handler: async (tool) =>
+        convertResponseToStream(JSON.stringify({ text: tool.toolArgs.text })),
+    });
+    const toolExecutor = new ToolExecutor(toolRegistry);
+    gateway = new HttpGateway(
+      0,
+      new WorkflowManager(
+        toolRegistry,
+        toolExecutor,
+        new InMemoryWorkflowRunStore()
+      ),
+      toolExecutor,
+      toolRegistry,
+      new ApiKeyAuthenticator([
+        { id: "admin", key: "admin-key", permissions: ["*"] },
+        { id: "reader", key: "reader-key", permissions: ["tool:echo"] },
+        { id: "limited", key: "limited-key", permissions: ["tool:echo"] },
+      ]),
+      quotas
+    );
+    await gateway.start();
+    baseUrl = `http://127.0.0.1:${gateway.getPort()}`;
+  });
+
+  afterAll(() => gateway.close());
+
+  it("should execute tools", async () => {
+    const response = await request("/tools/echo/execute", {
+      body: { input: { text: "hi" } },
+    });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ text: "hi" });
+  });
+
+  it("should stream tool output as server-sent events", async () => {
+    const response = await request("/tools/echo/execute", {
+      body: { input: { text: "hi" } },
+      headers: { Accept: "text/event-stream" },
+    });
+    const events = (await response.text())
+      .trim()
+      .split("\n\n")
+      .map((event) => event.split("\n")[0]);
+
+    expect(response.headers.get("content-type")).toBe("text/event-stream");
+    expect(events.slice(0, -1).every((event) => event === "event: chunk")).toBe(
+      true
+    );
+    expect(events.at(-1)).toBe("event: end");
+  });
+
+  it("should create and run workflows and return the stored run", async () => {
+    const created = await request("/workflows", {
+      body: { name: "echo_flow", steps: [{ toolName: "echo" }] },
+    });
+    const { workflowId } = await created.json();
+    const run = await request(`/workflows/${workflowId}/runs`, {
+      body: { input: { text: "flow" } },
+    });
+    const { runId, output } = await run.json();
+    const stored = await request(`/runs/${runId}`);
+    const hidden = await request(`/runs/${runId}`, { key: "reader-key" });
+    const forbidden = await request(`/workflows/${workflowId}/runs`, {
+      key: "reader-key",
+      body: {},
+    });
+
+    expect(created.status).toBe(201);
+    expect(output).toEqual({ text: "flow" });
+    expect(await stored.json()).toMatchObject({
+      id: runId,
+      workflowName: "echo_flow",
+      status: "completed",
+    });
+    expect(hidden.status).toBe(403);
+    // Workflows the client may not execute look like unknown ones
+    expect(forbidden.status).toBe(404);
+    expect(await forbidden.json()).toMatchObject({ code: "NOT_FOUND" });
+  });
+
+  it("should share the quotas of an identity with its sockets", async () => {
+    const key = getQuotaKey({
+      id: "limited",
+      method: "apiKey",
+      permissions: [],
+    });
+    // Messages sent over the socket use up the budget of the identity
+    expect(() => {
+      for (;;) quotas.consumeMessage(key);
+    }).toThrow();
+
+    const limited = await request("/tools/echo/execute", {
+      key: "limited-key",
+      body: { input: {} },
+    });
+
+    expect(limited.status).toBe(429);
+  });
+
+  it("should answer errors with status codes and error codes", async () => {
+    const unauthenticated = await request("/tools/echo/execute", {
+      key: "wrong",
+      body: {},
+    });
+    const forbidden = await request("/workflows", {
+      key: "reader-key",
+      body: { name: "flow", steps: [{ toolName: "echo" }] },
+    });
+    const invalid = await request("/workflows", { body: { name: "flow" } });
+    const missing = await request("/runs/unknown");
+    const nullBody = await request("/tools/echo/execute", { body: null });
+    await request("/workflows", {
+      body: { name: "flow", steps: [{ toolName: "echo" }] },
+    });
+    const conflict = await request("/workflows", {
+      body: {
+        name: "flow",
+        description: "Other",
+        steps: [{ toolName: "echo" }],
+      },
+    });
+
+    expect(unauthenticated.status).toBe(401);
+    expect(forbidden.status).toBe(403);
+    expect(await forbidden.json()).toMatchObject({ code: "FORBIDDEN" });
+    expect(invalid.status).toBe(400);
+    expect(await invalid.json()).toMatchObject({ code: "INVALID_REQUEST" });
+    expect(missing.status).toBe(404);
+    expect(nullBody.status).toBe(400);
+    expect(await nullBody.json()).toMatchObject({ code: "INVALID_REQUEST" });
+    expect(conflict.status).toBe(409);
+    expect(await conflict.json()).toMatchObject({ code: "CONFLICT" });
+  });
+});
@@ -0,0 +1,156 @@
+import { Document } from "@langchain/core/documents";
+import {
+  VectorSearch,
+  reciprocalRankFusion,
+} from "../src/database/VectorSearch";
+import { InMemoryVectorStore } from "../src/database/vectorStores/InMemoryVectorStore";
+import { DeterministicEmbeddings } from "../src/modules/embeddings/DeterministicEmbeddings";
+import { BM25Index, tokenize } from "../src/modules/retrieval/BM25";
+import {
+  LLMReranker,
+  ScoringReranker,
+} from "../src/modules/retrieval/Rerankers";
+import { ScriptedChatModel } from "../src/modules/chatModels/ScriptedChatModel";
+
+const documents = [
+  new Document({
+    id: "executor",
+    pageContent: "export class ToolExecutor { executeTool() {} }",
+  }),
+  new Document({
+    id: "registry",
+    pageContent: "export class ToolRegistry { registerTool() {} }",
+  }),
+  new Document({
+    id: "notes",
+    pageContent: "Notes are stored as chunks of their content.",
+  }),
+  new Document({
+    id: "notes-copy",
+    pageContent: "Notes are stored as chunks of their content!",
+  }),
+];
+
+describe("BM25", () => {
+  it("should split identifiers into their words", () => {
+    expect(tokenize("ToolExecutor.run_tool_call(HTTPServer)")).toEqual([
+      "toolexecutor",
+      "tool",
+      "executor",
+      "run_tool_call",
+      "run",
+      "tool",
+      "call",
+      "httpserver",
+      "http",
+      "server",
+    ]);
+  });
+
+  it("should rank exact identifiers first", () => {
+    const results = new BM25Index(documents).search("ToolExecutor");
+
+    expect(results[0][0].id).toBe("executor");
+    // `tool` matches the registry as well, with a lower score
+    expect(results.map(([document]) => document.id)).toEqual([
+      "executor",
+      "registry",
+    ]);
+  });
+});
+
+describe("VectorSearch.hybridSearch", () => {
+  const createSearch = async () => {
+    const store = new InMemoryVectorStore(
+      new DeterministicEmbeddings({ dimensions: 64 })
+    );
+    await store.addDocuments(documents);
+    return new VectorSearch(store);
+  };
+
+  it("should fuse rankings by reciprocal rank", () => {
+    const [a, b, c] = documents;
+    const fused = reciprocalRankFusion([
+      [a, b],
+      [b, c],
+    ]);
+
+    expect(fused.map(([document]) => document.id)).toEqual([
+      "registry",
+      "executor",
+      "notes",
+    ]);
+    expect(fused[0][1]).toBeCloseTo(1 / 62 + 1 / 61);
+  });
+
+  it("should find identifiers with keyword and vector scores", async () => {
+    const search = await createSearch();
+
+    const [first] = await search.hybridSearch("ToolExecutor", { topK: 2 });
+
+    expect(first.document.id).toBe("executor");
+    expect(first.keywordScore).toBeGreaterThan(0);
+    expect(first.vectorScore).toEqual(expect.any(Number));
+  });
+
+  it("should drop results below the score thresholds", async () => {
+    const search = await createSearch();
+
+    const results = await search.hybridSearch("ToolExecutor", {
+      mode: "keyword",
+      minKeywordScore: 1,
+    });
+
+    expect(results.map((result) => result.document.id)).toEqual(["executor"]);
+  });
+
+  it("should skip near duplicates with MMR", async () => {
+    const search = await createSearch();
+
+    const results = await search.hybridSearch("Notes stored as chunks", {
+      topK: 2,
+      mmr: true,
+      mmrLambda: 0.3,
+    });
+
+    const ids = results.map((result) => result.document.id);
+    expect(ids).toHaveLength(2);
+    expect(ids.filter((id) => id.startsWith("notes"))).toHaveLength(1);
+  });
+
+  it("should reorder the results with a reranker", async () => {
+    const search = await createSearch();
+    const reranker = new ScoringReranker(async (_, texts) =>
+      texts.map((text) => (text.includes("ToolRegistry") ? 1 : 0))
+    );
+
+    const [first] = await search.hybridSearch("ToolExecutor", {
+      topK: 1,
+      reranker,
+    });
+
+    expect(first.document.id).toBe("registry");
+  });
+});
+
+describe("LLMReranker", () => {
+  it("should order the documents as the model answers", async () => {
+    const model = new ScriptedChatModel({
+      replies: [
+        {
+          pattern: "Order the numbered documents",
+          reply: '{"order": [3, 1]}',
+        },
+      ],
+    });
+    const reranker = new LLMReranker(() => model);
+
+    const reranked = await reranker.rerank("query", documents.slice(0, 3));
+
+    expect(reranked.map((document) => document.id)).toEqual([
+      "notes",
+      "executor",
+      "registry",
+    ]);
+  });
+});
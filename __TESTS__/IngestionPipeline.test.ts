@@ -0,0 +1,140 @@
+import { Document } from "@langchain/core/documents";
+import { RecursiveCharacterTextSplitter } from "@langchain/textsplitters";
+import { InMemoryVectorStore } from "../src/database/vectorStores/InMemoryVectorStore";
+import { DeterministicEmbeddings } from "../src/modules/embeddings/DeterministicEmbeddings";
+import { IngestionPipeline } from "../src/modules/ingestion/IngestionPipeline";
+import {
+  MarkdownHeadingSplitter,
+  getChunkingOptions,
+  getSplitterForDocument,
+} from "../src/modules/ingestion/DocumentSplitters";
+import VectorDatabase from "../src/database/VectorDatabase";
+import NoteManagementPlugin from "../src/plugins/NoteManagement.plugin";
+
+describe("DocumentSplitters", () => {
+  it("should keep the heading path of markdown sections", async () => {
+    const splitter = new MarkdownHeadingSplitter({
+      chunkSize: 200,
+      chunkOverlap: 0,
+    });
+    const chunks = await splitter.splitDocuments([
+      new Document({
+        pageContent: [
+          "# Guide",
+          "Intro",
+          "## Setup",
+          "```sh",
+          "# not a heading",
+          "```",
+          "### Install",
+          "Run npm install",
+          "## Usage",
+          "Run npm start",
+        ].join("\n"),
+        metadata: { source: "guide.md" },
+      }),
+    ]);
+
+    expect(chunks.map((chunk) => chunk.metadata.headings)).toEqual([
+      "Guide",
+      "Guide > Setup",
+      "Guide > Setup > Install",
+      "Guide > Usage",
+    ]);
+    expect(chunks[1].pageContent).toContain("# not a heading");
+    expect(chunks[0].metadata.source).toBe("guide.md");
+  });
+
+  it("should pick the splitter by the source extension", () => {
+    const options = { chunkSize: 100, chunkOverlap: 10 };
+    const splitterFor = (source?: string) =>
+      getSplitterForDocument(
+        new Document({ pageContent: "", metadata: { source } }),
+        options
+      );
+
+    expect(splitterFor("README.md")).toBeInstanceOf(MarkdownHeadingSplitter);
+    expect(
+      (splitterFor("src/app.ts") as RecursiveCharacterTextSplitter).separators
+    ).toContain("\nfunction ");
+    expect(
+      (splitterFor() as RecursiveCharacterTextSplitter).separators
+    ).toEqual(["\n\n", "\n", " ", ""]);
+  });
+
+  it("should read the chunking options from the environment", () => {
+    const env = { ...process.env };
+    try {
+      delete process.env.INGESTION_CHUNK_SIZE;
+      process.env.INGESTION_CHUNK_OVERLAP = "";
+      expect(getChunkingOptions()).toEqual({
+        chunkSize: 1000,
+        chunkOverlap: 200,
+      });
+
+      process.env.INGESTION_CHUNK_SIZE = "500";
+      process.env.INGESTION_CHUNK_OVERLAP = "0";
+      expect(getChunkingOptions()).toEqual({ chunkSize: 500, chunkOverlap: 0 });
+
+      for (const value of ["-1", "ten", "1.5"]) {
+        process.env.INGESTION_CHUNK_OVERLAP = value;
+        expect(() => getChunkingOptions()).toThrow("INGESTION_CHUNK_OVERLAP");
+      }
+    } finally {
+      process.env = env;
+    }
+  });
+});
+
+describe("IngestionPipeline", () => {
+  it("should store linked chunks with batched embedding calls", async () => {
+    const embeddings = new DeterministicEmbeddings({ dimensions: 32 });
+    const embedDocuments = jest.spyOn(embeddings, "embedDocuments");
+    const store = new InMemoryVectorStore(embeddings);
+    const pipeline = new IngestionPipeline(store, {
+      chunkSize: 40,
+      chunkOverlap: 0,
+      batchSize: 2,
+    });
+
+    const result = await pipeline.ingest([
+      new Document({
+        id: "doc",
+        pageContent:
+          "First paragraph of the text.\n\nSecond paragraph of the text.\n\nThird paragraph of the text.",
+        metadata: { title: "Text" },
+      }),
+    ]);
+
+    expect(result.chunkIds).toEqual({ doc: ["doc:0", "doc:1", "doc:2"] });
+    expect(embedDocuments).toHaveBeenCalledTimes(2);
+    const [[chunk]] = await store.similaritySearchVectorWithScore(
+      await embeddings.embedQuery("Second paragraph of the text."),
+      1
+    );
+    expect(chunk.metadata).toMatchObject({
+      id: "doc:1",
+      parentId: "doc",
+      chunkIndex: 1,
+      chunkCount: 3,
+      title: "Text",
+    });
+  });
+
+  it("should store notes through the pipeline", async () => {
+    const store = new InMemoryVectorStore(
+      new DeterministicEmbeddings({ dimensions: 32 })
+    );
+    const notes = new NoteManagementPlugin(new VectorDatabase(store));
+
+    await notes.storeNote({ title: "Groceries", content: "Milk and eggs" });
+    const [document] = await notes.queryNotes("Milk and eggs", 1);
+
+    expect(document.pageContent).toBe("Milk and eggs");
+    expect(document.metadata).toMatchObject({
+      title: "Groceries",
+      chunkIndex: 0,
+      parentId: expect.any(String),
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { McpToolServer } from "../src/modules/McpToolServer";
+import { WorkflowManager } from "../src/modules/WorkFlowManager";
+import { ToolRegistry } from "../src/modules/aiTools/ToolRegistry";
+import { ToolExecutor } from "../src/modules/aiTools/ToolExecutor";
+import { Tool } from "../src/modules/aiTools/AiTools";
+import { convertResponseToStream } from "../src/utils/Stream";
+import { InMemoryWorkflowRunStore } from "../src/database/runStores/InMemoryWorkflowRunStore";
+
+describe("McpToolServer", () => {
+  let server: McpToolServer;
+  let client: Client;
+
+  beforeAll(async () => {
+    const toolRegistry = new ToolRegistry();
+    toolRegistry.registerTool({
+      interface: new Tool({
+        toolName: "echo",
+        toolDescription: "Repeats the text",
+        toolRules: "Keep it short",
+      }),
+      inputSchema: {
+        type: "object",
+        properties: { text: { type: "string" } },
+        required: ["text"],
+      },
+      outputSchema: { type: "object" },
+      handler: async (tool) =>
+        convertResponseToStream(JSON.stringify({ text: tool.toolArgs.text })),
+    });
+    const toolExecutor = new ToolExecutor(toolRegistry);
+    const workflowManager = new WorkflowManager(
+      toolRegistry,
+      toolExecutor,
+      new InMemoryWorkflowRunStore()
+    );
+    for (const version of ["1.0.0", "1.1.0"]) {
+      workflowManager.createWorkflow({
+        name: "echo flow",
+        version,
+        description: `Echo ${version}`,
+        steps: [{ toolName: "echo", inputMapping: { text: "input.topic" } }],
+      });
+    }
+    workflowManager.createWorkflow({
+      name: "typed_flow",
+      description: "Typed",
+      inputSchema: {
+        type: "object",
+        properties: { topic: { type: "string", minLength: 1 } },
+        required: ["topic"],
+      },
+      steps: [{ toolName: "echo", inputMapping: { text: "input.topic" } }],
+    });
+
+    server = new McpToolServer(toolRegistry, toolExecutor, workflowManager);
+    client = new Client({ name: "test", version: "1.0.0" });
+    const [clientTransport, serverTransport] =
+      InMemoryTransport.createLinkedPair();
+    await server.listen(serverTransport);
+    await client.connect(clientTransport);
+  });
+
+  afterAll(async () => {
+    await client.close();
+    await server.close();
+  });
+
+  it("should list the tools and the latest workflow versions", async () => {
+    const { tools } = await client.listTools();
+
+    expect(tools).toEqual([
+      expect.objectContaining({
+        name: "echo",
+        description: "Repeats the text\n\nRules: Keep it short",
+        inputSchema: expect.objectContaining({ required: ["text"] }),
+        outputSchema: { type: "object" },
+      }),
+      expect.objectContaining({
+        name: "workflow_echo_flow",
+        description: "Echo 1.1.0",
+        inputSchema: {
+          type: "object",
+          properties: { topic: { type: "string" } },
+        },
+      }),
+      expect.objectContaining({
+        name: "workflow_typed_flow",
+        inputSchema: {
+          type: "object",
+          properties: { topic: { type: "string", minLength: 1 } },
+          required: ["topic"],
+        },
+      }),
+    ]);
+  });
+
+  it("should call tools through the executor", async () => {
+    const result = await client.callTool({
+      name: "echo",
+      arguments: { text: "hi" },
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect(result.structuredContent).toEqual({ text: "hi" });
+  });
+
+  it("should report invalid input as a failed call", async () => {
+    const result = await client.callTool({ name: "echo", arguments: {} });
+
+    expect(result.isError).toBe(true);
+    expect((result.content as any)[0].text).toContain(
+      "Invalid input for tool echo"
+    );
+  });
+
+  it("should run workflows", async () => {
+    const result = await client.callTool({
+      name: "workflow_echo_flow",
+      arguments: { topic: "AI" },
+    });
+
+    expect(result.structuredContent).toEqual({ text: "AI" });
+  });
+});
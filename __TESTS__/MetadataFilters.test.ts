@@ -0,0 +1,182 @@
+import { Document } from "@langchain/core/documents";
+import VectorDatabase from "../src/database/VectorDatabase";
+import { InMemoryVectorStore } from "../src/database/vectorStores/InMemoryVectorStore";
+import { SQLiteVectorStore } from "../src/database/vectorStores/SQLiteVectorStore";
+import {
+  FilterExpression,
+  parseFilterExpression,
+} from "../src/database/vectorStores/FilterExpressions";
+import { DeterministicEmbeddings } from "../src/modules/embeddings/DeterministicEmbeddings";
+import NoteManagementPlugin from "../src/plugins/NoteManagement.plugin";
+import {
+  NOTE_QUERY_TOOL_NAME,
+  createNoteQueryTool,
+} from "../src/modules/retrieval/NoteTools";
+import { ToolRegistry } from "../src/modules/aiTools/ToolRegistry";
+import { ToolExecutor } from "../src/modules/aiTools/ToolExecutor";
+
+const notes = [
+  {
+    id: "pricing",
+    tags: ["project-x", "sales"],
+    timestamp: "2026-10-15T10:00:00.000Z",
+    title: "Pricing",
+    priority: 2,
+  },
+  {
+    id: "kickoff",
+    tags: ["project-x"],
+    timestamp: "2026-09-01T10:00:00.000Z",
+    title: "Kickoff",
+    priority: 1,
+  },
+  {
+    id: "groceries",
+    timestamp: "2026-10-16T10:00:00.000Z",
+    title: "Groceries",
+    archived: true,
+  },
+];
+
+describe("parseFilterExpression", () => {
+  it("should reject filters outside of the schema", () => {
+    expect(() => parseFilterExpression({ field: "tags", like: "x" })).toThrow(
+      /Invalid metadata filter/
+    );
+    expect(() => parseFilterExpression({ and: [] })).toThrow();
+    expect(() =>
+      parseFilterExpression({ field: "metadata') OR 1", eq: "x" })
+    ).toThrow(/must match pattern/);
+  });
+
+  it("should resolve times relative to now", () => {
+    const filter = parseFilterExpression(
+      { not: { field: "timestamp", gte: "now-7d", lt: "now" } },
+      new Date("2026-10-18T00:00:00.000Z")
+    );
+
+    expect(filter).toEqual({
+      not: {
+        field: "timestamp",
+        gte: "2026-10-11T00:00:00.000Z",
+        lt: "2026-10-18T00:00:00.000Z",
+      },
+    });
+  });
+});
+
+describe.each([
+  [
+    "memory",
+    () =>
+      new InMemoryVectorStore(new DeterministicEmbeddings({ dimensions: 16 })),
+  ],
+  [
+    "sqlite",
+    () =>
+      new SQLiteVectorStore(
+        new DeterministicEmbeddings({ dimensions: 16 }),
+        {}
+      ),
+  ],
+])("Filter expressions on the %s store", (_, createStore) => {
+  const cases: [string, FilterExpression, string[]][] = [
+    ["eq", { field: "title", eq: "Pricing" }, ["pricing"]],
+    ["in", { field: "priority", in: [1, 2] }, ["kickoff", "pricing"]],
+    ["boolean eq", { field: "archived", eq: true }, ["groceries"]],
+    ["tag contains", { field: "tags", contains: "sales" }, ["pricing"]],
+    ["text contains", { field: "title", contains: "roc" }, ["groceries"]],
+    [
+      "timestamp range",
+      { field: "timestamp", gte: "2026-10-11T00:00:00.000Z" },
+      ["groceries", "pricing"],
+    ],
+    ["number range", { field: "priority", gt: 1, lte: 2 }, ["pricing"]],
+    [
+      "or",
+      {
+        or: [
+          { field: "title", eq: "Kickoff" },
+          { field: "archived", eq: true },
+        ],
+      },
+      ["groceries", "kickoff"],
+    ],
+    [
+      "not of a missing field",
+      { not: { field: "tags", contains: "project-x" } },
+      ["groceries"],
+    ],
+    [
+      "and",
+      {
+        and: [
+          { field: "tags", contains: "project-x" },
+          { field: "timestamp", gte: "2026-10-11T00:00:00.000Z" },
+        ],
+      },
+      ["pricing"],
+    ],
+  ];
+
+  it.each(cases)("should filter with %s", async (__, filter, expected) => {
+    const store = createStore();
+    await store.addDocuments(
+      notes.map(
+        ({ id, ...metadata }) =>
+          new Document({ id, pageContent: metadata.title, metadata })
+      )
+    );
+
+    const documents = await store.findDocuments(filter);
+
+    expect(documents.map((document) => document.id).sort()).toEqual(expected);
+  });
+});
+
+describe("query_notes tool", () => {
+  it("should search the notes matching the filter", async () => {
+    const store = new InMemoryVectorStore(
+      new DeterministicEmbeddings({ dimensions: 64 })
+    );
+    const plugin = new NoteManagementPlugin(new VectorDatabase(store));
+    await plugin.storeNote({
+      title: "Pricing",
+      content: "The pro plan costs 20 dollars.",
+      tags: ["project-x"],
+    });
+    await plugin.storeNote({
+      title: "Old pricing",
+      content: "The pro plan cost 15 dollars.",
+    });
+    const toolRegistry = new ToolRegistry();
+    toolRegistry.registerTool(createNoteQueryTool(plugin));
+    const executor = new ToolExecutor(toolRegistry);
+
+    const result: any = await executor.executeToolWithJsonOutput(
+      NOTE_QUERY_TOOL_NAME,
+      {
+        query: "pricing",
+        filter: {
+          and: [
+            { field: "tags", contains: "project-x" },
+            { field: "timestamp", gte: "now-7d" },
+          ],
+        },
+      }
+    );
+
+    expect(result.notes).toEqual([
+      expect.objectContaining({
+        title: "Pricing",
+        content: "The pro plan costs 20 dollars.",
+      }),
+    ]);
+    await expect(
+      executor.executeToolWithJsonOutput(NOTE_QUERY_TOOL_NAME, {
+        query: "pricing",
+        filter: { field: "tags", has: "project-x" },
+      })
+    ).rejects.toThrow(/Invalid metadata filter/);
+  });
+});
@@ -0,0 +1,143 @@
+import { Document } from "@langchain/core/documents";
+import VectorDatabase from "../src/database/VectorDatabase";
+import { InMemoryVectorStore } from "../src/database/vectorStores/InMemoryVectorStore";
+import { DeterministicEmbeddings } from "../src/modules/embeddings/DeterministicEmbeddings";
+import NoteManagementPlugin from "../src/plugins/NoteManagement.plugin";
+import {
+  NOTE_ANSWER_TOOL_NAME,
+  NoteAnswerPipeline,
+  createNoteAnswerTool,
+} from "../src/modules/retrieval/NoteAnswerPipeline";
+import { ScriptedChatModel } from "../src/modules/chatModels/ScriptedChatModel";
+import { ToolRegistry } from "../src/modules/aiTools/ToolRegistry";
+import { ToolExecutor } from "../src/modules/aiTools/ToolExecutor";
+
+describe("NoteAnswerPipeline", () => {
+  const createPipeline = async (model: ScriptedChatModel) => {
+    const store = new InMemoryVectorStore(
+      new DeterministicEmbeddings({ dimensions: 64 })
+    );
+    await store.addDocuments(
+      [
+        { title: "Pricing", content: "The pro plan costs 20 dollars." },
+        { title: "Kickoff", content: "The kickoff meeting is on Monday." },
+      ].map(
+        (note) =>
+          new Document({
+            pageContent: JSON.stringify(note),
+            metadata: { kind: "note", title: note.title },
+          })
+      ),
+      { ids: ["note-1", "note-2"] }
+    );
+    const notes = new NoteManagementPlugin(new VectorDatabase(store));
+    return new NoteAnswerPipeline(notes, () => model);
+  };
+
+  it("should answer from the retrieved notes with citations", async () => {
+    const model = new ScriptedChatModel({
+      replies: [
+        { pattern: "Rewrite the question", reply: "pro plan price" },
+        {
+          pattern: "Answer the question using only the numbered notes",
+          reply: (prompt) => {
+            const number = prompt.match(/\[(\d)\] Pricing/)[1];
+            return `The pro plan costs 20 dollars [${number}].`;
+          },
+        },
+      ],
+    });
+    const pipeline = await createPipeline(model);
+
+    const result = await pipeline.answer("How much is the pro plan?");
+
+    expect(result.searchQuery).toBe("pro plan price");
+    expect(result.answer).toMatch(/costs 20 dollars \[\d\]/);
+    expect(result.citations).toEqual([
+      expect.objectContaining({
+        noteId: "note-1",
+        title: "Pricing",
+        snippet: "The pro plan costs 20 dollars.",
+      }),
+    ]);
+  });
+
+  it("should put the reranked notes first", async () => {
+    const model = new ScriptedChatModel({
+      replies: [
+        {
+          pattern: "Order the numbered notes",
+          reply: (prompt) =>
+            `{"order": [${prompt.match(/\[(\d)\] Kickoff/)[1]}]}`,
+        },
+        {
+          pattern: "Answer the question",
+          reply: "On Monday [1].",
+        },
+      ],
+    });
+    const pipeline = await createPipeline(model);
+
+    const result = await pipeline.answer("When is the kickoff?", {
+      rewriteQuestion: false,
+      rerank: true,
+    });
+
+    expect(result.citations[0]).toMatchObject({ index: 1, noteId: "note-2" });
+  });
+
+  it("should merge the chunks of a note into one citation", async () => {
+    const store = new InMemoryVectorStore(
+      new DeterministicEmbeddings({ dimensions: 64 })
+    );
+    await store.addDocuments(
+      [
+        ["Pricing", "note-1", 1, "Teams pay 50 dollars."],
+        ["Pricing", "note-1", 0, "The pro plan costs 20 dollars."],
+        ["Kickoff", "note-2", 0, "The kickoff meeting is on Monday."],
+      ].map(
+        ([title, parentId, chunkIndex, content]) =>
+          new Document({
+            pageContent: content as string,
+            metadata: { kind: "note", title, parentId, chunkIndex },
+          })
+      )
+    );
+    const model = new ScriptedChatModel({ defaultReply: "Prices [1] [2]." });
+    const pipeline = new NoteAnswerPipeline(
+      new NoteManagementPlugin(new VectorDatabase(store)),
+      () => model
+    );
+
+    const result = await pipeline.answer("What do plans cost?", {
+      rewriteQuestion: false,
+      topK: 2,
+    });
+
+    expect(result.citations.map((citation) => citation.noteId).sort()).toEqual([
+      "note-1",
+      "note-2",
+    ]);
+    expect(model.calls.at(-1).prompt).toContain(
+      "The pro plan costs 20 dollars.\nTeams pay 50 dollars."
+    );
+  });
+
+  it("should be callable as a tool", async () => {
+    const model = new ScriptedChatModel({ defaultReply: "Monday [2]." });
+    const toolRegistry = new ToolRegistry();
+    toolRegistry.registerTool(
+      createNoteAnswerTool(await createPipeline(model))
+    );
+
+    const result: any = await new ToolExecutor(
+      toolRegistry
+    ).executeToolWithJsonOutput(NOTE_ANSWER_TOOL_NAME, {
+      question: "When is the kickoff?",
+      topK: 2,
+    });
+
+    expect(result.answer).toBe("Monday [2].");
+    expect(result.citations).toHaveLength(1);
+  });
+});
@@ -0,0 +1,191 @@
+import VectorDatabase from "../src/database/VectorDatabase";
+import { InMemoryVectorStore } from "../src/database/vectorStores/InMemoryVectorStore";
+import { DeterministicEmbeddings } from "../src/modules/embeddings/DeterministicEmbeddings";
+import NoteManagementPlugin, {
+  INote,
+} from "../src/plugins/NoteManagement.plugin";
+import {
+  NOTE_TOOL_NAMES,
+  createNoteTools,
+} from "../src/modules/retrieval/NoteTools";
+import { ToolRegistry } from "../src/modules/aiTools/ToolRegistry";
+import { ToolExecutor } from "../src/modules/aiTools/ToolExecutor";
+
+describe("NoteManagementPlugin", () => {
+  let store: InMemoryVectorStore;
+  let notes: NoteManagementPlugin;
+
+  beforeEach(() => {
+    store = new InMemoryVectorStore(
+      new DeterministicEmbeddings({ dimensions: 32 })
+    );
+    notes = new NoteManagementPlugin(new VectorDatabase(store));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("should read, update and delete a note by its id", async () => {
+    const note: INote = {
+      title: "Pricing",
+      content: "Pro costs 20.",
+      tags: ["x"],
+    };
+    await notes.storeNote(note);
+    const id = note.id!;
+
+    expect(await notes.getNote(id)).toMatchObject({
+      id,
+      title: "Pricing",
+      content: "Pro costs 20.",
+      tags: ["x"],
+    });
+
+    const embedDocuments = jest.spyOn(store.embeddings, "embedDocuments");
+    const updated = await notes.updateNote(id, {
+      content: "Pro costs 25.",
+      folder: "work",
+    });
+
+    expect(updated).toMatchObject({ id, title: "Pricing" });
+    expect(embedDocuments).toHaveBeenCalledWith(["Pro costs 25."]);
+    expect(await notes.getNote(id)).toMatchObject({
+      content: "Pro costs 25.",
+      folder: "work",
+      tags: ["x"],
+    });
+    expect(await store.findDocuments({ parentId: id })).toHaveLength(1);
+
+    expect(await notes.deleteNote(id)).toBe(true);
+    expect(await notes.getNote(id)).toBeUndefined();
+    expect(await notes.deleteNote(id)).toBe(false);
+    await expect(notes.updateNote(id, { title: "Gone" })).rejects.toThrow(
+      /not found/
+    );
+  });
+
+  it("should change only the metadata when the content is unchanged", async () => {
+    const content = Array.from(
+      { length: 800 },
+      (_, index) => ["pro", "plan", "costs", "pro plan"][index % 4]
+    ).join(" ");
+    const note: INote = { title: "Pricing", content, folder: "work" };
+    await notes.storeNote(note);
+    const id = note.id!;
+    const embedDocuments = jest.spyOn(store.embeddings, "embedDocuments");
+
+    await notes.updateNote(id, { title: "Prices", folder: "" });
+
+    expect(embedDocuments).not.toHaveBeenCalled();
+    const updated = await notes.getNote(id);
+    expect(updated).toMatchObject({ id, title: "Prices", content });
+    expect(updated.folder).toBeUndefined();
+    expect(
+      (await store.findDocuments({ parentId: id })).every(
+        (chunk) => chunk.metadata.title === "Prices"
+      )
+    ).toBe(true);
+    // The content hash covers the new metadata, storing it again is skipped
+    await notes.storeNote({ ...updated });
+    expect(embedDocuments).not.toHaveBeenCalled();
+  });
+
+  it("should not read or delete documents which are not notes", async () => {
+    await store.addDocuments([
+      { id: "code", pageContent: "code", metadata: { id: "code" } } as any,
+    ]);
+
+    expect(await notes.getNote("code")).toBeUndefined();
+    expect(await notes.deleteNote("code")).toBe(false);
+    expect(await store.getDocuments(["code"])).toHaveLength(1);
+  });
+
+  it("should only query notes and report failed queries", async () => {
+    await notes.storeNote({ title: "Pricing", content: "Pro costs 20." });
+    await store.addDocuments([
+      {
+        id: "code",
+        pageContent: "Pro costs 20.",
+        metadata: { id: "code" },
+      } as any,
+    ]);
+
+    const documents = await notes.queryNotes("Pro costs 20.", 5);
+
+    expect(documents.map((document) => document.metadata.title)).toEqual([
+      "Pricing",
+    ]);
+    jest
+      .spyOn(store, "similaritySearchVectorWithScore")
+      .mockRejectedValueOnce(new Error("Filters do not support or"));
+    await expect(
+      notes.queryNotes("Pro", 5, { or: [{ field: "folder", eq: "work" }] })
+    ).rejects.toThrow("Filters do not support or");
+  });
+
+  it("should list notes by folder and tag a page at a time", async () => {
+    jest.useFakeTimers({ now: new Date("2026-10-01T00:00:00.000Z") });
+    for (const [index, folder] of ["work", "home", "work"].entries()) {
+      jest.setSystemTime(new Date(`2026-10-0${index + 1}T00:00:00.000Z`));
+      await notes.storeNote({
+        title: `Note ${index}`,
+        content: `Content ${index}`,
+        folder,
+        tags: index === 2 ? ["urgent"] : [],
+      });
+    }
+    // Documents which are not notes are not listed
+    await store.addDocuments([{ pageContent: "code", metadata: {} } as any]);
+
+    const firstPage = await notes.listNotes({ limit: 2 });
+    expect(firstPage.total).toBe(3);
+    expect(firstPage.notes.map((note) => note.title)).toEqual([
+      "Note 2",
+      "Note 1",
+    ]);
+    const secondPage = await notes.listNotes({ limit: 2, offset: 2 });
+    expect(secondPage.notes.map((note) => note.title)).toEqual(["Note 0"]);
+
+    const work = await notes.listNotes({ folder: "work", order: "asc" });
+    expect(work.notes.map((note) => note.title)).toEqual(["Note 0", "Note 2"]);
+    const urgent = await notes.listNotes({ tag: "urgent" });
+    expect(urgent.notes.map((note) => note.title)).toEqual(["Note 2"]);
+    expect(await notes.listFolders()).toEqual([
+      { folder: "home", count: 1 },
+      { folder: "work", count: 2 },
+    ]);
+  });
+
+  it("should manage notes through the note tools", async () => {
+    const toolRegistry = new ToolRegistry();
+    createNoteTools(notes).forEach((tool) => toolRegistry.registerTool(tool));
+    const executor = new ToolExecutor(toolRegistry);
+
+    const { note }: any = await executor.executeToolWithJsonOutput(
+      NOTE_TOOL_NAMES.create,
+      { title: "Ideas", content: "Write more tests", folder: "work" }
+    );
+    await executor.executeToolWithJsonOutput(NOTE_TOOL_NAMES.update, {
+      id: note.id,
+      tags: ["todo"],
+    });
+    const listed: any = await executor.executeToolWithJsonOutput(
+      NOTE_TOOL_NAMES.list,
+      { tag: "todo" }
+    );
+
+    expect(listed).toMatchObject({
+      total: 1,
+      notes: [{ id: note.id, title: "Ideas", folder: "work", tags: ["todo"] }],
+    });
+    expect(
+      await executor.executeToolWithJsonOutput(NOTE_TOOL_NAMES.delete, {
+        id: note.id,
+      })
+    ).toEqual({ deleted: note.id });
+    await expect(
+      executor.executeToolWithJsonOutput(NOTE_TOOL_NAMES.get, { id: note.id })
+    ).rejects.toThrow(/not found/);
+  });
+});
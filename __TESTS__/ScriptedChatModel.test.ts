@@ -0,0 +1,75 @@
+import { HumanMessage, SystemMessage } from "@langchain/core/messages";
+import { ScriptedChatModel } from "../src/modules/chatModels/ScriptedChatModel";
+import { DeterministicEmbeddings } from "../src/modules/embeddings/DeterministicEmbeddings";
+
+describe("ScriptedChatModel", () => {
+  it("should reply by tool name found in the prompt", async () => {
+    const model = new ScriptedChatModel({
+      replies: [
+        { toolName: "other_tool", reply: "wrong" },
+        { toolName: "content_idea_generator", reply: "ideas" },
+      ],
+    });
+    const response = await model.invoke([
+      new SystemMessage(JSON.stringify({ toolName: "content_idea_generator" })),
+    ]);
+    expect(response.content).toBe("ideas");
+    expect(model.calls[0].toolName).toBe("content_idea_generator");
+  });
+
+  it("should reply by prompt pattern and fall back to the default reply", async () => {
+    const model = new ScriptedChatModel({
+      replies: [{ pattern: /weather/i, reply: "sunny" }],
+      defaultReply: "default",
+    });
+    expect((await model.invoke([new HumanMessage("Weather?")])).content).toBe(
+      "sunny"
+    );
+    expect((await model.invoke([new HumanMessage("Hello")])).content).toBe(
+      "default"
+    );
+  });
+
+  it("should throw when no reply matches", async () => {
+    const model = new ScriptedChatModel();
+    await expect(model.invoke([new HumanMessage("Hello")])).rejects.toThrow(
+      "No scripted reply for prompt"
+    );
+  });
+
+  it("should stream replies in chunks", async () => {
+    const model = new ScriptedChatModel({
+      defaultReply: "abcdefghij",
+      chunkSize: 4,
+    });
+    const chunks = [];
+    for await (const chunk of await model.stream([new HumanMessage("hi")])) {
+      chunks.push(chunk.content);
+    }
+    expect(chunks).toEqual(["abcd", "efgh", "ij"]);
+  });
+});
+
+describe("DeterministicEmbeddings", () => {
+  const embeddings = new DeterministicEmbeddings({ dimensions: 64 });
+
+  it("should return the same normalized vector for the same text", async () => {
+    const first = await embeddings.embedQuery("AI in finance");
+    const second = await embeddings.embedQuery("ai in FINANCE");
+    expect(first).toEqual(second);
+    expect(first).toHaveLength(64);
+    const norm = Math.sqrt(first.reduce((sum, value) => sum + value ** 2, 0));
+    expect(norm).toBeCloseTo(1);
+  });
+
+  it("should rank texts sharing words as more similar", async () => {
+    const [query, related, unrelated] = await embeddings.embedDocuments([
+      "blockchain risk analysis",
+      "risk analysis with blockchain ledgers",
+      "chocolate cake recipe",
+    ]);
+    const dot = (a: number[], b: number[]) =>
+      a.reduce((sum, value, i) => sum + value * b[i], 0);
+    expect(dot(query, related)).toBeGreaterThan(dot(query, unrelated));
+  });
+});
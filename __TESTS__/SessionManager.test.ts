@@ -0,0 +1,84 @@
+import {
+  SessionManager,
+  getSessionOptions,
+} from "../src/modules/sessions/SessionManager";
+import { InMemorySessionStore } from "../src/database/sessionStores/InMemorySessionStore";
+import { ScriptedChatModel } from "../src/modules/chatModels/ScriptedChatModel";
+
+describe("SessionManager", () => {
+  const readStream = async (stream: AsyncIterable<string>) => {
+    let text = "";
+    for await (const chunk of stream) text += chunk;
+    return text;
+  };
+
+  it("should keep the history of every session separately", async () => {
+    const model = new ScriptedChatModel({
+      replies: [{ pattern: "Summarize", reply: "unused" }],
+      defaultReply: "ok",
+    });
+    const sessions = new SessionManager(
+      () => model,
+      new InMemorySessionStore()
+    );
+    sessions.setSystemMessage("Be brief.");
+
+    await readStream(await sessions.chat("a", "My name is Ada."));
+    await readStream(await sessions.chat("b", "My name is Bob."));
+    await readStream(await sessions.chat("a", "What is my name?"));
+
+    const lastPrompt = model.calls.at(-1).prompt;
+    expect(lastPrompt).toContain("Be brief.");
+    expect(lastPrompt).toContain("My name is Ada.");
+    expect(lastPrompt).not.toContain("Bob");
+    expect((await sessions.getSession("a")).messages).toHaveLength(4);
+  });
+
+  it("should summarize the turns beyond the token budget", async () => {
+    const model = new ScriptedChatModel({
+      replies: [
+        { pattern: "Summarize the conversation", reply: "User likes tea." },
+      ],
+      defaultReply: "x".repeat(40),
+    });
+    const store = new InMemorySessionStore();
+    const sessions = new SessionManager(() => model, store, {
+      ...getSessionOptions(),
+      maxHistoryTokens: 30,
+    });
+
+    for (const input of ["I like tea.", "Hello", "Hello again"]) {
+      await readStream(await sessions.chat("a", input));
+    }
+    // Summaries run in the background, the next turn waits for them
+    await readStream(await sessions.chat("a", "What do I like?"));
+
+    const session = await store.getSession("a");
+    expect(session.summary).toBe("User likes tea.");
+    expect(session.summarizedCount).toBeGreaterThan(0);
+    expect(session.messages).toHaveLength(8);
+    const lastPrompt = model.calls.at(-1).prompt;
+    expect(lastPrompt).toContain("User likes tea.");
+    expect(lastPrompt).not.toContain("I like tea.");
+  });
+
+  it("should unlock the session when an answer is dropped", async () => {
+    const model = new ScriptedChatModel({ defaultReply: "ok" });
+    const store = new InMemorySessionStore();
+    const sessions = new SessionManager(() => model, store, {
+      ...getSessionOptions(),
+      streamIdleTimeoutMs: 50,
+    });
+
+    await (await sessions.chat("a", "Cancelled")).cancel();
+    // Never read, the turn ends once the stream was idle for 50ms
+    await sessions.chat("a", "Dropped");
+    expect(await readStream(await sessions.chat("a", "Read"))).toBe("ok");
+
+    const session = await store.getSession("a");
+    expect(session.messages.map((message) => message.content)).toEqual([
+      "Read",
+      "ok",
+    ]);
+  });
+});
@@ -0,0 +1,123 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { Document } from "@langchain/core/documents";
+import { VectorStore } from "@langchain/core/vectorstores";
+import { DeterministicEmbeddings } from "../src/modules/embeddings/DeterministicEmbeddings";
+import { InMemoryVectorStore } from "../src/database/vectorStores/InMemoryVectorStore";
+import { SQLiteVectorStore } from "../src/database/vectorStores/SQLiteVectorStore";
+
+const embeddings = new DeterministicEmbeddings({ dimensions: 128 });
+
+const documents = [
+  new Document({
+    pageContent: "Pricing plans for project x",
+    metadata: { title: "Pricing", language: "en" },
+  }),
+  new Document({
+    pageContent: "Kickoff meeting notes for project x",
+    metadata: { title: "Kickoff", language: "en" },
+  }),
+  new Document({
+    pageContent: "Fiyatlandirma plani",
+    metadata: { title: "Fiyat", language: "tr" },
+  }),
+];
+
+const search = async (store: VectorStore, query: string, filter?: any) =>
+  store.similaritySearchVectorWithScore(
+    await embeddings.embedQuery(query),
+    2,
+    filter
+  );
+
+describe.each([
+  ["InMemoryVectorStore", () => new InMemoryVectorStore(embeddings)],
+  ["SQLiteVectorStore", () => new SQLiteVectorStore(embeddings, {})],
+])("%s", (_name, createStore: () => VectorStore) => {
+  it("should return the most similar documents first", async () => {
+    const store = createStore();
+    await store.addDocuments(documents, { ids: ["1", "2", "3"] });
+
+    const results = await search(store, "project x pricing");
+    expect(results).toHaveLength(2);
+    expect(results[0][0].metadata.title).toBe("Pricing");
+    expect(results[0][1]).toBeGreaterThan(results[1][1]);
+  });
+
+  it("should apply metadata filters", async () => {
+    const store = createStore();
+    await store.addDocuments(documents, { ids: ["1", "2", "3"] });
+
+    const results = await search(store, "project x pricing", {
+      language: "tr",
+    });
+    expect(results.map(([document]) => document.metadata.title)).toEqual([
+      "Fiyat",
+    ]);
+  });
+
+  it("should replace documents with the same id and delete by id", async () => {
+    const store = createStore();
+    await store.addDocuments(documents, { ids: ["1", "2", "3"] });
+    await store.addDocuments(
+      [new Document({ pageContent: "Updated pricing", metadata: {} })],
+      { ids: ["1"] }
+    );
+    await store.delete({ ids: ["2"] });
+
+    const results = await search(store, "pricing");
+    expect(results.map(([document]) => document.pageContent)).toEqual([
+      "Updated pricing",
+      "Fiyatlandirma plani",
+    ]);
+  });
+});
+
+describe("SQLiteVectorStore persistence", () => {
+  const filePath = path.join(
+    fs.mkdtempSync(path.join(os.tmpdir(), "vector-store-")),
+    "store.sqlite"
+  );
+
+  afterAll(() => {
+    fs.rmSync(path.dirname(filePath), { recursive: true, force: true });
+  });
+
+  it("should keep documents across instances", async () => {
+    await new SQLiteVectorStore(embeddings, { filePath }).addDocuments(
+      documents,
+      { ids: ["1", "2", "3"] }
+    );
+
+    const reopened = new SQLiteVectorStore(embeddings, { filePath });
+    const results = await search(reopened, "kickoff meeting");
+    expect(results[0][0].id).toBe("2");
+    expect(results[0][0].metadata).toEqual({
+      title: "Kickoff",
+      language: "en",
+    });
+  });
+
+  it("should save concurrent writes with one atomic file replacement", async () => {
+    const rename = jest.spyOn(fs.promises, "rename");
+    try {
+      const store = new SQLiteVectorStore(embeddings, { filePath });
+      await Promise.all(
+        documents.map((document, index) =>
+          store.addDocuments([document], { ids: [`concurrent-${index}`] })
+        )
+      );
+
+      expect(rename).toHaveBeenCalledTimes(1);
+      expect(rename).toHaveBeenCalledWith(`${filePath}.tmp`, filePath);
+      expect(fs.existsSync(`${filePath}.tmp`)).toBe(false);
+      const reopened = new SQLiteVectorStore(embeddings, { filePath });
+      expect(
+        (await reopened.getDocuments(["concurrent-0", "concurrent-2"])).length
+      ).toBe(2);
+    } finally {
+      rename.mockRestore();
+    }
+  });
+});
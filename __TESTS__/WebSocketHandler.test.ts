@@ -0,0 +1,493 @@
+import WebSocketModule, { Client } from "../src/modules/WebSocketModule";
+import { WebSocketHandler } from "../src/modules/WebSocketHandler";
+import { WorkflowManager } from "../src/modules/WorkFlowManager";
+import { ToolRegistry } from "../src/modules/aiTools/ToolRegistry";
+import { ToolExecutor } from "../src/modules/aiTools/ToolExecutor";
+import { Tool } from "../src/modules/aiTools/AiTools";
+import { convertResponseToStream } from "../src/utils/Stream";
+import { InMemoryWorkflowRunStore } from "../src/database/runStores/InMemoryWorkflowRunStore";
+import { PROTOCOL_VERSION } from "../src/modules/WebSocketProtocol";
+import { ClientQuotas } from "../src/modules/ClientQuotas";
+import { SessionManager } from "../src/modules/sessions/SessionManager";
+import { InMemorySessionStore } from "../src/database/sessionStores/InMemorySessionStore";
+import { ScriptedChatModel } from "../src/modules/chatModels/ScriptedChatModel";
+
+describe("WebSocketHandler", () => {
+  const client = {
+    id: "client",
+    ws: null,
+    identity: { id: "admin", method: "apiKey", permissions: ["*"] },
+  } as Client;
+
+  const createHandler = (quotas = new ClientQuotas()) => {
+    const toolRegistry = new ToolRegistry();
+    toolRegistry.registerTool({
+      interface: new Tool({ toolName: "echo", toolDescription: "echo" }),
+      inputSchema: { type: "object", properties: { text: {} } },
+      outputSchema: { type: "object" },
+      handler: async (tool) =>
+        convertResponseToStream(JSON.stringify({ text: tool.toolArgs.text })),
+    });
+    toolRegistry.registerTool({
+      interface: new Tool({ toolName: "broken", toolDescription: "broken" }),
+      inputSchema: { type: "object" },
+      outputSchema: { type: "object" },
+      handler: async () => {
+        throw new Error("Tool exploded");
+      },
+    });
+    // Runs until it is cancelled
+    toolRegistry.registerTool({
+      interface: new Tool({ toolName: "wait", toolDescription: "wait" }),
+      inputSchema: { type: "object" },
+      outputSchema: { type: "object" },
+      handler: (_tool, context) =>
+        new Promise((_resolve, reject) =>
+          context.signal.addEventListener("abort", () =>
+            reject(context.signal.reason)
+          )
+        ),
+    });
+    const toolExecutor = new ToolExecutor(toolRegistry);
+
+    // Socket module which records the messages instead of sending them
+    const sent: any[] = [];
+    const socket = {
+      clients: [{ id: client.id }],
+      initializeWebSocket: jest.fn(),
+      onClientClose: jest.fn(),
+      sendMessageToClient: (_sessionId: string, message: any) =>
+        sent.push(message),
+      sendIterableReadableStream:
+        WebSocketModule.prototype.sendIterableReadableStream,
+    };
+    const handler = new WebSocketHandler(
+      socket as unknown as WebSocketModule,
+      new WorkflowManager(
+        toolRegistry,
+        toolExecutor,
+        new InMemoryWorkflowRunStore()
+      ),
+      toolExecutor,
+      toolRegistry,
+      new SessionManager(
+        () => new ScriptedChatModel({ defaultReply: "Hello there" }),
+        new InMemorySessionStore()
+      ),
+      quotas
+    );
+    return { handler, sent };
+  };
+
+  it("should negotiate the protocol version with HELLO", async () => {
+    const { handler, sent } = createHandler();
+    await handler.handleWebSocketMessage(
+      {
+        id: "1",
+        type: "HELLO",
+        data: { protocolVersions: [PROTOCOL_VERSION, 99] },
+      },
+      client
+    );
+    await handler.handleWebSocketMessage(
+      { id: "2", type: "HELLO", data: { protocolVersions: [99] } },
+      client
+    );
+
+    expect(sent[0]).toMatchObject({
+      id: "1",
+      status: "success",
+      data: { protocolVersion: PROTOCOL_VERSION },
+    });
+    expect(sent[0].data.capabilities.requestTypes).toContain("EXECUTE_TOOL");
+    expect(sent[1]).toMatchObject({
+      id: "2",
+      status: "error",
+      code: "UNSUPPORTED_PROTOCOL_VERSION",
+    });
+  });
+
+  it("should echo the request id in responses of concurrent requests", async () => {
+    const { handler, sent } = createHandler();
+    await Promise.all([
+      handler.handleWebSocketMessage(
+        {
+          id: "a",
+          type: "EXECUTE_TOOL",
+          data: { toolName: "echo", input: { text: "A" } },
+        },
+        client
+      ),
+      handler.handleWebSocketMessage(
+        {
+          id: "b",
+          type: "EXECUTE_TOOL",
+          data: { toolName: "echo", input: { text: "B" } },
+        },
+        client
+      ),
+    ]);
+
+    expect(sent).toHaveLength(2);
+    expect(sent.find((message) => message.id === "a").data).toEqual({
+      text: "A",
+    });
+    expect(sent.find((message) => message.id === "b").data).toEqual({
+      text: "B",
+    });
+  });
+
+  it("should tag stream chunks and end the stream with STREAM_END", async () => {
+    const { handler, sent } = createHandler();
+    await handler.handleWebSocketMessage(
+      {
+        id: "s",
+        type: "EXECUTE_TOOL",
+        data: { toolName: "echo", input: { text: "hi" }, stream: true },
+      },
+      client
+    );
+
+    expect(sent.length).toBeGreaterThan(1);
+    expect(sent.every((message) => message.id === "s")).toBe(true);
+    expect(
+      sent.slice(0, -1).every((message) => message.type === "STREAM_CHUNK")
+    ).toBe(true);
+    expect(sent[sent.length - 1]).toEqual({ id: "s", type: "STREAM_END" });
+  });
+
+  it("should send machine-readable error codes", async () => {
+    const { handler, sent } = createHandler();
+    await handler.handleWebSocketMessage({ type: "HELLO" } as any, client);
+    await handler.handleWebSocketMessage(
+      { id: "1", type: "UNKNOWN", data: {} },
+      client
+    );
+    await handler.handleWebSocketMessage(
+      { id: "2", type: "EXECUTE_TOOL", data: { toolName: "missing" } },
+      client
+    );
+    await handler.handleWebSocketMessage(
+      {
+        id: "3",
+        type: "EXECUTE_TOOL",
+        data: { toolName: "broken", input: {} },
+      },
+      client
+    );
+    await handler.handleWebSocketMessage(
+      { id: "4", type: "CREATE_WORKFLOW", data: { name: "invalid" } },
+      client
+    );
+
+    expect(sent.map(({ id, status, code }) => ({ id, status, code }))).toEqual([
+      { id: null, status: "error", code: "INVALID_MESSAGE" },
+      { id: "1", status: "error", code: "UNSUPPORTED_MESSAGE_TYPE" },
+      { id: "2", status: "error", code: "NOT_FOUND" },
+      { id: "3", status: "error", code: "EXECUTION_FAILED" },
+      { id: "4", status: "error", code: "INVALID_REQUEST" },
+    ]);
+    expect(sent[3].message).toBe("Tool exploded");
+  });
+
+  it("should reject requests the identity has no permission for", async () => {
+    const { handler, sent } = createHandler();
+    const restricted = {
+      ...client,
+      identity: { id: "reader", method: "jwt", permissions: ["tool:echo"] },
+    } as Client;
+    await handler.handleWebSocketMessage(
+      { id: "1", type: "EXECUTE_TOOL", data: { toolName: "echo", input: {} } },
+      restricted
+    );
+    await handler.handleWebSocketMessage(
+      {
+        id: "2",
+        type: "EXECUTE_TOOL",
+        data: { toolName: "broken", input: {} },
+      },
+      restricted
+    );
+    await handler.handleWebSocketMessage(
+      { id: "3", type: "CREATE_WORKFLOW", data: { name: "flow", steps: [] } },
+      restricted
+    );
+
+    expect(sent[0]).toMatchObject({ id: "1", status: "success" });
+    expect(sent[1]).toMatchObject({
+      id: "2",
+      status: "error",
+      code: "FORBIDDEN",
+      message: "reader does not have the permission tool:broken",
+    });
+    expect(sent[2]).toMatchObject({ id: "3", code: "FORBIDDEN" });
+  });
+
+  it("should keep the request ids of every connection apart", async () => {
+    const { handler, sent } = createHandler();
+    const other = { ...client, id: "other" } as Client;
+    const execute = (from: Client) =>
+      handler.handleWebSocketMessage(
+        {
+          id: "1",
+          type: "EXECUTE_TOOL",
+          data: { toolName: "wait", input: {} },
+        },
+        from
+      );
+    const first = execute(client);
+    const second = execute(other);
+    await new Promise((resolve) => setImmediate(resolve));
+
+    await handler.handleWebSocketMessage(
+      { id: "2", type: "CANCEL", data: { requestId: "1" } },
+      other
+    );
+    await second;
+
+    expect(sent).toEqual([
+      { id: "2", status: "success", data: { cancelled: ["1"] } },
+      expect.objectContaining({ id: "1", status: "error", code: "CANCELLED" }),
+    ]);
+    await handler.handleWebSocketMessage(
+      { id: "3", type: "CANCEL", data: { requestId: "1" } },
+      client
+    );
+    await first;
+    expect(sent[2]).toMatchObject({ id: "3", status: "success" });
+  });
+
+  it("should answer RATE_LIMITED with retry-after information", async () => {
+    const { handler, sent } = createHandler(
+      new ClientQuotas(
+        {
+          messagesPerMinute: 1,
+          maxInFlightPerClient: 1,
+          maxConcurrentExecutions: 1,
+        },
+        () => 0
+      )
+    );
+    await handler.handleWebSocketMessage(
+      { id: "1", type: "HELLO", data: {} },
+      client
+    );
+    // Another connection of the same identity shares its quotas
+    await handler.handleWebSocketMessage(
+      { id: "2", type: "HELLO", data: {} },
+      { ...client, id: "other-connection" }
+    );
+
+    expect(sent[0]).toMatchObject({ id: "1", status: "success" });
+    expect(sent[1]).toMatchObject({
+      id: "2",
+      status: "error",
+      code: "RATE_LIMITED",
+      retryAfterMs: 60000,
+    });
+  });
+
+  it("should describe the tools and workflows the identity may use", async () => {
+    const { handler, sent } = createHandler();
+    const restricted = {
+      ...client,
+      identity: {
+        id: "reader",
+        method: "jwt",
+        permissions: [
+          "tool:echo",
+          "workflow:execute:echo_flow",
+          "workflow:read:echo_flow",
+        ],
+      },
+    } as Client;
+    const workflowIds: Record<string, string> = {};
+    for (const name of ["echo_flow", "broken_flow"]) {
+      await handler.handleWebSocketMessage(
+        {
+          id: `create_${name}`,
+          type: "CREATE_WORKFLOW",
+          data: {
+            name,
+            model: { provider: "openai", apiKey: "secret" },
+            steps: [{ toolName: "echo" }],
+          },
+        },
+        client
+      );
+      workflowIds[name] = sent.pop().data.workflowId;
+    }
+
+    await handler.handleWebSocketMessage(
+      { id: "1", type: "LIST_TOOLS", data: {} },
+      restricted
+    );
+    await handler.handleWebSocketMessage(
+      { id: "2", type: "GET_TOOL", data: { toolName: "broken" } },
+      restricted
+    );
+    await handler.handleWebSocketMessage(
+      { id: "3", type: "LIST_WORKFLOWS", data: {} },
+      restricted
+    );
+    await handler.handleWebSocketMessage(
+      { id: "4", type: "GET_WORKFLOW", data: { workflowName: "echo_flow" } },
+      restricted
+    );
+
+    expect(sent[0].data).toEqual([
+      {
+        name: "echo",
+        description: "echo",
+        inputSchema: { type: "object", properties: { text: {} } },
+        outputSchema: { type: "object" },
+      },
+    ]);
+    expect(sent[1]).toMatchObject({ id: "2", code: "FORBIDDEN" });
+    expect(sent[2].data).toEqual([
+      expect.objectContaining({
+        name: "echo_flow",
+        version: "1.0.0",
+        stepCount: 1,
+      }),
+    ]);
+    expect(sent[3].data).toMatchObject({
+      name: "echo_flow",
+      model: { provider: "openai" },
+      steps: [{ toolName: "echo" }],
+    });
+    expect(sent[3].data.model.apiKey).toBeUndefined();
+  });
+
+  it("should not reveal workflows and runs without the permission", async () => {
+    const { handler, sent } = createHandler();
+    const restricted = {
+      ...client,
+      identity: { id: "reader", method: "jwt", permissions: ["tool:echo"] },
+    } as Client;
+    await handler.handleWebSocketMessage(
+      {
+        id: "1",
+        type: "CREATE_WORKFLOW",
+        data: { name: "flow", steps: [{ toolName: "echo" }] },
+      },
+      client
+    );
+    const { workflowId } = sent[0].data;
+
+    for (const [type, data] of [
+      ["GET_WORKFLOW", { workflowName: "flow" }],
+      ["DELETE_WORKFLOW", { workflowName: "missing" }],
+      ["DIFF_WORKFLOW_VERSIONS", { name: "flow" }],
+      ["LIST_WORKFLOW_RUNS", {}],
+      ["GET_WORKFLOW_RUN", { runId: "run" }],
+    ]) {
+      await handler.handleWebSocketMessage(
+        { id: String(type), type: String(type), data },
+        restricted
+      );
+    }
+    await handler.handleWebSocketMessage(
+      { id: "by_id", type: "GET_WORKFLOW", data: { workflowId } },
+      restricted
+    );
+
+    expect(sent.slice(1, 6)).toEqual(
+      Array(5).fill(expect.objectContaining({ code: "FORBIDDEN" }))
+    );
+    expect(sent[6]).toMatchObject({ id: "by_id", code: "NOT_FOUND" });
+  });
+
+  it("should only show runs of workflows the client may execute", async () => {
+    const { handler, sent } = createHandler();
+    const send = async (id: string, type: string, data: any, as = client) => {
+      await handler.handleWebSocketMessage({ id, type, data }, as);
+      return sent.filter((message) => message.id === id).at(-1);
+    };
+    const runner = {
+      ...client,
+      identity: {
+        id: "runner",
+        method: "jwt",
+        permissions: ["run:read", "workflow:execute:flow_a"],
+      },
+    } as Client;
+    for (const name of ["flow_a", "flow_b"]) {
+      await send(`create_${name}`, "CREATE_WORKFLOW", {
+        name,
+        steps: [{ toolName: "echo" }],
+      });
+      await send(`run_${name}`, "EXECUTE_WORKFLOW", {
+        workflowName: name,
+        input: { text: name },
+      });
+    }
+    const runs = (await send("all", "LIST_WORKFLOW_RUNS", {})).data;
+    const runOf = (name: string) =>
+      runs.find((run: any) => run.workflowName === name).id;
+
+    const listed = await send("list", "LIST_WORKFLOW_RUNS", {}, runner);
+    const own = await send(
+      "own",
+      "GET_WORKFLOW_RUN",
+      { runId: runOf("flow_a") },
+      runner
+    );
+    const other = await send(
+      "other",
+      "GET_WORKFLOW_RUN",
+      { runId: runOf("flow_b") },
+      runner
+    );
+
+    expect(runs).toHaveLength(2);
+    expect(listed.data.map((run: any) => run.workflowName)).toEqual(["flow_a"]);
+    expect(own.data).toMatchObject({ workflowName: "flow_a" });
+    expect(other).toMatchObject({ code: "NOT_FOUND" });
+  });
+
+  it("should delete workflows", async () => {
+    const { handler, sent } = createHandler();
+    await handler.handleWebSocketMessage(
+      {
+        id: "1",
+        type: "CREATE_WORKFLOW",
+        data: { name: "flow", steps: [{ toolName: "echo" }] },
+      },
+      client
+    );
+    const { workflowId } = sent[0].data;
+    await handler.handleWebSocketMessage(
+      { id: "2", type: "DELETE_WORKFLOW", data: { workflowId } },
+      client
+    );
+    await handler.handleWebSocketMessage(
+      { id: "3", type: "GET_WORKFLOW", data: { workflowId } },
+      client
+    );
+
+    expect(sent[1]).toEqual({
+      id: "2",
+      status: "success",
+      data: { workflowId },
+    });
+    expect(sent[2]).toMatchObject({ id: "3", code: "NOT_FOUND" });
+  });
+
+  it("should stream chat answers within the sessions of their owner", async () => {
+    const { handler, sent } = createHandler();
+    await handler.handleWebSocketMessage(
+      { id: "1", type: "CHAT", data: { sessionId: "s1", message: "Hi" } },
+      client
+    );
+    await handler.handleWebSocketMessage(
+      { id: "2", type: "CHAT", data: { sessionId: "s1", message: "Hi" } },
+      { ...client, identity: { ...client.identity, id: "other" } }
+    );
+
+    const chunks = sent.filter((message) => message.type === "STREAM_CHUNK");
+    expect(chunks.map((chunk) => chunk.data).join("")).toBe("Hello there");
+    expect(sent).toContainEqual({ id: "1", type: "STREAM_END" });
+    expect(sent.at(-1)).toMatchObject({ id: "2", code: "FORBIDDEN" });
+  });
+});
@@ -1,4 +1,12 @@
-import { getValueFromPath } from "../src/modules/WorkFlowManager";
+import {
+  WorkflowManager,
+  getValueFromPath,
+} from "../src/modules/WorkFlowManager";
+import { ToolRegistry } from "../src/modules/aiTools/ToolRegistry";
+import { ToolExecutor } from "../src/modules/aiTools/ToolExecutor";
+import { Tool } from "../src/modules/aiTools/AiTools";
+import { convertResponseToStream } from "../src/utils/Stream";
+import { InMemoryWorkflowRunStore } from "../src/database/runStores/InMemoryWorkflowRunStore";
 
 describe("getValueFromPath", () => {
   it("should resolve a simple path", () => {
@@ -51,3 +59,536 @@ describe("getValueFromPath", () => {
     expect(result).toEqual(42);
   });
 });
+
+describe("WorkflowManager", () => {
+  // Models usually wrap their JSON answer in a markdown code block
+  const jsonStream = (value: any) =>
+    convertResponseToStream("```json\n" + JSON.stringify(value) + "\n```");
+
+  const createManager = (
+    handlers: Record<string, (args: any, context?: any) => any>,
+    runStore = new InMemoryWorkflowRunStore()
+  ) => {
+    const toolRegistry = new ToolRegistry();
+    for (const [toolName, handler] of Object.entries(handlers)) {
+      toolRegistry.registerTool({
+        interface: new Tool({ toolName, toolDescription: toolName }),
+        inputSchema: {
+          type: "object",
+          properties: { topic: {}, content: {}, title: {}, meta: {} },
+        },
+        outputSchema: { type: "object" },
+        handler: async (tool, context) =>
+          jsonStream(await handler(tool.toolArgs, context)),
+      });
+    }
+    return new WorkflowManager(
+      toolRegistry,
+      new ToolExecutor(toolRegistry),
+      runStore
+    );
+  };
+
+  const readOutput = async (stream: any) => {
+    for await (const chunk of stream) return chunk;
+  };
+
+  it("should pass each step the merged output of the previous ones", async () => {
+    const manager = createManager({
+      idea: ({ topic }) => ({ title: `About ${topic}` }),
+      content: ({ title }) => ({ content: `${title}!` }),
+    });
+    const workflowId = manager.createWorkflow({
+      name: "sequential",
+      description: "",
+      steps: [
+        { toolName: "idea", inputMapping: { topic: "input.topic" } },
+        { toolName: "content", inputMapping: { title: "output.title" } },
+      ],
+    });
+    const output = await readOutput(
+      await manager.executeWorkflow(workflowId, { topic: "AI" })
+    );
+    expect(output).toEqual({ content: "About AI!" });
+  });
+
+  it("should run parallel branches and key multiple final outputs by step id", async () => {
+    const manager = createManager({
+      content: () => ({ content: "Body" }),
+      title: ({ content }) => ({ title: `Title of ${content}` }),
+      meta: ({ content }) => ({ meta: `Meta of ${content}` }),
+    });
+    const workflowId = manager.createWorkflow({
+      name: "parallel",
+      description: "",
+      maxConcurrency: 2,
+      steps: [
+        { id: "content", toolName: "content", inputMapping: {} },
+        {
+          id: "title",
+          toolName: "title",
+          dependsOn: ["content"],
+          inputMapping: { content: "context.content.output.content" },
+        },
+        {
+          id: "meta",
+          toolName: "meta",
+          dependsOn: ["content"],
+          inputMapping: { content: "output.content" },
+        },
+      ],
+    });
+    const output = await readOutput(
+      await manager.executeWorkflow(workflowId, {})
+    );
+    expect(output).toEqual({
+      title: { title: "Title of Body" },
+      meta: { meta: "Meta of Body" },
+    });
+  });
+
+  it("should keep the arguments of concurrent tool calls apart", async () => {
+    const toolRegistry = new ToolRegistry();
+    toolRegistry.registerTool({
+      interface: new Tool({ toolName: "echo", toolDescription: "echo" }),
+      inputSchema: { type: "object" },
+      outputSchema: { type: "object" },
+      handler: async (tool) => {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        return jsonStream(tool.toolArgs);
+      },
+    });
+    const executor = new ToolExecutor(toolRegistry);
+
+    const outputs = await Promise.all(
+      ["a", "b"].map((topic) =>
+        executor.executeToolWithJsonOutput("echo", { topic })
+      )
+    );
+
+    expect(outputs).toEqual([{ topic: "a" }, { topic: "b" }]);
+    expect(toolRegistry.getTool("echo").interface.toolArgs).toEqual({});
+  });
+
+  it("should reject workflows with dependency cycles", () => {
+    const manager = createManager({ tool: () => ({}) });
+    expect(() =>
+      manager.createWorkflow({
+        name: "cyclic",
+        description: "",
+        steps: [
+          { id: "a", toolName: "tool", dependsOn: ["b"], inputMapping: {} },
+          { id: "b", toolName: "tool", dependsOn: ["a"], inputMapping: {} },
+        ],
+      })
+    ).toThrow("Workflow contains a dependency cycle between steps: a, b");
+  });
+
+  it("should skip steps whose condition is false", async () => {
+    const manager = createManager({
+      detect: ({ content }) => ({ content, meta: { language: "de" } }),
+      translate: ({ content }) => ({ content: `Translated ${content}` }),
+      title: ({ content }) => ({ title: `Title of ${content}` }),
+    });
+    const workflowId = manager.createWorkflow({
+      name: "conditional",
+      description: "",
+      steps: [
+        { toolName: "detect", inputMapping: { content: "input.content" } },
+        {
+          toolName: "translate",
+          when: "output.meta.language == input.language",
+          inputMapping: { content: "output.content" },
+        },
+        { toolName: "title", inputMapping: { content: "output.content" } },
+      ],
+    });
+
+    const skipped = await readOutput(
+      await manager.executeWorkflow(workflowId, {
+        content: "Text",
+        language: "en",
+      })
+    );
+    expect(skipped).toEqual({ title: "Title of Text" });
+
+    const translated = await readOutput(
+      await manager.executeWorkflow(workflowId, {
+        content: "Text",
+        language: "de",
+      })
+    );
+    expect(translated).toEqual({ title: "Title of Translated Text" });
+  });
+
+  it("should only run the branch selected by a switch step", async () => {
+    const calls: string[] = [];
+    const manager = createManager({
+      short: () => (calls.push("short"), { content: "Short post" }),
+      long: () => (calls.push("long"), { content: "Long post" }),
+      title: ({ content }) => ({ title: `Title of ${content}` }),
+    });
+    const workflowId = manager.createWorkflow({
+      name: "switch",
+      description: "",
+      steps: [
+        {
+          id: "length",
+          switch: {
+            on: "input.length",
+            cases: { short: ["short"] },
+            default: ["long"],
+          },
+        },
+        { id: "short", toolName: "short", dependsOn: [], inputMapping: {} },
+        { id: "long", toolName: "long", dependsOn: [], inputMapping: {} },
+        {
+          toolName: "title",
+          dependsOn: ["short", "long"],
+          inputMapping: { content: "output.content" },
+        },
+      ],
+    });
+
+    const output = await readOutput(
+      await manager.executeWorkflow(workflowId, { length: "short" })
+    );
+    expect(output).toEqual({ title: "Title of Short post" });
+    expect(calls).toEqual(["short"]);
+  });
+
+  it("should reject invalid conditions", () => {
+    const manager = createManager({ tool: () => ({}) });
+    expect(() =>
+      manager.createWorkflow({
+        name: "invalid",
+        description: "",
+        steps: [
+          { toolName: "tool", when: "language == 'en'", inputMapping: {} },
+        ],
+      })
+    ).toThrow('Unknown identifier "language"');
+  });
+
+  it("should retry failed steps and fall back to another tool", async () => {
+    let attempts = 0;
+    const manager = createManager({
+      flaky: ({ topic }) => {
+        if (++attempts < 3) throw new Error("Invalid JSON");
+        return { title: `About ${topic}` };
+      },
+      broken: () => {
+        throw new Error("Always broken");
+      },
+      fallback: ({ topic }) => ({ title: `Fallback ${topic}` }),
+    });
+    const retried = manager.createWorkflow({
+      name: "retried",
+      description: "",
+      steps: [
+        {
+          toolName: "flaky",
+          retry: { attempts: 3, delayMs: 0 },
+          inputMapping: { topic: "input.topic" },
+        },
+      ],
+    });
+    expect(
+      await readOutput(await manager.executeWorkflow(retried, { topic: "AI" }))
+    ).toEqual({ title: "About AI" });
+    expect(attempts).toBe(3);
+
+    const fallback = manager.createWorkflow({
+      name: "fallback",
+      description: "",
+      steps: [
+        {
+          toolName: "broken",
+          fallbackToolName: "fallback",
+          inputMapping: { topic: "input.topic" },
+        },
+      ],
+    });
+    expect(
+      await readOutput(await manager.executeWorkflow(fallback, { topic: "AI" }))
+    ).toEqual({ title: "Fallback AI" });
+  });
+
+  it("should fail steps which exceed their timeout", async () => {
+    const signals: AbortSignal[] = [];
+    const manager = createManager({
+      slow: (_args, { signal }) => {
+        signals.push(signal);
+        return new Promise(() => {}); // Never settles
+      },
+    });
+    const workflowId = manager.createWorkflow({
+      name: "timeout",
+      description: "",
+      steps: [
+        {
+          toolName: "slow",
+          timeoutMs: 10,
+          retry: { attempts: 2, delayMs: 0 },
+          inputMapping: {},
+        },
+      ],
+    });
+    await expect(manager.executeWorkflow(workflowId, {})).rejects.toThrow(
+      "Workflow execution failed at step 0: Tool slow timed out after 10ms"
+    );
+    // Timed out attempts are aborted, not left running
+    expect(signals).toHaveLength(2);
+    expect(signals.every((signal) => signal.aborted)).toBe(true);
+  });
+
+  it("should record failed items of $index steps with continueOnError", async () => {
+    const manager = createManager({
+      ideas: () => ({
+        ideas: [{ title: "A" }, { title: "B" }, { title: "C" }],
+      }),
+      content: ({ title }) => {
+        if (title === "B") throw new Error("Bad idea");
+        return { content: `Post ${title}` };
+      },
+      summary: ({ content }) => ({ content }),
+    });
+    const workflowId = manager.createWorkflow({
+      name: "continue",
+      description: "",
+      steps: [
+        { id: "ideas", toolName: "ideas", inputMapping: {} },
+        {
+          id: "posts",
+          toolName: "content",
+          continueOnError: true,
+          inputMapping: { title: "output.ideas[$index].title" },
+        },
+        {
+          toolName: "summary",
+          inputMapping: { content: "context.posts.errors" },
+        },
+      ],
+    });
+    const output = await readOutput(
+      await manager.executeWorkflow(workflowId, {})
+    );
+    expect(output).toEqual({ content: [{ index: 1, message: "Bad idea" }] });
+  });
+
+  it("should record runs and resume failed runs from the failed step", async () => {
+    const calls: string[] = [];
+    let failing = true;
+    const manager = createManager({
+      idea: ({ topic }) => (calls.push("idea"), { title: `About ${topic}` }),
+      content: ({ title }) => {
+        calls.push("content");
+        if (failing) throw new Error("Invalid JSON");
+        return { content: `${title}!` };
+      },
+    });
+    const workflowId = manager.createWorkflow({
+      name: "resumable",
+      description: "",
+      steps: [
+        {
+          id: "idea",
+          toolName: "idea",
+          inputMapping: { topic: "input.topic" },
+        },
+        {
+          id: "content",
+          toolName: "content",
+          inputMapping: { title: "output.title" },
+        },
+      ],
+    });
+
+    const error = await manager
+      .executeWorkflow(workflowId, { topic: "AI" })
+      .catch((error) => error);
+    expect(error.message).toBe(
+      "Workflow execution failed at step 1: Invalid JSON"
+    );
+
+    const failedRun = await manager.getRun(error.runId);
+    expect(failedRun).toMatchObject({
+      workflowId,
+      status: "failed",
+      failedStep: "content",
+      steps: {
+        idea: {
+          status: "completed",
+          context: { input: { topic: "AI" }, output: { title: "About AI" } },
+        },
+        content: { status: "failed", error: "Invalid JSON" },
+      },
+    });
+    expect(await manager.listRuns({ status: "failed" })).toHaveLength(1);
+
+    failing = false;
+    const output = await readOutput(await manager.resumeWorkflow(error.runId));
+    expect(output).toEqual({ content: "About AI!" });
+    expect(calls).toEqual(["idea", "content", "content"]);
+    expect(await manager.getRun(error.runId)).toMatchObject({
+      status: "completed",
+      output: { content: "About AI!" },
+      resumeCount: 1,
+    });
+    await expect(manager.resumeWorkflow(error.runId)).rejects.toThrow(
+      "only failed or cancelled runs can be resumed"
+    );
+  });
+
+  it("should emit progress events tagged with the run and correlation id", async () => {
+    const manager = createManager({
+      idea: ({ topic }) => ({ title: `About ${topic}` }),
+      content: ({ title }) => {
+        if (title === "About fail") throw new Error("Invalid JSON");
+        return { content: `${title}!` };
+      },
+    });
+    const workflowId = manager.createWorkflow({
+      name: "events",
+      description: "",
+      steps: [
+        {
+          id: "idea",
+          toolName: "idea",
+          inputMapping: { topic: "input.topic" },
+        },
+        {
+          id: "content",
+          toolName: "content",
+          inputMapping: { title: "output.title" },
+        },
+      ],
+    });
+
+    const events = [];
+    await manager.executeWorkflow(
+      workflowId,
+      { topic: "AI" },
+      {
+        runId: "run-1",
+        correlationId: "request-1",
+        onEvent: (event) => events.push(event),
+      }
+    );
+    expect(events.map((event) => [event.type, event.stepId ?? null])).toEqual([
+      ["WORKFLOW_STARTED", null],
+      ["STEP_STARTED", "idea"],
+      ["STEP_TOKEN", "idea"],
+      ["STEP_COMPLETED", "idea"],
+      ["STEP_STARTED", "content"],
+      ["STEP_TOKEN", "content"],
+      ["STEP_COMPLETED", "content"],
+      ["WORKFLOW_COMPLETED", null],
+    ]);
+    expect(
+      events.every(
+        (event) =>
+          event.runId === "run-1" &&
+          event.workflowId === workflowId &&
+          event.correlationId === "request-1"
+      )
+    ).toBe(true);
+    expect(events[2].token).toContain('"title":"About AI"');
+    expect(events[3]).toMatchObject({
+      status: "completed",
+      output: { title: "About AI" },
+    });
+    expect(events[7].output).toEqual({ content: "About AI!" });
+
+    const failedEvents = [];
+    await expect(
+      manager.executeWorkflow(
+        workflowId,
+        { topic: "fail" },
+        { onEvent: (event) => failedEvents.push(event) }
+      )
+    ).rejects.toThrow();
+    expect(failedEvents.slice(-2)).toEqual([
+      expect.objectContaining({
+        type: "STEP_FAILED",
+        stepId: "content",
+        error: "Invalid JSON",
+      }),
+      expect.objectContaining({ type: "WORKFLOW_FAILED" }),
+    ]);
+  });
+
+  it("should cancel a running workflow and keep it resumable", async () => {
+    const calls: string[] = [];
+    const manager = createManager({
+      idea: ({ topic }) => (calls.push("idea"), { title: `About ${topic}` }),
+      content: ({ title }, { signal }) => {
+        calls.push("content");
+        if (calls.filter((call) => call === "content").length > 1) {
+          return { content: `${title}!` };
+        }
+        // The first call never finishes on its own, only the abort ends it
+        return new Promise((_, reject) =>
+          signal.addEventListener("abort", () => reject(signal.reason))
+        );
+      },
+      summary: ({ content }) => (calls.push("summary"), { content }),
+    });
+    const workflowId = manager.createWorkflow({
+      name: "cancellable",
+      description: "",
+      steps: [
+        {
+          id: "idea",
+          toolName: "idea",
+          inputMapping: { topic: "input.topic" },
+        },
+        {
+          id: "content",
+          toolName: "content",
+          inputMapping: { title: "output.title" },
+        },
+        {
+          id: "summary",
+          toolName: "summary",
+          inputMapping: { content: "output.content" },
+        },
+      ],
+    });
+
+    const controller = new AbortController();
+    const events = [];
+    const execution = manager.executeWorkflow(
+      workflowId,
+      { topic: "AI" },
+      {
+        runId: "cancelled-run",
+        signal: controller.signal,
+        onEvent: (event) => {
+          events.push(event.type);
+          if (event.type === "STEP_STARTED" && event.stepId === "content") {
+            setTimeout(() => controller.abort()); // Once the tool is running
+          }
+        },
+      }
+    );
+    await expect(execution).rejects.toThrow(
+      "Workflow run cancelled-run was cancelled"
+    );
+    expect(events.slice(-1)).toEqual(["WORKFLOW_CANCELLED"]);
+    expect(calls).toEqual(["idea", "content"]);
+    expect(await manager.getRun("cancelled-run")).toMatchObject({
+      status: "cancelled",
+      steps: {
+        idea: { status: "completed" },
+        content: { status: "cancelled" },
+      },
+    });
+
+    const output = await readOutput(
+      await manager.resumeWorkflow("cancelled-run")
+    );
+    expect(output).toEqual({ content: "About AI!" });
+    expect(calls).toEqual(["idea", "content", "content", "summary"]);
+  });
+});
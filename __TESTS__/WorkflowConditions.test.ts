@@ -0,0 +1,53 @@
+import {
+  evaluateCondition,
+  evaluateExpression,
+  parseCondition,
+} from "../src/modules/WorkflowConditions";
+
+describe("WorkflowConditions", () => {
+  const values = {
+    "output.meta.language": "de",
+    "output.score": 0.5,
+    "input.enabled": true,
+  };
+  const resolvePath = (path: string) => values[path];
+
+  it("should compare paths with literals", () => {
+    expect(evaluateCondition("output.meta.language != 'en'", resolvePath)).toBe(
+      true
+    );
+    expect(evaluateCondition("output.score >= 0.7", resolvePath)).toBe(false);
+    expect(evaluateCondition("input.missing == null", resolvePath)).toBe(true);
+  });
+
+  it("should combine conditions with precedence and parentheses", () => {
+    expect(
+      evaluateCondition(
+        "input.enabled && output.score < 0.7 || output.score > 1",
+        resolvePath
+      )
+    ).toBe(true);
+    expect(
+      evaluateCondition(
+        '!(input.enabled && output.meta.language == "de")',
+        resolvePath
+      )
+    ).toBe(false);
+  });
+
+  it("should evaluate expressions to their value", () => {
+    expect(evaluateExpression("output.meta.language", resolvePath)).toBe("de");
+  });
+
+  it("should reject invalid expressions", () => {
+    expect(() => parseCondition("output.score <")).toThrow(
+      "Unexpected end of condition"
+    );
+    expect(() => parseCondition("(input.enabled")).toThrow(
+      "Missing closing parenthesis"
+    );
+    expect(() => parseCondition("language == 'en'")).toThrow(
+      'Unknown identifier "language"'
+    );
+  });
+});
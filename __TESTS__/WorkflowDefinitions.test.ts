@@ -0,0 +1,129 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  WorkflowDefinitionLoader,
+  parseWorkflowDefinition,
+} from "../src/modules/WorkflowDefinitions";
+import { WorkflowManager } from "../src/modules/WorkFlowManager";
+import {
+  ToolRegistry,
+  getWorkflowId,
+} from "../src/modules/aiTools/ToolRegistry";
+import { ToolExecutor } from "../src/modules/aiTools/ToolExecutor";
+import { Tool } from "../src/modules/aiTools/AiTools";
+import { InMemoryWorkflowRunStore } from "../src/database/runStores/InMemoryWorkflowRunStore";
+import { convertResponseToStream } from "../src/utils/Stream";
+
+const yamlDefinition = (version: string) => `
+name: ideas
+version: ${version}
+description: Generates ideas
+steps:
+  - toolName: idea
+    inputMapping:
+      topic: input.topic
+`;
+
+describe("parseWorkflowDefinition", () => {
+  it("should parse YAML and JSON definitions", () => {
+    expect(parseWorkflowDefinition(yamlDefinition("1.2.0"), "a.yaml")).toEqual({
+      name: "ideas",
+      version: "1.2.0",
+      description: "Generates ideas",
+      steps: [{ toolName: "idea", inputMapping: { topic: "input.topic" } }],
+    });
+    expect(
+      parseWorkflowDefinition(
+        JSON.stringify({ name: "ideas", steps: [{ toolName: "idea" }] }),
+        "a.json"
+      )
+    ).toEqual({
+      name: "ideas",
+      description: "",
+      steps: [{ toolName: "idea" }],
+    });
+  });
+
+  it("should reject definitions which do not match the schema", () => {
+    expect(() =>
+      parseWorkflowDefinition(
+        "name: ideas\nsteps:\n  - toolName: idea\n    inputMaping: {}\n",
+        "a.yaml"
+      )
+    ).toThrow("Invalid workflow file a.yaml");
+    expect(() =>
+      parseWorkflowDefinition(
+        "name: ideas\nversion: latest\nsteps: []\n",
+        "a.yaml"
+      )
+    ).toThrow("Invalid workflow file a.yaml");
+  });
+});
+
+describe("WorkflowDefinitionLoader", () => {
+  let directory: string;
+  let toolRegistry: ToolRegistry;
+  let loader: WorkflowDefinitionLoader;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "workflows-"));
+    toolRegistry = new ToolRegistry();
+    toolRegistry.registerTool({
+      interface: new Tool({ toolName: "idea", toolDescription: "idea" }),
+      inputSchema: { type: "object", properties: { topic: {} } },
+      outputSchema: { type: "object" },
+      handler: async () => convertResponseToStream("{}"),
+    });
+    const workflowManager = new WorkflowManager(
+      toolRegistry,
+      new ToolExecutor(toolRegistry),
+      new InMemoryWorkflowRunStore()
+    );
+    loader = new WorkflowDefinitionLoader(workflowManager, directory);
+  });
+
+  afterEach(() => loader.close());
+
+  it("should load definitions with ids derived from name and version", () => {
+    fs.writeFileSync(
+      path.join(directory, "ideas.yaml"),
+      yamlDefinition("1.0.0")
+    );
+    fs.writeFileSync(path.join(directory, "broken.yaml"), "name: broken\n");
+    fs.writeFileSync(path.join(directory, "notes.txt"), "ignored");
+
+    expect(loader.loadAll()).toEqual([getWorkflowId("ideas", "1.0.0")]);
+    expect(toolRegistry.getWorkflow(getWorkflowId("ideas", "1.0.0"))).toEqual(
+      expect.objectContaining({ name: "ideas", version: "1.0.0" })
+    );
+    expect(getWorkflowId("ideas", "1.0.0")).not.toEqual(
+      getWorkflowId("ideas", "1.1.0")
+    );
+  });
+
+  it("should reload changed files and unregister deleted ones", async () => {
+    const filePath = path.join(directory, "ideas.yaml");
+    fs.writeFileSync(filePath, yamlDefinition("1.0.0"));
+    loader.loadAll();
+    loader.watch();
+
+    const waitFor = async (condition: () => boolean) => {
+      for (let i = 0; i < 50 && !condition(); i++) {
+        await new Promise((resolve) => setTimeout(resolve, 50));
+      }
+      expect(condition()).toBe(true);
+    };
+
+    fs.writeFileSync(filePath, yamlDefinition("1.1.0"));
+    await waitFor(() =>
+      Boolean(toolRegistry.getWorkflow(getWorkflowId("ideas", "1.1.0")))
+    );
+    // The replaced version stays available to pinned callers
+    expect(toolRegistry.getWorkflowByName("ideas", "1.0.0")).toBeDefined();
+    expect(toolRegistry.getWorkflowByName("ideas")?.version).toBe("1.1.0");
+
+    fs.unlinkSync(filePath);
+    await waitFor(() => toolRegistry.getWorkflows().size === 0);
+  });
+});
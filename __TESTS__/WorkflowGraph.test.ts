@@ -0,0 +1,105 @@
+import {
+  buildWorkflowGraph,
+  getSinkNodes,
+  runWorkflowGraph,
+} from "../src/modules/WorkflowGraph";
+
+const step = (id: string, dependsOn?: string[]) => ({
+  id,
+  toolName: "tool",
+  inputMapping: {},
+  dependsOn,
+});
+
+describe("buildWorkflowGraph", () => {
+  it("should chain steps without dependsOn in sequence", () => {
+    const nodes = buildWorkflowGraph([
+      { toolName: "a", inputMapping: {} },
+      { toolName: "b", inputMapping: {} },
+    ]);
+    expect(nodes.map((node) => [node.id, node.dependsOn])).toEqual([
+      ["step_0", []],
+      ["step_1", ["step_0"]],
+    ]);
+  });
+
+  it("should keep explicit dependencies", () => {
+    const nodes = buildWorkflowGraph([
+      step("content"),
+      step("title", ["content"]),
+      step("meta", ["content"]),
+    ]);
+    expect(getSinkNodes(nodes).map((node) => node.id)).toEqual([
+      "title",
+      "meta",
+    ]);
+  });
+
+  it("should reject unknown dependencies and duplicate ids", () => {
+    expect(() => buildWorkflowGraph([step("a", ["missing"])])).toThrow(
+      "Step a depends on unknown step missing"
+    );
+    expect(() => buildWorkflowGraph([step("a"), step("a")])).toThrow(
+      "Duplicate workflow step id: a"
+    );
+  });
+
+  it("should detect cycles", () => {
+    expect(() =>
+      buildWorkflowGraph([step("a", ["c"]), step("b", ["a"]), step("c", ["b"])])
+    ).toThrow("Workflow contains a dependency cycle between steps: a, b, c");
+  });
+});
+
+describe("runWorkflowGraph", () => {
+  const delay = (ms: number) =>
+    new Promise((resolve) => setTimeout(resolve, ms));
+
+  it("should run independent steps concurrently after their dependencies", async () => {
+    const nodes = buildWorkflowGraph([
+      step("content", []),
+      step("title", ["content"]),
+      step("meta", ["content"]),
+      step("publish", ["title", "meta"]),
+    ]);
+    const events: string[] = [];
+    await runWorkflowGraph(nodes, 4, async (node) => {
+      events.push(`start:${node.id}`);
+      await delay(10);
+      events.push(`end:${node.id}`);
+    });
+    expect(events).toEqual([
+      "start:content",
+      "end:content",
+      "start:title",
+      "start:meta",
+      "end:title",
+      "end:meta",
+      "start:publish",
+      "end:publish",
+    ]);
+  });
+
+  it("should respect the concurrency limit", async () => {
+    const nodes = buildWorkflowGraph(
+      ["a", "b", "c", "d"].map((id) => step(id, []))
+    );
+    let running = 0;
+    let maxRunning = 0;
+    await runWorkflowGraph(nodes, 2, async () => {
+      maxRunning = Math.max(maxRunning, ++running);
+      await delay(5);
+      running--;
+    });
+    expect(maxRunning).toBe(2);
+  });
+
+  it("should stop scheduling after a failure", async () => {
+    const nodes = buildWorkflowGraph([step("a", []), step("b", ["a"])]);
+    const run = jest.fn(async (node) => {
+      if (node.id === "a") throw new Error("boom");
+    });
+    await expect(runWorkflowGraph(nodes, 2, run)).rejects.toThrow("boom");
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,77 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { IWorkflowRun } from "../src/database/runStores/WorkflowRunStore";
+import { InMemoryWorkflowRunStore } from "../src/database/runStores/InMemoryWorkflowRunStore";
+import { FileWorkflowRunStore } from "../src/database/runStores/FileWorkflowRunStore";
+import { SQLiteWorkflowRunStore } from "../src/database/runStores/SQLiteWorkflowRunStore";
+
+const createRun = (
+  id: string,
+  startedAt: string,
+  overrides: Partial<IWorkflowRun> = {}
+): IWorkflowRun => ({
+  id,
+  workflowId: "workflow",
+  workflowName: "workflow",
+  workflowVersion: "1.0.0",
+  status: "completed",
+  input: { topic: "AI" },
+  prunedSteps: [],
+  steps: {},
+  startedAt,
+  resumeCount: 0,
+  ...overrides,
+});
+
+const tempDirectory = () =>
+  fs.mkdtempSync(path.join(os.tmpdir(), "workflow-runs-"));
+
+describe.each([
+  ["InMemoryWorkflowRunStore", () => new InMemoryWorkflowRunStore()],
+  ["FileWorkflowRunStore", () => new FileWorkflowRunStore(tempDirectory())],
+  [
+    "SQLiteWorkflowRunStore",
+    () => new SQLiteWorkflowRunStore(path.join(tempDirectory(), "runs.sqlite")),
+  ],
+])("%s", (_name, createStore) => {
+  it("should save, update and get runs", async () => {
+    const store = createStore();
+    await store.saveRun(createRun("1", "2024-01-01T00:00:00.000Z"));
+    await store.saveRun(
+      createRun("1", "2024-01-01T00:00:00.000Z", { status: "failed" })
+    );
+    expect(await store.getRun("1")).toMatchObject({ status: "failed" });
+    expect(await store.getRun("missing")).toBeUndefined();
+  });
+
+  it("should list the newest runs first and filter them", async () => {
+    const store = createStore();
+    await store.saveRun(createRun("1", "2024-01-01T00:00:00.000Z"));
+    await store.saveRun(
+      createRun("2", "2024-01-02T00:00:00.000Z", { status: "failed" })
+    );
+    await store.saveRun(
+      createRun("3", "2024-01-03T00:00:00.000Z", { workflowId: "other" })
+    );
+
+    const ids = async (filter?: any) =>
+      (await store.listRuns(filter)).map((run) => run.id);
+    expect(await ids()).toEqual(["3", "2", "1"]);
+    expect(await ids({ workflowId: "workflow" })).toEqual(["2", "1"]);
+    expect(await ids({ status: "failed" })).toEqual(["2"]);
+    expect(await ids({ limit: 1 })).toEqual(["3"]);
+  });
+});
+
+describe("SQLiteWorkflowRunStore persistence", () => {
+  it("should keep runs after reopening the database file", async () => {
+    const filePath = path.join(tempDirectory(), "runs.sqlite");
+    await new SQLiteWorkflowRunStore(filePath).saveRun(
+      createRun("1", "2024-01-01T00:00:00.000Z")
+    );
+    expect(
+      await new SQLiteWorkflowRunStore(filePath).getRun("1")
+    ).toMatchObject({ id: "1", input: { topic: "AI" } });
+  });
+});
@@ -0,0 +1,121 @@
+import {
+  compareVersions,
+  diffWorkflows,
+} from "../src/modules/WorkflowVersions";
+import {
+  IWorkflow,
+  ToolRegistry,
+  WorkflowConflictError,
+  getWorkflowId,
+} from "../src/modules/aiTools/ToolRegistry";
+
+const workflow = (
+  version: string,
+  overrides: Partial<IWorkflow> = {}
+): Omit<IWorkflow, "id"> => ({
+  name: "content",
+  version,
+  description: "Content",
+  steps: [
+    { id: "idea", toolName: "idea", inputMapping: { topic: "input.topic" } },
+    { id: "post", toolName: "post", inputMapping: { title: "output.title" } },
+  ],
+  ...overrides,
+});
+
+describe("compareVersions", () => {
+  it("should order versions semantically", () => {
+    expect(
+      ["1.10.0", "1.2.0", "1.2.0-beta.2", "1.2.0-beta.10", "0.9.1"].sort(
+        compareVersions
+      )
+    ).toEqual(["0.9.1", "1.2.0-beta.2", "1.2.0-beta.10", "1.2.0", "1.10.0"]);
+  });
+
+  it("should reject invalid versions", () => {
+    expect(() => compareVersions("1.0", "1.0.0")).toThrow(
+      "Invalid workflow version: 1.0"
+    );
+  });
+});
+
+describe("ToolRegistry workflow versions", () => {
+  it("should keep every version and resolve the latest or a pinned one", () => {
+    const registry = new ToolRegistry();
+    registry.createWorkflow(workflow("1.0.0"));
+    registry.createWorkflow(workflow("1.1.0"));
+    registry.createWorkflow(workflow("2.0.0-draft"));
+
+    expect(registry.getWorkflowByName("content").version).toBe("1.1.0");
+    expect(registry.getWorkflowByName("content", "latest").id).toBe(
+      getWorkflowId("content", "1.1.0")
+    );
+    expect(registry.getWorkflowByName("content", "1.0.0").version).toBe(
+      "1.0.0"
+    );
+    expect(registry.getWorkflowByName("content", "3.0.0")).toBeUndefined();
+    expect(
+      registry.getWorkflowVersions("content").map((w) => w.version)
+    ).toEqual(["1.0.0", "1.1.0", "2.0.0-draft"]);
+  });
+
+  it("should refuse another definition for a registered version", () => {
+    const registry = new ToolRegistry();
+    const id = registry.createWorkflow(workflow("1.0.0"));
+    expect(registry.createWorkflow(workflow("1.0.0"))).toBe(id);
+    expect(() =>
+      registry.createWorkflow(workflow("1.0.0", { description: "Updated" }))
+    ).toThrow(WorkflowConflictError);
+    expect(registry.getWorkflows().size).toBe(1);
+    expect(registry.getWorkflow(id).description).not.toBe("Updated");
+  });
+});
+
+describe("diffWorkflows", () => {
+  it("should list workflow and step changes", () => {
+    const registry = new ToolRegistry();
+    const from = registry.getWorkflow(
+      registry.createWorkflow(workflow("1.0.0"))
+    );
+    const to = registry.getWorkflow(
+      registry.createWorkflow(
+        workflow("1.1.0", {
+          description: "Better content",
+          model: { temperature: 0.2 },
+          steps: [
+            {
+              id: "idea",
+              toolName: "idea",
+              inputMapping: { topic: "input.topic", keywords: "input.tags" },
+            },
+            { id: "title", toolName: "title", inputMapping: {} },
+          ],
+        })
+      )
+    );
+
+    expect(diffWorkflows(from, to)).toEqual({
+      name: "content",
+      fromVersion: "1.0.0",
+      toVersion: "1.1.0",
+      changes: [
+        { path: "description", from: "Content", to: "Better content" },
+        { path: "model", from: undefined, to: { temperature: 0.2 } },
+      ],
+      addedSteps: ["title"],
+      removedSteps: ["post"],
+      changedSteps: [
+        {
+          stepId: "idea",
+          changes: [
+            {
+              path: "inputMapping.keywords",
+              from: undefined,
+              to: "input.tags",
+            },
+          ],
+        },
+      ],
+    });
+  });
+});
@@ -4,15 +4,41 @@ import { ToolRegistry } from "./modules/aiTools/ToolRegistry";
 import { ToolExecutor } from "./modules/aiTools/ToolExecutor";
 import { WorkflowManager } from "./modules/WorkFlowManager";
 import { WebSocketHandler } from "./modules/WebSocketHandler";
+import { WorkflowDefinitionLoader } from "./modules/WorkflowDefinitions";
+import { HttpGateway } from "./modules/HttpGateway";
+import { McpToolServer } from "./modules/McpToolServer";
+import { ClientQuotas } from "./modules/ClientQuotas";
+import { createAuthenticator } from "./modules/auth/AuthenticatorFactory";
+import { AgentRunner, IAgentOptions } from "./modules/agents/AgentRunner";
+import {
+  ChatModelFactory,
+  IChatModelConfig,
+} from "./modules/chatModels/ChatModelRegistry";
+import { createNoteAnswerTool } from "./modules/retrieval/NoteAnswerPipeline";
+import {
+  createNoteQueryTool,
+  createNoteTools,
+} from "./modules/retrieval/NoteTools";
+import logger from "./utils/Logger";
+import { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+
+export interface IDynamicRagOptions {
+  // Starts the socket server and the HTTP gateway, defaults to true. The MCP
+  // entry point serves over stdio and opens no network listeners.
+  startServers?: boolean;
+}
 
 export default class DynamicRAGBuilder extends RAG {
   protected readonly toolRegistry: ToolRegistry;
   protected readonly toolExecutor: ToolExecutor;
   protected readonly workflowManager: WorkflowManager;
-  private readonly webSocketModule: WebSocketModule;
-  private readonly webSocketHandler: WebSocketHandler;
+  protected readonly workflowDefinitionLoader: WorkflowDefinitionLoader;
+  protected readonly agentRunner: AgentRunner;
+  private webSocketModule?: WebSocketModule;
+  private webSocketHandler?: WebSocketHandler;
+  private httpGateway?: HttpGateway;
 
-  constructor() {
+  constructor({ startServers = true }: IDynamicRagOptions = {}) {
     super();
     this.toolRegistry = new ToolRegistry();
     this.toolExecutor = new ToolExecutor(this.toolRegistry);
@@ -20,15 +46,53 @@ export default class DynamicRAGBuilder extends RAG {
       this.toolRegistry,
       this.toolExecutor
     );
+    this.workflowDefinitionLoader = new WorkflowDefinitionLoader(
+      this.workflowManager
+    );
+    this.agentRunner = new AgentRunner(this.toolRegistry, this.toolExecutor);
+    if (this.noteAnswerPipeline) {
+      this.toolRegistry.registerTool(
+        createNoteAnswerTool(this.noteAnswerPipeline)
+      );
+    }
+    if (this.noteManagementPlugin) {
+      this.toolRegistry.registerTool(
+        createNoteQueryTool(this.noteManagementPlugin)
+      );
+      createNoteTools(this.noteManagementPlugin).forEach((tool) =>
+        this.toolRegistry.registerTool(tool)
+      );
+    }
+    if (startServers) this.startServers();
+  }
+
+  // Socket and HTTP clients share the credentials and the execution queue
+  private startServers() {
+    const authenticator = createAuthenticator();
+    const quotas = new ClientQuotas();
     this.webSocketModule = new WebSocketModule(
-      Number(process.env.WEB_SOCKET_PORT) || 5555
+      Number(process.env.WEB_SOCKET_PORT) || 5555,
+      authenticator
     );
     this.webSocketHandler = new WebSocketHandler(
       this.webSocketModule,
       this.workflowManager,
       this.toolExecutor,
-      this.toolRegistry
+      this.toolRegistry,
+      this.sessionManager,
+      quotas
     );
+    this.httpGateway = new HttpGateway(
+      Number(process.env.HTTP_GATEWAY_PORT) || 5556,
+      this.workflowManager,
+      this.toolExecutor,
+      this.toolRegistry,
+      authenticator,
+      quotas
+    );
+    this.httpGateway.start().catch((error) => {
+      logger.error("HTTP gateway could not be started:", error);
+    });
   }
 
   // Optional: expose registration methods for tools and data sources
@@ -36,6 +100,44 @@ export default class DynamicRAGBuilder extends RAG {
     this.toolRegistry.registerTool(tool);
   }
 
+  registerChatModelProvider(name: string, factory: ChatModelFactory) {
+    this.chatModelRegistry.registerProvider(name, factory);
+  }
+
+  // Loads the workflows directory (`WORKFLOWS_DIR`), call it once the tools are registered
+  loadWorkflowDefinitions(watch = process.env.WORKFLOWS_WATCH !== "false") {
+    const workflowIds = this.workflowDefinitionLoader.loadAll();
+    if (watch) this.workflowDefinitionLoader.watch();
+    return workflowIds;
+  }
+
+  // Serves the tools and workflows over MCP, on stdin/stdout by default
+  async startMcpServer(transport?: Transport) {
+    const mcpServer = new McpToolServer(
+      this.toolRegistry,
+      this.toolExecutor,
+      this.workflowManager
+    );
+    await mcpServer.listen(transport);
+    return mcpServer;
+  }
+
+  /**
+   * Answers the input with the registered tools, the model decides which to call.
+   * Runs on the built chat model, or on `modelConfig` merged over its config.
+   */
+  runAgent(
+    input: string,
+    options: IAgentOptions & { modelConfig?: IChatModelConfig } = {}
+  ) {
+    const { modelConfig, ...agentOptions } = options;
+    return this.agentRunner.run(
+      this.getChatModel(modelConfig),
+      input,
+      agentOptions
+    );
+  }
+
   registerDataSource(source: any) {
     this.toolRegistry.registerDataSource(source);
   }
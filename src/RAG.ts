@@ -1,6 +1,4 @@
-import { ChatOllama } from "@langchain/ollama";
-import { ChatOpenAI } from "@langchain/openai";
-
+import { BaseLanguageModelInterface } from "@langchain/core/language_models/base";
 import {
   HumanMessage,
   AIMessage,
@@ -10,22 +8,38 @@ import {
 import { StringOutputParser } from "@langchain/core/output_parsers";
 import { ChatPromptTemplate } from "@langchain/core/prompts";
 import AiTools, { ITool } from "./modules/aiTools/AiTools";
-import CassandraVectorDatabase from "./database/CassandraVectorDatabase";
+import VectorDatabase, { IVectorDatabase } from "./database/VectorDatabase";
 import NoteManagementPlugin from "./plugins/NoteManagement.plugin";
 import { CassandraClient } from "./database/CassandraClient";
 import { IterableReadableStream } from "@langchain/core/utils/stream";
 import logger from "./utils/Logger";
 import inquirer, { PromptModule } from "inquirer";
+import {
+  ChatModelRegistry,
+  IChatModelConfig,
+  mergeChatModelConfigs,
+} from "./modules/chatModels/ChatModelRegistry";
+import {
+  IChatOptions,
+  SessionManager,
+} from "./modules/sessions/SessionManager";
+import {
+  INoteAnswer,
+  INoteAnswerOptions,
+  NoteAnswerPipeline,
+} from "./modules/retrieval/NoteAnswerPipeline";
 
 export default class RAG {
   protected inquirer: PromptModule;
 
   protected aiTools: AiTools<ITool>;
   protected noteManagementPlugin: NoteManagementPlugin;
-  protected chatModel: ChatOllama | ChatOpenAI;
-  protected conversationHistory: (HumanMessage | AIMessage | SystemMessage)[];
-  protected dialogRounds: number;
-  protected vectorDatabase: CassandraVectorDatabase;
+  protected chatModel: BaseLanguageModelInterface;
+  protected chatModelConfig: IChatModelConfig;
+  protected readonly chatModelRegistry: ChatModelRegistry;
+  protected readonly sessionManager: SessionManager;
+  protected readonly noteAnswerPipeline: NoteAnswerPipeline;
+  protected vectorDatabase: IVectorDatabase;
 
   constructor() {
     console.time("RAG constructor");
@@ -35,33 +49,39 @@ export default class RAG {
         process.env["ASTRA_DB_SECURE_BUNDLE_PATH"];
 
       this.inquirer = inquirer.createPromptModule();
-      this.vectorDatabase = CassandraVectorDatabase.getInstance();
+      this.vectorDatabase = VectorDatabase.getInstance();
       this.chatModel = null;
-      this.dialogRounds = 10;
-      this.conversationHistory = [];
+      this.chatModelRegistry = new ChatModelRegistry();
+      this.sessionManager = new SessionManager((modelConfig) =>
+        this.getChatModel(modelConfig)
+      );
       this.noteManagementPlugin = new NoteManagementPlugin(this.vectorDatabase);
+      this.noteAnswerPipeline = new NoteAnswerPipeline(
+        this.noteManagementPlugin,
+        (modelConfig) => this.getChatModel(modelConfig)
+      );
     } catch (error) {
       logger.error("RAG Class:", error);
     }
     console.timeEnd("RAG constructor");
   }
 
-  async build(isOpenAI: boolean): Promise<ChatOllama | ChatOpenAI> {
+  /**
+   * Builds the default chat model.
+   * @param config - `true`/`false` keeps the legacy OpenAI/Ollama switch, otherwise a chat model config
+   * merged over the environment defaults.
+   */
+  async build(
+    config?: boolean | IChatModelConfig
+  ): Promise<BaseLanguageModelInterface> {
     console.time("Chat model build");
     try {
-      if (isOpenAI) {
-        this.chatModel = new ChatOpenAI({
-          apiKey: process.env.OPENAI_API_KEY,
-          model: process.env.DEFAULT_MODEL,
-        });
-      } else {
-        this.chatModel = new ChatOllama({
-          baseUrl: process.env.OLLAMA_HOST,
-          model: process.env.DEFAULT_MODEL,
-          numPredict: 2048,
-          numCtx: 8196,
-        });
-      }
+      const modelConfig: IChatModelConfig =
+        typeof config === "boolean"
+          ? { provider: config ? "openai" : "ollama" }
+          : config;
+      this.chatModelConfig = modelConfig;
+      this.chatModel = this.chatModelRegistry.getModel(modelConfig);
       logger.info("Chat model is built.");
     } catch (error) {
       logger.error("Chat model could not be built: ", error);
@@ -88,14 +108,21 @@ export default class RAG {
     return ChatPromptTemplate.fromMessages(messages);
   }
 
+  /**
+   * Streams the prompt through the default chat model, or through the model
+   * resolved from `modelConfig` (merged over the built config) when one is given.
+   * Aborting `signal` stops the generation and errors the stream.
+   */
   async invokePrompt(
-    prompt: ChatPromptTemplate
+    prompt: ChatPromptTemplate,
+    modelConfig?: IChatModelConfig,
+    signal?: AbortSignal
   ): Promise<IterableReadableStream<string>> {
     try {
       let result = await prompt
-        .pipe(this.chatModel)
+        .pipe(this.getChatModel(modelConfig))
         .pipe(new StringOutputParser())
-        .stream({});
+        .stream({}, { signal });
 
       return result;
     } catch (error) {
@@ -104,14 +131,46 @@ export default class RAG {
     }
   }
 
+  /**
+   * Streams the answer to `input` within the chat session `sessionId`,
+   * the session keeps the history between calls.
+   */
+  chat(
+    sessionId: string,
+    input: string,
+    options?: IChatOptions
+  ): Promise<IterableReadableStream<string>> {
+    return this.sessionManager.chat(sessionId, input, options);
+  }
+
+  /**
+   * Answers the question from the stored notes, with the notes it cites.
+   */
+  answerFromNotes(
+    question: string,
+    options?: INoteAnswerOptions
+  ): Promise<INoteAnswer> {
+    return this.noteAnswerPipeline.answer(question, options);
+  }
+
+  // The default chat model, or the one of `modelConfig` merged over its config
+  protected getChatModel(
+    modelConfig?: IChatModelConfig
+  ): BaseLanguageModelInterface {
+    return modelConfig
+      ? this.chatModelRegistry.getModel(
+          mergeChatModelConfigs(this.chatModelConfig, modelConfig)
+        )
+      : this.chatModel;
+  }
+
   protected setAiTools = (aiTools: AiTools<ITool>) => {
     this.aiTools = aiTools;
   };
 
+  // System message of every chat session
   protected setSystemMessage(message: string) {
-    if (this.conversationHistory.length < 1) {
-      this.conversationHistory.push(new SystemMessage(message));
-    }
+    this.sessionManager.setSystemMessage(message);
   }
 
   protected removeThinkTag(response: string): string {
@@ -1,16 +1,19 @@
 import { IterableReadableStream } from "@langchain/core/utils/stream";
-import DynamicRAGBuilder from "../DynamicRagBuilder";
+import DynamicRAGBuilder, { IDynamicRagOptions } from "../DynamicRagBuilder";
 import ContentAiToolHandlers from "./modules/ContentAiToolHandlers";
 import ContentAiTools from "./modules/ContentAiTools";
 
 export class ContentAI extends DynamicRAGBuilder {
   private readonly contentAiToolHandlers: ContentAiToolHandlers;
 
-  constructor() {
-    super();
+  constructor(options?: IDynamicRagOptions) {
+    super(options);
     this.contentAiToolHandlers = new ContentAiToolHandlers(this);
     this.initializeContentTools();
     this.createDefaultWorkflows();
+    // Definition files may add versions of the default workflows, redefining
+    // a registered version is refused (edits need a version bump)
+    this.loadWorkflowDefinitions();
   }
 
   private initializeContentTools() {
@@ -197,8 +200,8 @@ export class ContentAI extends DynamicRAGBuilder {
     });
   }
 
-  // Add helper method to find workflow by name
-  public getWorkflowByName(name: string) {
-    return this.toolRegistry.getWorkflowByName(name);
+  // Add helper method to find workflow by name, latest version unless pinned
+  public getWorkflowByName(name: string, version?: string) {
+    return this.toolRegistry.getWorkflowByName(name, version);
   }
 }
@@ -1,5 +1,6 @@
 import { SystemMessage } from "@langchain/core/messages";
 import { ITool } from "../../modules/aiTools/AiTools";
+import { IToolExecutionContext } from "../../modules/aiTools/ToolRegistry";
 import logger from "../../utils/Logger";
 import DynamicRAGBuilder from "../../DynamicRagBuilder";
 
@@ -18,8 +19,12 @@ export default class ContentAiToolHandlers {
   /**
    * Handles Content Idea Generation Tool
    * @param toolJson - Tool configuration and arguments.
+   * @param context - Execution context carrying the chat model to use and the abort signal.
    */
-  public async handleContentIdeaGeneratorTool(toolJson: ITool) {
+  public async handleContentIdeaGeneratorTool(
+    toolJson: ITool,
+    context?: IToolExecutionContext
+  ) {
     try {
       console.log("toolJson", toolJson);
       const topic = toolJson.toolArgs.topic;
@@ -36,7 +41,11 @@ export default class ContentAiToolHandlers {
         new SystemMessage(JSON.stringify(toolJson), { topic, keywords }),
       ]);
       console.log("generatedPrompt", generatedPrompt);
-      const response = await this.ragInstance.invokePrompt(generatedPrompt);
+      const response = await this.ragInstance.invokePrompt(
+        generatedPrompt,
+        context?.model,
+        context?.signal
+      );
       return response;
     } catch (error) {
       logger.error(`Error in handleContentIdeaGeneratorTool: ${error.message}`);
@@ -47,8 +56,12 @@ export default class ContentAiToolHandlers {
   /**
    * Handles Content Production Tool
    * @param toolJson - Tool configuration and arguments.
+   * @param context - Execution context carrying the chat model to use and the abort signal.
    */
-  public async handleContentProductionTool(toolJson: ITool) {
+  public async handleContentProductionTool(
+    toolJson: ITool,
+    context?: IToolExecutionContext
+  ) {
     try {
       console.log("toolJson", toolJson);
       const { title, keywords, meta } = toolJson.toolArgs;
@@ -70,7 +83,11 @@ export default class ContentAiToolHandlers {
       const generatedPrompt = this.ragInstance.generatePrompt([
         new SystemMessage(JSON.stringify(toolJson), toolJson.toolArgs),
       ]);
-      const response = await this.ragInstance.invokePrompt(generatedPrompt);
+      const response = await this.ragInstance.invokePrompt(
+        generatedPrompt,
+        context?.model,
+        context?.signal
+      );
 
       logger.info("Content produced successfully.");
       return response;
@@ -83,8 +100,12 @@ export default class ContentAiToolHandlers {
   /**
    * Handles Generate Meta Description Tool
    * @param toolJson - Tool configuration and arguments.
+   * @param context - Execution context carrying the chat model to use and the abort signal.
    */
-  public async handleGenerateMetaDesc(toolJson: ITool) {
+  public async handleGenerateMetaDesc(
+    toolJson: ITool,
+    context?: IToolExecutionContext
+  ) {
     try {
       console.log("toolJson", toolJson);
       const { title, keywords, content } = toolJson.toolArgs;
@@ -99,7 +120,11 @@ export default class ContentAiToolHandlers {
       const generatedPrompt = this.ragInstance.generatePrompt([
         new SystemMessage(JSON.stringify(toolJson), toolJson.toolArgs),
       ]);
-      const response = await this.ragInstance.invokePrompt(generatedPrompt);
+      const response = await this.ragInstance.invokePrompt(
+        generatedPrompt,
+        context?.model,
+        context?.signal
+      );
 
       logger.info("Content meta desc generated successfully.");
       return response;
@@ -112,8 +137,12 @@ export default class ContentAiToolHandlers {
   /**
    * Handles Content Title Improvement Tool
    * @param toolJson - Tool configuration and arguments.
+   * @param context - Execution context carrying the chat model to use and the abort signal.
    */
-  public async handleContentTitleImprovementTool(toolJson: ITool) {
+  public async handleContentTitleImprovementTool(
+    toolJson: ITool,
+    context?: IToolExecutionContext
+  ) {
     try {
       // Placeholder for future implementation
       const { content } = toolJson.toolArgs;
@@ -125,7 +154,11 @@ export default class ContentAiToolHandlers {
       const generatedPrompt = this.ragInstance.generatePrompt([
         new SystemMessage(JSON.stringify(toolJson), toolJson.toolArgs),
       ]);
-      const response = await this.ragInstance.invokePrompt(generatedPrompt);
+      const response = await this.ragInstance.invokePrompt(
+        generatedPrompt,
+        context?.model,
+        context?.signal
+      );
       logger.info("Content titles are improved.");
 
       return response;
@@ -17,7 +17,7 @@ export class CassandraCRUDOperations {
     await this.client.execute(query, values);
   }
 
-  async selectRecord(tableName: string, id: number) {
+  async selectRecord(tableName: string, id: string) {
     try {
       const query = `SELECT * FROM eva_chat.${tableName} WHERE id = ?;`;
       const result = await this.client.execute(query, [id], { prepare: true });
@@ -27,7 +27,7 @@ export class CassandraCRUDOperations {
     }
   }
 
-  async updateRecord(tableName: string, id: number, newValues: any[]) {
+  async updateRecord(tableName: string, id: string, newValues: any[]) {
     const setClauses = newValues
       .map((value, index) => `column${index + 1} = ?`)
       .join(", ");
@@ -35,7 +35,7 @@ export class CassandraCRUDOperations {
     await this.client.execute(query, [...newValues, id]);
   }
 
-  async deleteRecord(tableName: string, id: number) {
+  async deleteRecord(tableName: string, id: string) {
     const query = `DELETE FROM ${tableName} WHERE id = ?;`;
     await this.client.execute(query, [id]);
   }
@@ -1,23 +1,108 @@
-import { OllamaEmbeddings } from "@langchain/ollama";
-import { CassandraStore } from "@langchain/community/vectorstores/cassandra";
+import { EmbeddingsInterface } from "@langchain/core/embeddings";
+import { CassandraDocumentStore } from "./vectorStores/CassandraDocumentStore";
 import { CassandraCRUDOperations } from "./CassandraCRUDOperations";
 import { CassandraClient } from "./CassandraClient";
 import { DocumentOperations } from "./DocumentOperations";
 import { VectorSearch } from "./VectorSearch";
 import { Client } from "cassandra-driver";
+import {
+  createEmbeddings,
+  getEmbeddingsDimensions,
+} from "../modules/embeddings/EmbeddingsFactory";
+import { IVectorDatabase } from "./VectorDatabase";
 
-export default class CassandraVectorDatabase {
-  private static _instance: CassandraVectorDatabase;
-  public vectorStore: CassandraStore;
-  public embeddings = new OllamaEmbeddings({
-    model: process.env.DEFAULT_MODEL,
-    baseUrl: process.env.OLLAMA_HOST,
-    requestOptions: {
-      useMmap: true,
-      numThread: 4,
-      numGpu: 1,
+/**
+ * Arguments of the document store. Notes and analyzed code share the
+ * `code_documents` table, so it has the metadata columns of both, and every
+ * column filtered on has an index.
+ */
+export function getCassandraStoreConfig() {
+  return {
+    serviceProviderArgs: {
+      astra: {
+        endpoint: process.env.CASSANDRA_HOST,
+        clientId: process.env.CASSANDRA_CLIENT_ID,
+        secret: process.env.CASSANDRA_SECRET,
+        token: process.env.CASSANDRA_TOKEN,
+      },
+    },
+    keyspace: CassandraClient.keySpace,
+    dimensions: getEmbeddingsDimensions(),
+    table: "code_documents",
+    indices: [
+      { name: "source", value: "(source)" },
+      { name: "language", value: "(language)" },
+      { name: "title", value: "(title)" },
+      { name: "parentId", value: "(parentId)" },
+      { name: "chunkIndex", value: "(chunkIndex)" },
+      { name: "tags", value: "(tags)" },
+      { name: "timestamp", value: "(timestamp)" },
+      { name: "kind", value: "(kind)" },
+      { name: "folder", value: "(folder)" },
+    ],
+    // Chunk ids are `<parentId>:<chunkIndex>`
+    primaryKey: {
+      name: "id",
+      type: "text",
     },
-  });
+    metadataColumns: [
+      // Analyzed code
+      {
+        name: "source",
+        type: "text",
+      },
+      {
+        name: "language",
+        type: "text",
+      },
+      // Chunks link to their document, upserts compare the content hash
+      {
+        name: "parentId",
+        type: "text",
+      },
+      {
+        name: "chunkIndex",
+        type: "int",
+      },
+      {
+        name: "chunkStart",
+        type: "int",
+      },
+      {
+        name: "contentHash",
+        type: "text",
+      },
+      // Notes, filterable with `contains` on tags and timestamp ranges
+      {
+        name: "title",
+        type: "text",
+      },
+      {
+        name: "tags",
+        type: "set<text>",
+      },
+      {
+        name: "timestamp",
+        type: "text",
+      },
+      {
+        name: "kind",
+        type: "text",
+      },
+      {
+        name: "folder",
+        type: "text",
+      },
+    ],
+    maxConcurrency: 25,
+    // batchSize: 1,
+  };
+}
+
+export default class CassandraVectorDatabase implements IVectorDatabase {
+  private static _instance: CassandraVectorDatabase;
+  public vectorStore: CassandraDocumentStore;
+  public embeddings: EmbeddingsInterface = createEmbeddings();
 
   public crud: CassandraCRUDOperations;
   public documentOperations: DocumentOperations;
@@ -32,57 +117,10 @@ export default class CassandraVectorDatabase {
         console.log("Error while initializing Cassandra client.");
       }
 
-      const config = {
-        serviceProviderArgs: {
-          astra: {
-            endpoint: process.env.CASSANDRA_HOST,
-            clientId: process.env.CASSANDRA_CLIENT_ID,
-            secret: process.env.CASSANDRA_SECRET,
-            token: process.env.CASSANDRA_TOKEN,
-          },
-        },
-        keyspace: CassandraClient.keySpace,
-        dimensions: 4096,
-        table: "eva_notes",
-        indices: [{ name: "title", value: "(title)" }],
-        primaryKey: {
-          name: "id",
-          type: "int",
-        },
-        metadataColumns: [
-          {
-            name: "title",
-            type: "text",
-          },
-        ],
-        maxConcurrency: 25,
-        // batchSize: 1,
-      };
-
-      const codeConfig = {
-        ...config,
-        table: "code_documents",
-        indices: [
-          { name: "source", value: "(source)" },
-          { name: "language", value: "(language)" },
-        ],
-        primaryKey: {
-          name: "id",
-          type: "int",
-        },
-        metadataColumns: [
-          {
-            name: "source",
-            type: "text",
-          },
-          {
-            name: "language",
-            type: "text",
-          },
-        ],
-      };
-
-      this.vectorStore = new CassandraStore(this.embeddings, codeConfig);
+      this.vectorStore = new CassandraDocumentStore(
+        this.embeddings,
+        getCassandraStoreConfig()
+      );
       this.documentOperations = new DocumentOperations(this.vectorStore);
       this.vectorSearch = new VectorSearch(this.vectorStore);
       this.client = CassandraClient.initialize();
@@ -1,12 +1,264 @@
-import { CassandraStore } from "@langchain/community/vectorstores/cassandra";
+import { createHash } from "crypto";
+import { VectorStore } from "@langchain/core/vectorstores";
 import { Document } from "@langchain/core/documents";
+import { v4 as uuidv4 } from "uuid";
+import {
+  IIngestOptions,
+  IIngestionOptions,
+  IIngestionResult,
+  IngestionPipeline,
+  getIngestionOptions,
+} from "../modules/ingestion/IngestionPipeline";
+import {
+  IDocumentStore,
+  SearchFilter,
+  isDocumentStore,
+} from "./vectorStores/VectorStoreUtils";
+import { toFilterExpression } from "./vectorStores/FilterExpressions";
+import logger from "../utils/Logger";
+
+// --- Interfaces ---
+export interface IUpsertResult {
+  // Ids of the documents (re-)ingested
+  upserted: string[];
+  // Ids of the documents stored with the same content already
+  skipped: string[];
+}
+
+export interface IListOptions {
+  offset?: number;
+  // Documents per page, defaults to 20
+  limit?: number;
+  // Metadata key to sort by, defaults to timestamp
+  sortBy?: string;
+  order?: "asc" | "desc";
+}
+
+export interface IDocumentPage {
+  documents: Document[];
+  // Documents matching the filter across all pages
+  total: number;
+}
+
+// Metadata the ingestion adds to chunks, not part of the parent document
+const CHUNK_METADATA = [
+  "parentId",
+  "chunkIndex",
+  "chunkCount",
+  "chunkStart",
+  "loc",
+  "headings",
+];
+
+// Shorter matches between chunk ends are taken as coincidence, not overlap
+const MIN_OVERLAP = 8;
+
+/**
+ * Hash of the content and metadata of a document, ids and timestamps excluded.
+ */
+export function getContentHash(document: Document): string {
+  const { id, contentHash, timestamp, ...metadata } = document.metadata ?? {};
+  return createHash("sha256")
+    .update(document.pageContent)
+    .update(JSON.stringify(metadata))
+    .digest("hex");
+}
+
+/**
+ * Id a document is stored under: its own id, else the hash of its content so
+ * storing the same text again replaces it instead of duplicating it.
+ */
+export function getDocumentId(document: Document): string {
+  return String(
+    document.id ?? document.metadata?.id ?? getContentHash(document)
+  );
+}
 
 export class DocumentOperations {
-  private idCounter: number = 0;
-  private vectorStore: CassandraStore;
+  private vectorStore: VectorStore;
+  private ingestionPipeline: IngestionPipeline;
 
-  constructor(vectorStore: CassandraStore) {
+  constructor(
+    vectorStore: VectorStore,
+    ingestionOptions: IIngestionOptions = getIngestionOptions()
+  ) {
     this.vectorStore = vectorStore;
+    this.ingestionPipeline = new IngestionPipeline(
+      vectorStore,
+      ingestionOptions
+    );
+  }
+
+  /**
+   * Splits the documents into chunks and stores them with batched embedding calls.
+   */
+  async ingestDocuments(
+    documents: Document[],
+    options?: IIngestOptions
+  ): Promise<IIngestionResult> {
+    return this.ingestionPipeline.ingest(documents, options);
+  }
+
+  /**
+   * Ingests documents under their stable id, replacing the chunks stored for
+   * it before. Documents whose content hash did not change are skipped.
+   */
+  async upsertDocuments(
+    documents: Document[],
+    options?: IIngestOptions
+  ): Promise<IUpsertResult> {
+    const store = this.getDocumentStore();
+    const result: IUpsertResult = { upserted: [], skipped: [] };
+    const changed: Document[] = [];
+    const replaced: string[] = [];
+    for (const document of documents) {
+      const id = getDocumentId(document);
+      const contentHash = getContentHash(document);
+      const [stored] = await store.getDocuments([`${id}:0`]);
+      if (stored?.metadata?.contentHash === contentHash) {
+        result.skipped.push(id);
+        continue;
+      }
+      if (stored) replaced.push(id);
+      changed.push(
+        new Document({
+          id,
+          pageContent: document.pageContent,
+          metadata: { ...document.metadata, id, contentHash },
+        })
+      );
+      result.upserted.push(id);
+    }
+    if (changed.length) {
+      // The stored chunks are overwritten in place, so a failed ingestion
+      // keeps the document. Only chunks past its new end are left to delete.
+      const { chunkIds } = await this.ingestDocuments(changed, options);
+      for (const id of replaced) {
+        await store.delete({
+          filter: {
+            and: [
+              { field: "parentId", eq: id },
+              { field: "chunkIndex", gte: chunkIds[id].length },
+            ],
+          },
+        });
+      }
+    }
+    logger.info(
+      `Upserted ${result.upserted.length} documents, ${result.skipped.length} unchanged.`
+    );
+    return result;
+  }
+
+  /**
+   * Deletes documents by id, or those matching a metadata filter, together
+   * with their chunks. Resolves to the number of deleted entries.
+   */
+  async deleteDocuments(idsOrFilter: string[] | SearchFilter): Promise<number> {
+    const store = this.getDocumentStore();
+    const matches = Array.isArray(idsOrFilter)
+      ? await store.getDocuments(idsOrFilter.map(String))
+      : await store.findDocuments(idsOrFilter);
+    const parentIds = Array.isArray(idsOrFilter)
+      ? idsOrFilter.map(String)
+      : matches.map((match) => String(match.metadata?.parentId ?? match.id));
+    const chunks = parentIds.length
+      ? await store.findDocuments({ parentId: parentIds })
+      : [];
+    const ids = Array.from(
+      new Set([...matches, ...chunks].map((document) => String(document.id)))
+    );
+    if (ids.length) await store.delete({ ids });
+    return ids.length;
+  }
+
+  /**
+   * Replaces the metadata of a document and its chunks without splitting and
+   * embedding them again. Resolves to false when there is no such document.
+   */
+  async updateDocumentMetadata(
+    id: string,
+    metadata: Record<string, any>
+  ): Promise<boolean> {
+    const store = this.getDocumentStore();
+    const document = await this.getDocument(id);
+    if (!document) return false;
+    const contentHash = getContentHash(
+      new Document({ pageContent: document.pageContent, metadata })
+    );
+    const chunks = await store.findDocuments({ parentId: String(id) });
+    const entries = chunks.length ? chunks : [document];
+    await store.updateMetadata(
+      entries.map((entry) => String(entry.id)),
+      entries.map((entry) => ({
+        ...metadata,
+        ...Object.fromEntries(
+          CHUNK_METADATA.filter((key) => key in entry.metadata).map((key) => [
+            key,
+            entry.metadata[key],
+          ])
+        ),
+        id: String(entry.id),
+        contentHash,
+      }))
+    );
+    return true;
+  }
+
+  /**
+   * Reads a document by id, chunked documents are joined back together. The
+   * whitespace the splitter dropped between chunks is restored as a newline.
+   */
+  async getDocument(id: string): Promise<Document | undefined> {
+    const store = this.getDocumentStore();
+    const [stored] = await store.getDocuments([String(id)]);
+    if (stored) return stored as Document;
+
+    const chunks = (await store.findDocuments({ parentId: String(id) })).sort(
+      (a, b) => a.metadata.chunkIndex - b.metadata.chunkIndex
+    );
+    if (!chunks.length) return undefined;
+    const metadata = { ...chunks[0].metadata, id: String(id) };
+    CHUNK_METADATA.forEach((key) => delete metadata[key]);
+    return new Document({
+      id: String(id),
+      pageContent: joinChunks(chunks),
+      metadata,
+    });
+  }
+
+  /**
+   * Lists the chunked documents matching the filter a page at a time, sorted
+   * by a metadata key. Documents are joined back from their chunks.
+   */
+  async listDocuments(
+    filter?: SearchFilter,
+    options: IListOptions = {}
+  ): Promise<IDocumentPage> {
+    const store = this.getDocumentStore();
+    const { offset = 0, limit = 20, sortBy = "timestamp" } = options;
+    const expression = toFilterExpression(filter);
+    // Every document has exactly one first chunk
+    const firstChunks = await store.findDocuments({
+      and: [
+        { field: "chunkIndex", eq: 0 },
+        ...(expression ? [expression] : []),
+      ],
+    });
+    const direction = options.order === "asc" ? 1 : -1;
+    firstChunks.sort(
+      (a, b) =>
+        direction *
+        String(a.metadata[sortBy] ?? "").localeCompare(
+          String(b.metadata[sortBy] ?? "")
+        )
+    );
+    const documents = await Promise.all(
+      firstChunks
+        .slice(offset, offset + limit)
+        .map((chunk) => this.getDocument(chunk.metadata.parentId))
+    );
+    return { documents: documents.filter(Boolean), total: firstChunks.length };
   }
 
   async insertDocument(document: Document): Promise<Boolean> {
@@ -14,7 +266,9 @@ export class DocumentOperations {
       if (!this.vectorStore) {
         throw new Error("Database not connected for document operations.");
       }
-      this.vectorStore.addDocuments([document]);
+      await this.vectorStore.addDocuments([document], {
+        ids: [getDocumentId(document)],
+      });
       return true;
     } catch (err) {
       console.error(err);
@@ -27,7 +281,7 @@ export class DocumentOperations {
   ): Promise<Boolean> {
     try {
       const metadata = {
-        id: Math.floor(Math.random() * 1000),
+        id: String(jsonDocument.id ?? uuidv4()),
         title: jsonDocument.title,
       };
       const document = new Document({
@@ -42,12 +296,63 @@ export class DocumentOperations {
   }
 
   async insertPlainTextDocument(plainText: string): Promise<Boolean> {
-    const metadata = {
-      id: this.idCounter++, // Increment ID counter for each new document
+    const metadata: Record<string, any> = {
       title: plainText,
       timestamp: new Date().toISOString(),
     };
+    // The same text keeps its id across restarts
+    metadata.id = getContentHash(
+      new Document({ pageContent: plainText, metadata })
+    );
     const document = new Document({ pageContent: plainText, metadata });
     return await this.insertDocument(document);
   }
+
+  private getDocumentStore(): IDocumentStore {
+    if (!this.vectorStore) {
+      throw new Error("Database not connected for document operations.");
+    }
+    if (!isDocumentStore(this.vectorStore)) {
+      throw new Error(
+        `Vector store ${this.vectorStore._vectorstoreType()} can not read or delete documents`
+      );
+    }
+    return this.vectorStore;
+  }
+}
+
+// Chunks repeat the end of the previous chunk (chunk overlap), joined once
+// at the offsets the ingestion recorded
+function joinChunks(chunks: Document[]): string {
+  if (chunks.some((chunk) => typeof chunk.metadata.chunkStart !== "number")) {
+    return guessJoinChunks(chunks.map((chunk) => chunk.pageContent));
+  }
+  let text = "";
+  // End of the joined chunks in offsets of the original text
+  let end = 0;
+  for (const { pageContent, metadata } of chunks) {
+    const start: number = metadata.chunkStart;
+    if (!text) text = pageContent;
+    else if (start > end) text += `\n${pageContent}`;
+    else text += pageContent.slice(end - start);
+    end = Math.max(end, start + pageContent.length);
+  }
+  return text;
+}
+
+// Chunks stored without offsets, the overlap is taken from matching chunk ends
+function guessJoinChunks(chunks: string[]): string {
+  return chunks.reduce((text, chunk) => {
+    if (!text) return chunk;
+    for (
+      let length = Math.min(text.length, chunk.length);
+      length >= MIN_OVERLAP;
+      length--
+    ) {
+      if (text.endsWith(chunk.slice(0, length))) {
+        return text + chunk.slice(length);
+      }
+    }
+    return `${text}\n${chunk}`;
+  }, "");
 }
@@ -0,0 +1,81 @@
+import { VectorStore } from "@langchain/core/vectorstores";
+import { EmbeddingsInterface } from "@langchain/core/embeddings";
+import { DocumentOperations } from "./DocumentOperations";
+import { VectorSearch } from "./VectorSearch";
+import CassandraVectorDatabase from "./CassandraVectorDatabase";
+import { InMemoryVectorStore } from "./vectorStores/InMemoryVectorStore";
+import { SQLiteVectorStore } from "./vectorStores/SQLiteVectorStore";
+import { createEmbeddings } from "../modules/embeddings/EmbeddingsFactory";
+import logger from "../utils/Logger";
+
+// --- Interfaces ---
+export interface IVectorDatabase {
+  vectorStore: VectorStore;
+  embeddings: EmbeddingsInterface;
+  documentOperations: DocumentOperations;
+  vectorSearch: VectorSearch;
+  connect(): VectorStore;
+  close(): Promise<void>;
+}
+
+export type VectorStoreBackend = "cassandra" | "memory" | "sqlite";
+
+export function getVectorStoreBackend(): VectorStoreBackend {
+  return (
+    (process.env.VECTOR_STORE_BACKEND as VectorStoreBackend) || "cassandra"
+  );
+}
+
+/**
+ * Backend neutral vector database, selected with `VECTOR_STORE_BACKEND`.
+ * Cassandra keeps its own implementation, the local backends share this one.
+ */
+export default class VectorDatabase implements IVectorDatabase {
+  private static _instance: IVectorDatabase;
+  public vectorStore: VectorStore;
+  public embeddings: EmbeddingsInterface;
+  public documentOperations: DocumentOperations;
+  public vectorSearch: VectorSearch;
+
+  constructor(vectorStore: VectorStore) {
+    this.vectorStore = vectorStore;
+    this.embeddings = vectorStore.embeddings;
+    this.documentOperations = new DocumentOperations(this.vectorStore);
+    this.vectorSearch = new VectorSearch(this.vectorStore);
+  }
+
+  public static getInstance(): IVectorDatabase {
+    if (!this._instance) {
+      this._instance = this.create(getVectorStoreBackend());
+    }
+    return this._instance;
+  }
+
+  public static create(backend: VectorStoreBackend): IVectorDatabase {
+    logger.info(`Vector store backend is set to ${backend}.`);
+    switch (backend) {
+      case "cassandra":
+        return CassandraVectorDatabase.getInstance();
+      case "memory":
+        return new VectorDatabase(new InMemoryVectorStore(createEmbeddings()));
+      case "sqlite":
+        return new VectorDatabase(
+          new SQLiteVectorStore(createEmbeddings(), {
+            filePath:
+              process.env.SQLITE_VECTOR_STORE_PATH ||
+              "data/vector_store.sqlite",
+          })
+        );
+      default:
+        throw new Error(`Vector store backend ${backend} is not supported`);
+    }
+  }
+
+  connect() {
+    return this.vectorStore;
+  }
+
+  async close(): Promise<void> {
+    this.vectorStore = null;
+  }
+}
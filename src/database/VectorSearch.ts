@@ -1,32 +1,204 @@
-import { CassandraStore } from "@langchain/community/vectorstores/cassandra";
+import { VectorStore } from "@langchain/core/vectorstores";
+import { DocumentInterface } from "@langchain/core/documents";
+import { maximalMarginalRelevance } from "@langchain/core/utils/math";
+import { BM25Index } from "../modules/retrieval/BM25";
+import { IReranker } from "../modules/retrieval/Rerankers";
+import {
+  SearchFilter,
+  isDocumentStore,
+} from "./vectorStores/VectorStoreUtils";
+import logger from "../utils/Logger";
+
+// --- Interfaces ---
+export type SearchMode = "hybrid" | "vector" | "keyword";
+
+export interface IHybridSearchOptions {
+  topK?: number;
+  filter?: SearchFilter;
+  // Rankings used, defaults to both
+  mode?: SearchMode;
+  // Results taken from each ranking before fusing, defaults to topK * 4
+  candidates?: number;
+  // Reciprocal rank fusion constant, higher values flatten the rank weights
+  rrfK?: number;
+  // Vector results below this similarity are dropped
+  minVectorScore?: number;
+  // Keyword results below this BM25 score are dropped
+  minKeywordScore?: number;
+  // Picks diverse results with Maximal Marginal Relevance
+  mmr?: boolean;
+  // 1 ranks by relevance only, 0 by diversity only
+  mmrLambda?: number;
+  // Reorders the fused results before the topK are taken
+  reranker?: IReranker;
+  signal?: AbortSignal;
+}
+
+export interface ISearchResult {
+  document: DocumentInterface;
+  // Fused score, higher is better
+  score: number;
+  vectorScore?: number;
+  keywordScore?: number;
+}
+
+/**
+ * Fuses rankings by summing 1 / (k + rank) for every ranking a document is
+ * in. Documents are told apart by their id, else by their content.
+ */
+export function reciprocalRankFusion(
+  rankings: DocumentInterface[][],
+  k: number = 60
+): [DocumentInterface, number][] {
+  const fused = new Map<string, [DocumentInterface, number]>();
+  for (const ranking of rankings) {
+    ranking.forEach((document, rank) => {
+      const key = getDocumentKey(document);
+      const entry = fused.get(key) ?? [document, 0];
+      entry[1] += 1 / (k + rank + 1);
+      fused.set(key, entry);
+    });
+  }
+  return Array.from(fused.values()).sort((a, b) => b[1] - a[1]);
+}
+
+function getDocumentKey(document: DocumentInterface): string {
+  return String(document.id ?? document.metadata?.id ?? document.pageContent);
+}
 
 export class VectorSearch {
-  private vectorStore: CassandraStore;
+  private vectorStore: VectorStore;
 
-  constructor(vectorStore: CassandraStore) {
+  constructor(vectorStore: VectorStore) {
     this.vectorStore = vectorStore;
   }
 
   async search(
     vector: number[],
     topN: number = 10,
-    filters?: Record<string, any>
+    filters?: SearchFilter
   ) {
     
     if (!this.vectorStore) {
       throw new Error("Database not connected for vector search.");
     }
 
-    try {
-      const response = await this.vectorStore.similaritySearchVectorWithScore(
-        vector,
-        topN,
-        filters
+    // Failures such as filters the store can not evaluate reach the caller
+    return this.vectorStore.similaritySearchVectorWithScore(
+      vector,
+      topN,
+      filters
+    );
+  }
+
+  /**
+   * Combines BM25 keyword scoring with vector similarity through reciprocal
+   * rank fusion, so exact identifiers are found as well as paraphrases. The
+   * fused results can be diversified with MMR and reordered by a reranker.
+   */
+  async hybridSearch(
+    query: string,
+    options: IHybridSearchOptions = {}
+  ): Promise<ISearchResult[]> {
+    if (!this.vectorStore) {
+      throw new Error("Database not connected for vector search.");
+    }
+    const topK = options.topK ?? 10;
+    const candidates = options.candidates ?? topK * 4;
+    const mode = options.mode ?? "hybrid";
+
+    const queryVector = await this.vectorStore.embeddings.embedQuery(query);
+    const vectorHits =
+      mode === "keyword"
+        ? []
+        : (
+            await this.vectorStore.similaritySearchVectorWithScore(
+              queryVector,
+              candidates,
+              options.filter
+            )
+          ).filter(
+            ([, score]) => score >= (options.minVectorScore ?? -Infinity)
+          );
+    const keywordHits =
+      mode === "vector"
+        ? []
+        : (await this.keywordSearch(query, candidates, options.filter)).filter(
+            ([, score]) => score >= (options.minKeywordScore ?? 0)
+          );
+    options.signal?.throwIfAborted();
+
+    const vectorScores = new Map(
+      vectorHits.map(([document, score]) => [getDocumentKey(document), score])
+    );
+    const keywordScores = new Map(
+      keywordHits.map(([document, score]) => [getDocumentKey(document), score])
+    );
+    let results: ISearchResult[] = reciprocalRankFusion(
+      [
+        vectorHits.map(([document]) => document),
+        keywordHits.map(([document]) => document),
+      ],
+      options.rrfK
+    ).map(([document, score]) => ({
+      document,
+      score,
+      vectorScore: vectorScores.get(getDocumentKey(document)),
+      keywordScore: keywordScores.get(getDocumentKey(document)),
+    }));
+
+    // The reranker picks from a wider pool than it returns
+    const poolSize = options.reranker ? topK * 2 : topK;
+    results = options.mmr
+      ? await this.selectDiverse(queryVector, results, poolSize, options)
+      : results.slice(0, poolSize);
+
+    if (options.reranker && results.length > 1) {
+      const reranked = await options.reranker.rerank(
+        query,
+        results.map((result) => result.document),
+        { signal: options.signal }
+      );
+      results = reranked
+        .map((document) =>
+          results.find((result) => result.document === document)
+        )
+        .filter(Boolean);
+    }
+    return results.slice(0, topK);
+  }
+
+  // Keyword scoring needs the stored documents, which not every store can list
+  private async keywordSearch(
+    query: string,
+    topK: number,
+    filter?: SearchFilter
+  ): Promise<[DocumentInterface, number][]> {
+    if (!isDocumentStore(this.vectorStore)) {
+      logger.warn(
+        `Vector store ${this.vectorStore._vectorstoreType()} can not list documents, keyword search is skipped.`
       );
-      return response;
-    } catch (err) {
-      console.error("Error during vector search:", err);
       return [];
     }
+    const documents = await this.vectorStore.findDocuments(filter ?? {});
+    return new BM25Index(documents).search(query, topK);
+  }
+
+  private async selectDiverse(
+    queryVector: number[],
+    results: ISearchResult[],
+    size: number,
+    options: IHybridSearchOptions
+  ): Promise<ISearchResult[]> {
+    if (results.length <= 1) return results;
+    const vectors = await this.vectorStore.embeddings.embedDocuments(
+      results.map((result) => result.document.pageContent)
+    );
+    return maximalMarginalRelevance(
+      queryVector,
+      vectors,
+      options.mmrLambda ?? 0.5,
+      size
+    ).map((index) => results[index]);
   }
 }
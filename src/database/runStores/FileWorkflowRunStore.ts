@@ -0,0 +1,57 @@
+import fs from "fs";
+import path from "path";
+import {
+  IWorkflowRun,
+  IWorkflowRunFilter,
+  IWorkflowRunStore,
+  filterWorkflowRuns,
+} from "./WorkflowRunStore";
+
+/**
+ * Stores every workflow run as `<runId>.json` in a directory.
+ */
+export class FileWorkflowRunStore implements IWorkflowRunStore {
+  private readonly directory: string;
+
+  constructor(directory: string) {
+    this.directory = path.resolve(directory);
+  }
+
+  async saveRun(run: IWorkflowRun): Promise<void> {
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    // Write then rename, so readers never see a partially written run
+    const filePath = this.getFilePath(run.id);
+    await fs.promises.writeFile(
+      `${filePath}.tmp`,
+      JSON.stringify(run, null, 2)
+    );
+    await fs.promises.rename(`${filePath}.tmp`, filePath);
+  }
+
+  async getRun(runId: string): Promise<IWorkflowRun | undefined> {
+    try {
+      return JSON.parse(
+        await fs.promises.readFile(this.getFilePath(runId), "utf8")
+      );
+    } catch (error: any) {
+      if (error.code === "ENOENT") return undefined;
+      throw error;
+    }
+  }
+
+  async listRuns(filter?: IWorkflowRunFilter): Promise<IWorkflowRun[]> {
+    if (!fs.existsSync(this.directory)) return [];
+    const files = (await fs.promises.readdir(this.directory)).filter((file) =>
+      file.endsWith(".json")
+    );
+    const runs = await Promise.all(
+      files.map((file) => this.getRun(path.basename(file, ".json")))
+    );
+    return filterWorkflowRuns(runs.filter(Boolean), filter);
+  }
+
+  private getFilePath(runId: string): string {
+    // Run ids are generated uuids, anything else must not escape the directory
+    return path.join(this.directory, `${path.basename(runId)}.json`);
+  }
+}
@@ -0,0 +1,29 @@
+import {
+  IWorkflowRun,
+  IWorkflowRunFilter,
+  IWorkflowRunStore,
+  filterWorkflowRuns,
+} from "./WorkflowRunStore";
+
+/**
+ * Keeps workflow runs in process memory, meant for tests.
+ */
+export class InMemoryWorkflowRunStore implements IWorkflowRunStore {
+  private readonly runs = new Map<string, IWorkflowRun>();
+
+  async saveRun(run: IWorkflowRun): Promise<void> {
+    this.runs.set(run.id, structuredClone(run));
+  }
+
+  async getRun(runId: string): Promise<IWorkflowRun | undefined> {
+    const run = this.runs.get(runId);
+    return run && structuredClone(run);
+  }
+
+  async listRuns(filter?: IWorkflowRunFilter): Promise<IWorkflowRun[]> {
+    return filterWorkflowRuns(
+      Array.from(this.runs.values()).map((run) => structuredClone(run)),
+      filter
+    );
+  }
+}
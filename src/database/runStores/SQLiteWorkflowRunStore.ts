@@ -0,0 +1,103 @@
+import fs from "fs";
+import path from "path";
+import initSqlJs, { Database } from "sql.js";
+import logger from "../../utils/Logger";
+import {
+  IWorkflowRun,
+  IWorkflowRunFilter,
+  IWorkflowRunStore,
+} from "./WorkflowRunStore";
+
+/**
+ * Stores workflow runs in a SQLite database file (sql.js, no native build).
+ */
+export class SQLiteWorkflowRunStore implements IWorkflowRunStore {
+  private readonly filePath?: string;
+  private database: Promise<Database>;
+
+  // In-memory database when `filePath` is omitted
+  constructor(filePath?: string) {
+    this.filePath = filePath ? path.resolve(filePath) : undefined;
+  }
+
+  async saveRun(run: IWorkflowRun): Promise<void> {
+    const db = await this.getDatabase();
+    db.run(
+      "INSERT OR REPLACE INTO workflow_runs (id, workflow_id, status, started_at, run) VALUES (?, ?, ?, ?, ?);",
+      [run.id, run.workflowId, run.status, run.startedAt, JSON.stringify(run)]
+    );
+    this.persist(db);
+  }
+
+  async getRun(runId: string): Promise<IWorkflowRun | undefined> {
+    const db = await this.getDatabase();
+    const statement = db.prepare("SELECT run FROM workflow_runs WHERE id = ?;");
+    try {
+      statement.bind([runId]);
+      return statement.step()
+        ? JSON.parse(statement.getAsObject().run as string)
+        : undefined;
+    } finally {
+      statement.free();
+    }
+  }
+
+  async listRuns(filter: IWorkflowRunFilter = {}): Promise<IWorkflowRun[]> {
+    const db = await this.getDatabase();
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+    if (filter.workflowId) {
+      conditions.push("workflow_id = ?");
+      params.push(filter.workflowId);
+    }
+    if (filter.status) {
+      conditions.push("status = ?");
+      params.push(filter.status);
+    }
+    const where = conditions.length ? `WHERE ${conditions.join(" AND ")}` : "";
+    const limit = filter.limit ? `LIMIT ${Number(filter.limit)}` : "";
+
+    const statement = db.prepare(
+      `SELECT run FROM workflow_runs ${where} ORDER BY started_at DESC ${limit};`
+    );
+    const runs: IWorkflowRun[] = [];
+    try {
+      statement.bind(params);
+      while (statement.step()) {
+        runs.push(JSON.parse(statement.getAsObject().run as string));
+      }
+    } finally {
+      statement.free();
+    }
+    return runs;
+  }
+
+  private getDatabase(): Promise<Database> {
+    if (!this.database) {
+      this.database = this.openDatabase();
+    }
+    return this.database;
+  }
+
+  private async openDatabase(): Promise<Database> {
+    const SQL = await initSqlJs();
+    const db =
+      this.filePath && fs.existsSync(this.filePath)
+        ? new SQL.Database(fs.readFileSync(this.filePath))
+        : new SQL.Database();
+
+    db.run(
+      "CREATE TABLE IF NOT EXISTS workflow_runs (id TEXT PRIMARY KEY, workflow_id TEXT NOT NULL, status TEXT NOT NULL, started_at TEXT NOT NULL, run TEXT NOT NULL);"
+    );
+    logger.info(
+      `SQLite workflow run store is opened (${this.filePath ?? "in-memory"}).`
+    );
+    return db;
+  }
+
+  private persist(db: Database) {
+    if (!this.filePath) return;
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(this.filePath, Buffer.from(db.export()));
+  }
+}
@@ -0,0 +1,76 @@
+// --- Interfaces ---
+export type WorkflowRunStatus =
+  "running" | "completed" | "failed" | "cancelled";
+
+export type WorkflowStepRunStatus =
+  "running" | "completed" | "skipped" | "pruned" | "failed" | "cancelled";
+
+export interface IWorkflowStepState {
+  input: Record<string, any>;
+  output: any;
+  // skipped: `when` was false, the step passes its input through
+  // pruned: not selected by a switch, dependents only run if another dependency ran
+  status: "completed" | "skipped" | "pruned";
+}
+
+export interface IWorkflowStepRun {
+  id: string;
+  index: number;
+  toolName?: string;
+  status: WorkflowStepRunStatus;
+  // Mapped input, output and item errors of the step (its execution context entry)
+  context?: any;
+  // State handed to dependent steps, reused when the run is resumed
+  state?: IWorkflowStepState;
+  error?: string;
+  startedAt: string;
+  finishedAt?: string;
+  durationMs?: number;
+}
+
+export interface IWorkflowRun {
+  id: string;
+  workflowId: string;
+  workflowName: string;
+  // Runs keep the version they started with, newer versions do not affect them
+  workflowVersion: string;
+  status: WorkflowRunStatus;
+  input: any;
+  output?: any;
+  error?: string;
+  // Id of the step which failed the run
+  failedStep?: string;
+  // Steps not selected by switch steps so far
+  prunedSteps: string[];
+  steps: Record<string, IWorkflowStepRun>;
+  startedAt: string;
+  finishedAt?: string;
+  resumeCount: number;
+}
+
+export interface IWorkflowRunFilter {
+  workflowId?: string;
+  status?: WorkflowRunStatus;
+  limit?: number;
+}
+
+export interface IWorkflowRunStore {
+  saveRun(run: IWorkflowRun): Promise<void>;
+  getRun(runId: string): Promise<IWorkflowRun | undefined>;
+  // Newest runs first
+  listRuns(filter?: IWorkflowRunFilter): Promise<IWorkflowRun[]>;
+}
+
+export function filterWorkflowRuns(
+  runs: IWorkflowRun[],
+  filter: IWorkflowRunFilter = {}
+): IWorkflowRun[] {
+  const filtered = runs
+    .filter(
+      (run) =>
+        (!filter.workflowId || run.workflowId === filter.workflowId) &&
+        (!filter.status || run.status === filter.status)
+    )
+    .sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+  return filter.limit ? filtered.slice(0, filter.limit) : filtered;
+}
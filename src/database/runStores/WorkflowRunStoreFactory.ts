@@ -0,0 +1,29 @@
+import { IWorkflowRunStore } from "./WorkflowRunStore";
+import { InMemoryWorkflowRunStore } from "./InMemoryWorkflowRunStore";
+import { FileWorkflowRunStore } from "./FileWorkflowRunStore";
+import { SQLiteWorkflowRunStore } from "./SQLiteWorkflowRunStore";
+
+export type WorkflowRunStoreBackend = "file" | "sqlite" | "memory";
+
+/**
+ * Creates the store workflow runs are persisted to.
+ * Falls back to `WORKFLOW_RUN_STORE` / `WORKFLOW_RUN_STORE_PATH`, then to JSON files.
+ */
+export function createWorkflowRunStore(
+  backend: WorkflowRunStoreBackend = (process.env
+    .WORKFLOW_RUN_STORE as WorkflowRunStoreBackend) || "file",
+  storePath: string = process.env.WORKFLOW_RUN_STORE_PATH
+): IWorkflowRunStore {
+  switch (backend) {
+    case "file":
+      return new FileWorkflowRunStore(storePath || "data/workflow_runs");
+    case "sqlite":
+      return new SQLiteWorkflowRunStore(
+        storePath || "data/workflow_runs.sqlite"
+      );
+    case "memory":
+      return new InMemoryWorkflowRunStore();
+    default:
+      throw new Error(`Workflow run store ${backend} is not supported`);
+  }
+}
@@ -0,0 +1,48 @@
+import fs from "fs";
+import path from "path";
+import { IChatSession, ISessionStore } from "./SessionStore";
+
+/**
+ * Stores every chat session as `<sessionId>.json` in a directory.
+ */
+export class FileSessionStore implements ISessionStore {
+  private readonly directory: string;
+
+  constructor(directory: string) {
+    this.directory = path.resolve(directory);
+  }
+
+  async saveSession(session: IChatSession): Promise<void> {
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    // Write then rename, so readers never see a partially written session
+    const filePath = this.getFilePath(session.id);
+    await fs.promises.writeFile(
+      `${filePath}.tmp`,
+      JSON.stringify(session, null, 2)
+    );
+    await fs.promises.rename(`${filePath}.tmp`, filePath);
+  }
+
+  async getSession(sessionId: string): Promise<IChatSession | undefined> {
+    try {
+      return JSON.parse(
+        await fs.promises.readFile(this.getFilePath(sessionId), "utf8")
+      );
+    } catch (error: any) {
+      if (error.code === "ENOENT") return undefined;
+      throw error;
+    }
+  }
+
+  async deleteSession(sessionId: string): Promise<void> {
+    await fs.promises.rm(this.getFilePath(sessionId), { force: true });
+  }
+
+  private getFilePath(sessionId: string): string {
+    // Session ids come from clients, they must not escape the directory
+    return path.join(
+      this.directory,
+      `${encodeURIComponent(path.basename(sessionId))}.json`
+    );
+  }
+}
@@ -0,0 +1,21 @@
+import { IChatSession, ISessionStore } from "./SessionStore";
+
+/**
+ * Keeps chat sessions in process memory, they are lost on restart.
+ */
+export class InMemorySessionStore implements ISessionStore {
+  private readonly sessions = new Map<string, IChatSession>();
+
+  async saveSession(session: IChatSession): Promise<void> {
+    this.sessions.set(session.id, structuredClone(session));
+  }
+
+  async getSession(sessionId: string): Promise<IChatSession | undefined> {
+    const session = this.sessions.get(sessionId);
+    return session && structuredClone(session);
+  }
+
+  async deleteSession(sessionId: string): Promise<void> {
+    this.sessions.delete(sessionId);
+  }
+}
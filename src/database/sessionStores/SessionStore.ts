@@ -0,0 +1,25 @@
+// --- Interfaces ---
+export interface IChatSessionMessage {
+  role: "human" | "ai";
+  content: string;
+  createdAt: string;
+}
+
+export interface IChatSession {
+  id: string;
+  // Identity the session belongs to, other identities can not use it
+  ownerId?: string;
+  // Every turn of the conversation, oldest first
+  messages: IChatSessionMessage[];
+  // Summary of the first `summarizedCount` messages
+  summary?: string;
+  summarizedCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ISessionStore {
+  saveSession(session: IChatSession): Promise<void>;
+  getSession(sessionId: string): Promise<IChatSession | undefined>;
+  deleteSession(sessionId: string): Promise<void>;
+}
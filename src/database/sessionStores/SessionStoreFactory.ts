@@ -0,0 +1,24 @@
+import { ISessionStore } from "./SessionStore";
+import { InMemorySessionStore } from "./InMemorySessionStore";
+import { FileSessionStore } from "./FileSessionStore";
+
+export type SessionStoreBackend = "file" | "memory";
+
+/**
+ * Creates the store chat sessions are persisted to.
+ * Falls back to `SESSION_STORE` / `SESSION_STORE_PATH`, then to JSON files.
+ */
+export function createSessionStore(
+  backend: SessionStoreBackend = (process.env
+    .SESSION_STORE as SessionStoreBackend) || "file",
+  storePath: string = process.env.SESSION_STORE_PATH
+): ISessionStore {
+  switch (backend) {
+    case "file":
+      return new FileSessionStore(storePath || "data/sessions");
+    case "memory":
+      return new InMemorySessionStore();
+    default:
+      throw new Error(`Session store ${backend} is not supported`);
+  }
+}
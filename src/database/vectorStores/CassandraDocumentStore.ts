@@ -0,0 +1,178 @@
+import {
+  CassandraLibArgs,
+  CassandraStore,
+  Column,
+  Filter,
+} from "@langchain/community/vectorstores/cassandra";
+import { EmbeddingsInterface } from "@langchain/core/embeddings";
+import { Document, DocumentInterface } from "@langchain/core/documents";
+import { IDocumentStore, SearchFilter } from "./VectorStoreUtils";
+import {
+  FilterExpression,
+  RANGE_OPERATORS,
+  toFilterExpression,
+} from "./FilterExpressions";
+
+// Defaults of CassandraStore
+const TEXT_COLUMN = "text";
+const VECTOR_COLUMN = "vector";
+const ID_COLUMN = "id";
+
+/**
+ * Cassandra store which can also read and delete stored rows. Rows are found
+ * by their metadata columns, so filtered columns need an index.
+ */
+export class CassandraDocumentStore
+  extends CassandraStore
+  implements IDocumentStore
+{
+  private readonly columnNames: string[];
+
+  constructor(embeddings: EmbeddingsInterface, args: CassandraLibArgs) {
+    super(embeddings, args);
+    const columns = [args.primaryKey, args.metadataColumns]
+      .flat()
+      .filter(Boolean) as Column[];
+    this.columnNames = Array.from(
+      new Set(columns.map((column) => column.name))
+    );
+  }
+
+  /**
+   * Stores the rows like CassandraStore, but keeps metadata values such as
+   * `chunkIndex` 0 or `false`, which it stores as null.
+   */
+  async addVectors(
+    vectors: number[][],
+    documents: DocumentInterface[]
+  ): Promise<void> {
+    if (!vectors.length) return;
+    const values = vectors.map((vector, index) => {
+      const { metadata = {}, pageContent } = documents[index];
+      return [
+        ...this.columnNames.map((name) => metadata[name] ?? null),
+        pageContent,
+        new Float32Array(vector),
+      ];
+    });
+    const columns: Column[] = [
+      ...this.columnNames,
+      TEXT_COLUMN,
+      VECTOR_COLUMN,
+    ].map((name) => ({ name, type: "" }));
+    await this.getCassandraTable().upsert(values, columns);
+  }
+
+  // Rows are upserted without their text and vector columns, which stay
+  async updateMetadata(
+    ids: string[],
+    metadata: Record<string, any>[]
+  ): Promise<void> {
+    if (!ids.length) return;
+    const values = ids.map((id, index) =>
+      this.columnNames.map((name) =>
+        name === ID_COLUMN ? String(id) : (metadata[index][name] ?? null)
+      )
+    );
+    await this.getCassandraTable().upsert(
+      values,
+      this.columnNames.map((name) => ({ name, type: "" }))
+    );
+  }
+
+  async getDocuments(ids: string[]): Promise<DocumentInterface[]> {
+    if (!ids.length) return [];
+    const documents = await this.select({ [ID_COLUMN]: ids.map(String) });
+    return ids
+      .map((id) => documents.find((document) => document.id === String(id)))
+      .filter(Boolean);
+  }
+
+  async findDocuments(filter: SearchFilter): Promise<DocumentInterface[]> {
+    return this.select(filter);
+  }
+
+  async similaritySearchVectorWithScore(
+    query: number[],
+    k: number,
+    filter?: SearchFilter
+  ): Promise<[DocumentInterface, number][]> {
+    return super.similaritySearchVectorWithScore(query, k, toFilters(filter));
+  }
+
+  async delete(params?: {
+    ids?: string[];
+    filter?: SearchFilter;
+  }): Promise<void> {
+    const ids = (params?.ids ?? []).map(String);
+    // Rows can only be deleted by their primary key
+    if (params?.filter) {
+      const documents = await this.findDocuments(params.filter);
+      ids.push(...documents.map((document) => document.id));
+    }
+    if (!ids.length) return;
+    await this.getCassandraTable().delete(toFilters({ [ID_COLUMN]: ids }));
+  }
+
+  private async select(filter: SearchFilter): Promise<DocumentInterface[]> {
+    const columns: Column[] = [...this.columnNames, TEXT_COLUMN].map(
+      (name) => ({ name, type: "" })
+    );
+    const result = await this.getCassandraTable().select(
+      columns,
+      toFilters(filter),
+      undefined,
+      undefined,
+      true
+    );
+    return (result?.rows ?? []).map((row) => {
+      const metadata: Record<string, any> = {};
+      for (const name of this.columnNames) {
+        // Unquoted column names come back lower cased
+        const value = row[name] ?? row[name.toLowerCase()];
+        if (value !== null && value !== undefined) metadata[name] = value;
+      }
+      return new Document({
+        id: String(metadata[ID_COLUMN]),
+        pageContent: row[TEXT_COLUMN],
+        metadata,
+      });
+    });
+  }
+}
+
+const CQL_OPERATORS = { gt: ">", gte: ">=", lt: "<", lte: "<=" };
+
+/**
+ * Translates a filter into CQL conditions. CQL has no `or` or `not`, and the
+ * filtered columns need an index (or a secondary index on `tags` values).
+ */
+function toFilters(filter?: SearchFilter): Filter[] {
+  const expression = toFilterExpression(filter);
+  return expression ? toConditions(expression) : [];
+}
+
+function toConditions(expression: FilterExpression): Filter[] {
+  if ("and" in expression) return expression.and.flatMap(toConditions);
+  if ("or" in expression || "not" in expression) {
+    throw new Error("Cassandra filters do not support or and not");
+  }
+  const { field } = expression;
+  if ("eq" in expression) {
+    return [{ name: field, value: expression.eq, operator: "=" }];
+  }
+  if ("in" in expression) {
+    return [{ name: field, value: expression.in, operator: "IN" }];
+  }
+  if ("contains" in expression) {
+    return [{ name: field, value: expression.contains, operator: "CONTAINS" }];
+  }
+  const range = expression as Record<string, string | number>;
+  return RANGE_OPERATORS.filter(
+    (operator) => range[operator] !== undefined
+  ).map((operator) => ({
+    name: field,
+    value: range[operator],
+    operator: CQL_OPERATORS[operator],
+  }));
+}
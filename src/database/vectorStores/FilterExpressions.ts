@@ -0,0 +1,174 @@
+import Ajv from "ajv";
+import filterSchema from "../../schemas/metadataFilter.schema.json";
+
+// --- Interfaces ---
+export type FilterValue = string | number | boolean;
+
+export type RangeOperator = "gt" | "gte" | "lt" | "lte";
+
+export type FilterExpression =
+  | { and: FilterExpression[] }
+  | { or: FilterExpression[] }
+  | { not: FilterExpression }
+  | { field: string; eq: FilterValue }
+  | { field: string; in: FilterValue[] }
+  | ({ field: string } & { [operator in RangeOperator]?: string | number })
+  | { field: string; contains: FilterValue };
+
+export const RANGE_OPERATORS: RangeOperator[] = ["gt", "gte", "lt", "lte"];
+
+const ajv = new Ajv({ allowUnionTypes: true });
+const validateSchema = ajv.compile(filterSchema);
+
+const RELATIVE_TIME = /^now(?:([+-])(\d+)([smhdw]))?$/;
+const TIME_UNITS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Validates a filter against `src/schemas/metadataFilter.schema.json` and
+ * resolves relative range bounds (`now-7d`) to ISO dates.
+ */
+export function parseFilterExpression(
+  input: unknown,
+  now: Date = new Date()
+): FilterExpression {
+  if (!validateSchema(input)) {
+    throw new Error(
+      `Invalid metadata filter: ${ajv.errorsText(validateSchema.errors, {
+        dataVar: "filter",
+      })}`
+    );
+  }
+  return resolveRelativeTimes(input as FilterExpression, now);
+}
+
+function resolveRelativeTimes(
+  expression: FilterExpression,
+  now: Date
+): FilterExpression {
+  if ("and" in expression) {
+    return {
+      and: expression.and.map((item) => resolveRelativeTimes(item, now)),
+    };
+  }
+  if ("or" in expression) {
+    return { or: expression.or.map((item) => resolveRelativeTimes(item, now)) };
+  }
+  if ("not" in expression) {
+    return { not: resolveRelativeTimes(expression.not, now) };
+  }
+  const resolved: Record<string, any> = { ...expression };
+  for (const operator of RANGE_OPERATORS) {
+    const match =
+      typeof resolved[operator] === "string" &&
+      resolved[operator].match(RELATIVE_TIME);
+    if (!match) continue;
+    const offset = match[2]
+      ? Number(match[2]) * TIME_UNITS[match[3]] * (match[1] === "-" ? -1 : 1)
+      : 0;
+    resolved[operator] = new Date(now.getTime() + offset).toISOString();
+  }
+  return resolved as FilterExpression;
+}
+
+export function isFilterExpression(
+  filter: unknown
+): filter is FilterExpression {
+  if (!filter || typeof filter !== "object" || Array.isArray(filter)) {
+    return false;
+  }
+  return (
+    "and" in filter || "or" in filter || "not" in filter || "field" in filter
+  );
+}
+
+/**
+ * Turns the `{ key: value }` shorthand (array values match any of them) into
+ * an expression, expressions are returned as they are. Empty filters match
+ * everything and become `undefined`.
+ */
+export function toFilterExpression(
+  filter?: Record<string, any> | FilterExpression
+): FilterExpression | undefined {
+  if (!filter) return undefined;
+  if (isFilterExpression(filter)) return filter;
+  const conditions: FilterExpression[] = Object.entries(filter).map(
+    ([field, value]) =>
+      Array.isArray(value) ? { field, in: value } : { field, eq: value }
+  );
+  if (!conditions.length) return undefined;
+  return conditions.length === 1 ? conditions[0] : { and: conditions };
+}
+
+/**
+ * Evaluates an expression against the metadata of a document, used by the
+ * stores which filter in process.
+ */
+export function matchesFilterExpression(
+  metadata: Record<string, any>,
+  expression?: FilterExpression
+): boolean {
+  if (!expression) return true;
+  if ("and" in expression) {
+    return expression.and.every((item) =>
+      matchesFilterExpression(metadata, item)
+    );
+  }
+  if ("or" in expression) {
+    return expression.or.some((item) =>
+      matchesFilterExpression(metadata, item)
+    );
+  }
+  if ("not" in expression) {
+    return !matchesFilterExpression(metadata, expression.not);
+  }
+  const value = normalizeValue(metadata?.[expression.field]);
+  if ("eq" in expression) return value === expression.eq;
+  if ("in" in expression) return expression.in.includes(value);
+  if ("contains" in expression) {
+    if (Array.isArray(value)) return value.includes(expression.contains);
+    return (
+      typeof value === "string" && value.includes(String(expression.contains))
+    );
+  }
+  if (value === undefined || value === null) return false;
+  const range = expression as Record<RangeOperator, string | number>;
+  return RANGE_OPERATORS.every((operator) => {
+    if (range[operator] === undefined) return true;
+    const comparison = compareValues(value, range[operator]);
+    switch (operator) {
+      case "gt":
+        return comparison > 0;
+      case "gte":
+        return comparison >= 0;
+      case "lt":
+        return comparison < 0;
+      case "lte":
+        return comparison <= 0;
+    }
+  });
+}
+
+function normalizeValue(value: any): any {
+  return value instanceof Date ? value.toISOString() : value;
+}
+
+// Numbers compare by value, ISO dates by time, anything else as text
+function compareValues(a: any, b: any): number {
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  if (isISODate(a) && isISODate(b)) return Date.parse(a) - Date.parse(b);
+  return String(a).localeCompare(String(b));
+}
+
+function isISODate(value: any): boolean {
+  return (
+    typeof value === "string" &&
+    /^\d{4}-\d{2}-\d{2}/.test(value) &&
+    !Number.isNaN(Date.parse(value))
+  );
+}
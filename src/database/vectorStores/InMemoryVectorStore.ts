@@ -0,0 +1,131 @@
+import { VectorStore } from "@langchain/core/vectorstores";
+import { EmbeddingsInterface } from "@langchain/core/embeddings";
+import { Document, DocumentInterface } from "@langchain/core/documents";
+import { v4 as uuidv4 } from "uuid";
+import {
+  IDocumentStore,
+  SearchFilter,
+  cosineSimilarity,
+  matchesMetadataFilter,
+} from "./VectorStoreUtils";
+
+interface IStoredVector {
+  id: string;
+  content: string;
+  metadata: Record<string, any>;
+  embedding: number[];
+}
+
+/**
+ * Vector store keeping every vector in process memory.
+ * Meant for local development and tests, nothing survives a restart.
+ */
+export class InMemoryVectorStore extends VectorStore implements IDocumentStore {
+  declare FilterType: SearchFilter;
+  private readonly vectors = new Map<string, IStoredVector>();
+
+  constructor(embeddings: EmbeddingsInterface) {
+    super(embeddings, {});
+  }
+
+  _vectorstoreType(): string {
+    return "memory";
+  }
+
+  async addDocuments(
+    documents: DocumentInterface[],
+    options?: { ids?: string[] }
+  ): Promise<string[]> {
+    const vectors = await this.embeddings.embedDocuments(
+      documents.map((document) => document.pageContent)
+    );
+    return this.addVectors(vectors, documents, options);
+  }
+
+  async addVectors(
+    vectors: number[][],
+    documents: DocumentInterface[],
+    options?: { ids?: string[] }
+  ): Promise<string[]> {
+    const ids = documents.map(
+      (document, index) =>
+        options?.ids?.[index] ??
+        document.id ??
+        document.metadata?.id ??
+        uuidv4()
+    );
+    documents.forEach((document, index) => {
+      const id = String(ids[index]);
+      this.vectors.set(id, {
+        id,
+        content: document.pageContent,
+        metadata: document.metadata ?? {},
+        embedding: vectors[index],
+      });
+    });
+    return ids.map(String);
+  }
+
+  async similaritySearchVectorWithScore(
+    query: number[],
+    k: number,
+    filter?: this["FilterType"]
+  ): Promise<[DocumentInterface, number][]> {
+    return Array.from(this.vectors.values())
+      .filter((vector) => matchesMetadataFilter(vector.metadata, filter))
+      .map(
+        (vector) =>
+          [toDocument(vector), cosineSimilarity(query, vector.embedding)] as [
+            DocumentInterface,
+            number,
+          ]
+      )
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, k);
+  }
+
+  async getDocuments(ids: string[]): Promise<DocumentInterface[]> {
+    return ids
+      .map((id) => this.vectors.get(String(id)))
+      .filter(Boolean)
+      .map(toDocument);
+  }
+
+  async findDocuments(filter: SearchFilter): Promise<DocumentInterface[]> {
+    return Array.from(this.vectors.values())
+      .filter((vector) => matchesMetadataFilter(vector.metadata, filter))
+      .map(toDocument);
+  }
+
+  async updateMetadata(
+    ids: string[],
+    metadata: Record<string, any>[]
+  ): Promise<void> {
+    ids.forEach((id, index) => {
+      const vector = this.vectors.get(String(id));
+      if (vector) vector.metadata = metadata[index];
+    });
+  }
+
+  async delete(params?: {
+    ids?: string[];
+    filter?: SearchFilter;
+  }): Promise<void> {
+    for (const id of params?.ids ?? []) {
+      this.vectors.delete(String(id));
+    }
+    if (params?.filter) {
+      for (const document of await this.findDocuments(params.filter)) {
+        this.vectors.delete(document.id);
+      }
+    }
+  }
+}
+
+function toDocument(vector: IStoredVector): DocumentInterface {
+  return new Document({
+    id: vector.id,
+    pageContent: vector.content,
+    metadata: vector.metadata,
+  });
+}
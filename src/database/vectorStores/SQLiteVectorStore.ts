@@ -0,0 +1,320 @@
+import fs from "fs";
+import path from "path";
+import initSqlJs, { Database } from "sql.js";
+import { VectorStore } from "@langchain/core/vectorstores";
+import { EmbeddingsInterface } from "@langchain/core/embeddings";
+import { Document, DocumentInterface } from "@langchain/core/documents";
+import { v4 as uuidv4 } from "uuid";
+import logger from "../../utils/Logger";
+import {
+  IDocumentStore,
+  SearchFilter,
+  cosineSimilarity,
+} from "./VectorStoreUtils";
+import {
+  FilterExpression,
+  FilterValue,
+  RANGE_OPERATORS,
+  toFilterExpression,
+} from "./FilterExpressions";
+
+export interface SQLiteVectorStoreArgs {
+  // Database file, created on first write. In-memory database when omitted.
+  filePath?: string;
+  table?: string;
+}
+
+/**
+ * Vector store persisted in a SQLite database file (sql.js, no native build).
+ * Similarity is computed in process, which is fine for local sized collections.
+ * Writes resolve once the file is replaced, writes made while it is written
+ * are saved together by the next export.
+ */
+export class SQLiteVectorStore extends VectorStore implements IDocumentStore {
+  declare FilterType: SearchFilter;
+  private readonly filePath?: string;
+  private readonly table: string;
+  private database: Promise<Database>;
+  // Latest save, and the one waiting for it which later writes join
+  private lastSave?: Promise<void>;
+  private queuedSave?: Promise<void>;
+
+  constructor(embeddings: EmbeddingsInterface, args: SQLiteVectorStoreArgs) {
+    super(embeddings, args);
+    this.filePath = args.filePath ? path.resolve(args.filePath) : undefined;
+    this.table = args.table ?? "documents";
+  }
+
+  _vectorstoreType(): string {
+    return "sqlite";
+  }
+
+  async addDocuments(
+    documents: DocumentInterface[],
+    options?: { ids?: string[] }
+  ): Promise<string[]> {
+    const vectors = await this.embeddings.embedDocuments(
+      documents.map((document) => document.pageContent)
+    );
+    return this.addVectors(vectors, documents, options);
+  }
+
+  async addVectors(
+    vectors: number[][],
+    documents: DocumentInterface[],
+    options?: { ids?: string[] }
+  ): Promise<string[]> {
+    const db = await this.getDatabase();
+    const ids = documents.map((document, index) =>
+      String(
+        options?.ids?.[index] ??
+          document.id ??
+          document.metadata?.id ??
+          uuidv4()
+      )
+    );
+
+    const statement = db.prepare(
+      `INSERT OR REPLACE INTO ${this.table} (id, content, metadata, embedding) VALUES (?, ?, ?, ?);`
+    );
+    try {
+      documents.forEach((document, index) => {
+        statement.run([
+          ids[index],
+          document.pageContent,
+          JSON.stringify(document.metadata ?? {}),
+          new Uint8Array(new Float32Array(vectors[index]).buffer),
+        ]);
+      });
+    } finally {
+      statement.free();
+    }
+
+    await this.persist(db);
+    return ids;
+  }
+
+  async similaritySearchVectorWithScore(
+    query: number[],
+    k: number,
+    filter?: this["FilterType"]
+  ): Promise<[DocumentInterface, number][]> {
+    const results: [DocumentInterface, number][] = [];
+    await this.scan(filter, (document, embedding) => {
+      results.push([document, cosineSimilarity(query, embedding)]);
+    });
+    return results.sort((a, b) => b[1] - a[1]).slice(0, k);
+  }
+
+  async getDocuments(ids: string[]): Promise<DocumentInterface[]> {
+    if (!ids.length) return [];
+    const db = await this.getDatabase();
+    const statement = db.prepare(
+      `SELECT id, content, metadata FROM ${this.table} WHERE id IN (${ids
+        .map(() => "?")
+        .join(", ")});`
+    );
+    const documents: DocumentInterface[] = [];
+    try {
+      statement.bind(ids.map(String));
+      while (statement.step()) {
+        documents.push(toDocument(statement.getAsObject()));
+      }
+    } finally {
+      statement.free();
+    }
+    // Keep the order of the requested ids
+    return ids
+      .map((id) => documents.find((document) => document.id === String(id)))
+      .filter(Boolean);
+  }
+
+  async findDocuments(filter: SearchFilter): Promise<DocumentInterface[]> {
+    const documents: DocumentInterface[] = [];
+    await this.scan(filter, (document) => documents.push(document));
+    return documents;
+  }
+
+  async updateMetadata(
+    ids: string[],
+    metadata: Record<string, any>[]
+  ): Promise<void> {
+    if (!ids.length) return;
+    const db = await this.getDatabase();
+    const statement = db.prepare(
+      `UPDATE ${this.table} SET metadata = ? WHERE id = ?;`
+    );
+    try {
+      ids.forEach((id, index) => {
+        statement.run([JSON.stringify(metadata[index]), String(id)]);
+      });
+    } finally {
+      statement.free();
+    }
+    await this.persist(db);
+  }
+
+  async delete(params?: {
+    ids?: string[];
+    filter?: SearchFilter;
+  }): Promise<void> {
+    const ids = (params?.ids ?? []).map(String);
+    if (params?.filter) {
+      const documents = await this.findDocuments(params.filter);
+      ids.push(...documents.map((document) => document.id));
+    }
+    if (!ids.length) return;
+    const db = await this.getDatabase();
+    const placeholders = ids.map(() => "?").join(", ");
+    db.run(`DELETE FROM ${this.table} WHERE id IN (${placeholders});`, ids);
+    await this.persist(db);
+  }
+
+  // Filters select the rows in SQL, similarity is computed in process
+  private async scan(
+    filter: SearchFilter | undefined,
+    visit: (document: DocumentInterface, embedding: number[]) => void
+  ) {
+    const db = await this.getDatabase();
+    const expression = toFilterExpression(filter);
+    const condition = expression
+      ? toSqlCondition(expression)
+      : { sql: "1", params: [] };
+    const statement = db.prepare(
+      `SELECT id, content, metadata, embedding FROM ${this.table} WHERE ${condition.sql};`
+    );
+    try {
+      statement.bind(condition.params);
+      while (statement.step()) {
+        const row = statement.getAsObject();
+        const document = toDocument(row);
+
+        const blob = row.embedding as Uint8Array;
+        visit(
+          document,
+          Array.from(new Float32Array(new Uint8Array(blob).buffer))
+        );
+      }
+    } finally {
+      statement.free();
+    }
+  }
+
+  private getDatabase(): Promise<Database> {
+    if (!this.database) {
+      this.database = this.openDatabase();
+    }
+    return this.database;
+  }
+
+  private async openDatabase(): Promise<Database> {
+    const SQL = await initSqlJs();
+    const db =
+      this.filePath && fs.existsSync(this.filePath)
+        ? new SQL.Database(fs.readFileSync(this.filePath))
+        : new SQL.Database();
+
+    db.run(
+      `CREATE TABLE IF NOT EXISTS ${this.table} (id TEXT PRIMARY KEY, content TEXT NOT NULL, metadata TEXT NOT NULL, embedding BLOB NOT NULL);`
+    );
+    logger.info(
+      `SQLite vector store is opened (${this.filePath ?? "in-memory"}).`
+    );
+    return db;
+  }
+
+  private persist(db: Database): Promise<void> {
+    if (!this.filePath) return Promise.resolve();
+    if (!this.queuedSave) {
+      this.queuedSave = (this.lastSave ?? Promise.resolve())
+        .catch(() => undefined)
+        .then(() => {
+          this.queuedSave = undefined;
+          return this.save(db);
+        });
+      this.lastSave = this.queuedSave;
+    }
+    return this.queuedSave;
+  }
+
+  private async save(db: Database) {
+    // Exported before the first await, so it holds every joined write
+    const data = Buffer.from(db.export());
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    // Write then rename, so a crash never leaves a partially written file
+    await fs.promises.writeFile(`${this.filePath}.tmp`, data);
+    await fs.promises.rename(`${this.filePath}.tmp`, this.filePath);
+  }
+}
+
+function toDocument(row: Record<string, any>): DocumentInterface {
+  return new Document({
+    id: row.id as string,
+    pageContent: row.content as string,
+    metadata: JSON.parse(row.metadata as string),
+  });
+}
+
+interface ISqlCondition {
+  sql: string;
+  params: (string | number)[];
+}
+
+/**
+ * Translates a filter expression into a condition on the JSON metadata
+ * column. A `not` of a missing field matches, like in process filtering.
+ */
+function toSqlCondition(expression: FilterExpression): ISqlCondition {
+  if ("and" in expression || "or" in expression) {
+    const [items, operator] =
+      "and" in expression ? [expression.and, " AND "] : [expression.or, " OR "];
+    if (!items.length) return { sql: "1", params: [] };
+    const parts = items.map(toSqlCondition);
+    return {
+      sql: `(${parts.map((part) => part.sql).join(operator)})`,
+      params: parts.flatMap((part) => part.params),
+    };
+  }
+  if ("not" in expression) {
+    const part = toSqlCondition(expression.not);
+    return { sql: `NOT COALESCE(${part.sql}, 0)`, params: part.params };
+  }
+
+  if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(expression.field)) {
+    throw new Error(`Invalid metadata field ${expression.field}`);
+  }
+  const path = `'$.${expression.field}'`;
+  const column = `json_extract(metadata, ${path})`;
+  if ("eq" in expression) {
+    return { sql: `${column} = ?`, params: [toSqlValue(expression.eq)] };
+  }
+  if ("in" in expression) {
+    return {
+      sql: `${column} IN (${expression.in.map(() => "?").join(", ")})`,
+      params: expression.in.map(toSqlValue),
+    };
+  }
+  if ("contains" in expression) {
+    return {
+      sql: `(CASE json_type(metadata, ${path}) WHEN 'array' THEN EXISTS (SELECT 1 FROM json_each(metadata, ${path}) WHERE value = ?) ELSE instr(${column}, ?) > 0 END)`,
+      params: [toSqlValue(expression.contains), String(expression.contains)],
+    };
+  }
+  const range = expression as Record<string, string | number>;
+  const comparisons = { gt: ">", gte: ">=", lt: "<", lte: "<=" };
+  const bounds = RANGE_OPERATORS.filter(
+    (operator) => range[operator] !== undefined
+  );
+  return {
+    sql: `(${[
+      `${column} IS NOT NULL`,
+      ...bounds.map((operator) => `${column} ${comparisons[operator]} ?`),
+    ].join(" AND ")})`,
+    params: bounds.map((operator) => range[operator]),
+  };
+}
+
+// JSON booleans are read back as 1 and 0
+function toSqlValue(value: FilterValue): string | number {
+  return typeof value === "boolean" ? Number(value) : value;
+}
@@ -0,0 +1,53 @@
+import { DocumentInterface } from "@langchain/core/documents";
+import {
+  FilterExpression,
+  matchesFilterExpression,
+  toFilterExpression,
+} from "./FilterExpressions";
+
+export type MetadataFilter = Record<string, any>;
+
+// `{ key: value }` shorthand or a filter expression
+export type SearchFilter = MetadataFilter | FilterExpression;
+
+/**
+ * Vector store which can read and delete stored documents, not only search them.
+ */
+export interface IDocumentStore {
+  getDocuments(ids: string[]): Promise<DocumentInterface[]>;
+  findDocuments(filter: SearchFilter): Promise<DocumentInterface[]>;
+  delete(params: { ids?: string[]; filter?: SearchFilter }): Promise<void>;
+  // Replaces the metadata of stored entries, their content and vectors stay
+  updateMetadata(ids: string[], metadata: Record<string, any>[]): Promise<void>;
+}
+
+export function isDocumentStore(store: any): store is IDocumentStore {
+  return (
+    typeof store?.getDocuments === "function" &&
+    typeof store?.findDocuments === "function"
+  );
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+/**
+ * Checks a document's metadata against a filter expression or an equality
+ * filter, whose array values match when the metadata value is one of them.
+ */
+export function matchesMetadataFilter(
+  metadata: Record<string, any>,
+  filter?: SearchFilter
+): boolean {
+  return matchesFilterExpression(metadata, toFilterExpression(filter));
+}
@@ -0,0 +1,25 @@
+// MCP entry point: serves the content tools and workflows over stdio
+import { Console } from "console";
+import initializeApplication from "./config/Initializers";
+import { ContentAI } from "./content_ai/content.RAG";
+import logger from "./utils/Logger";
+
+// Stdout carries the MCP messages, every log goes to stderr
+globalThis.console = new Console({
+  stdout: process.stderr,
+  stderr: process.stderr,
+});
+
+const start = async () => {
+  // Environment variables are needed before the tools are built
+  await Promise.resolve(initializeApplication());
+  // A local MCP client gets the tools without the network listeners
+  const contentAi = new ContentAI({ startServers: false });
+  await contentAi.build();
+  await contentAi.startMcpServer();
+};
+
+start().catch((error) => {
+  logger.error("MCP server could not be started:", error);
+  process.exit(1);
+});
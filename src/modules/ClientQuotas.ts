@@ -0,0 +1,183 @@
+import { RateLimitedError } from "./WebSocketProtocol";
+import { IIdentity } from "./auth/Authenticator";
+
+// --- Interfaces ---
+export interface IClientQuotaOptions {
+  // Messages a client may send per minute, bursts up to the full minute are allowed
+  messagesPerMinute: number;
+  // Running plus queued tool and workflow executions of a client
+  maxInFlightPerClient: number;
+  // Executions running at the same time across all clients, the rest waits in the queue
+  maxConcurrentExecutions: number;
+}
+
+interface IQueuedExecution {
+  start: () => void;
+  cancel: (reason: any) => void;
+}
+
+interface IMessageBucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * Reads the quotas from `WS_RATE_LIMIT_PER_MINUTE`, `WS_MAX_IN_FLIGHT_PER_CLIENT`
+ * and `WS_MAX_CONCURRENT_EXECUTIONS`.
+ */
+export function getClientQuotaOptions(): IClientQuotaOptions {
+  return {
+    messagesPerMinute: Number(process.env.WS_RATE_LIMIT_PER_MINUTE) || 60,
+    maxInFlightPerClient: Number(process.env.WS_MAX_IN_FLIGHT_PER_CLIENT) || 4,
+    maxConcurrentExecutions:
+      Number(process.env.WS_MAX_CONCURRENT_EXECUTIONS) || 4,
+  };
+}
+
+/**
+ * Key of the quotas of an identity, the same for its socket connections and
+ * HTTP requests so neither more connections nor the other transport raise
+ * them. Anonymous clients are told apart by their address.
+ */
+export function getQuotaKey(identity: IIdentity, address?: string): string {
+  return identity.method === "anonymous"
+    ? `anonymous:${address}`
+    : `identity:${identity.id}`;
+}
+
+/**
+ * Rate limits the messages of every client (token bucket) and runs their
+ * executions through a server-wide queue. Waiting executions are started
+ * round-robin across clients, so a client with many queued executions can
+ * not starve the others.
+ */
+export class ClientQuotas {
+  private readonly buckets = new Map<string, IMessageBucket>();
+  private readonly inFlight = new Map<string, number>();
+  // Client id -> waiting executions, the map order is the round-robin order
+  private readonly queues = new Map<string, IQueuedExecution[]>();
+  private running = 0;
+  // Moving average of the execution durations, used as retry-after hint
+  private averageDurationMs = 1000;
+
+  constructor(
+    private readonly options: IClientQuotaOptions = getClientQuotaOptions(),
+    private readonly now: () => number = Date.now
+  ) {}
+
+  /**
+   * Counts a message of the client, throws RATE_LIMITED when its budget is used up.
+   */
+  consumeMessage(clientId: string) {
+    const rate = this.options.messagesPerMinute / 60000; // tokens per ms
+    const now = this.now();
+    const bucket = this.buckets.get(clientId) ?? {
+      tokens: this.options.messagesPerMinute,
+      updatedAt: now,
+    };
+    bucket.tokens = Math.min(
+      this.options.messagesPerMinute,
+      bucket.tokens + (now - bucket.updatedAt) * rate
+    );
+    bucket.updatedAt = now;
+    this.buckets.set(clientId, bucket);
+
+    if (bucket.tokens < 1) {
+      throw new RateLimitedError(
+        `Rate limit of ${this.options.messagesPerMinute} messages per minute exceeded`,
+        Math.ceil((1 - bucket.tokens) / rate)
+      );
+    }
+    bucket.tokens -= 1;
+  }
+
+  /**
+   * Runs `work` once the queue gives the client a slot. Throws RATE_LIMITED
+   * when the client has too many executions in flight, rejects with the abort
+   * reason when `signal` aborts while waiting.
+   */
+  async schedule<T>(
+    clientId: string,
+    work: () => Promise<T>,
+    signal?: AbortSignal
+  ): Promise<T> {
+    const inFlight = this.inFlight.get(clientId) ?? 0;
+    if (inFlight >= this.options.maxInFlightPerClient) {
+      throw new RateLimitedError(
+        `At most ${this.options.maxInFlightPerClient} executions per client can be in flight`,
+        Math.ceil(this.averageDurationMs)
+      );
+    }
+    signal?.throwIfAborted();
+    this.inFlight.set(clientId, inFlight + 1);
+
+    try {
+      await this.waitForSlot(clientId, signal);
+      const startedAt = this.now();
+      try {
+        return await work();
+      } finally {
+        this.averageDurationMs =
+          0.8 * this.averageDurationMs + 0.2 * (this.now() - startedAt);
+        this.running--;
+        this.startNext();
+      }
+    } finally {
+      const remaining = this.inFlight.get(clientId) - 1;
+      if (remaining > 0) this.inFlight.set(clientId, remaining);
+      else this.inFlight.delete(clientId);
+    }
+  }
+
+  /**
+   * Forgets the message budget of a disconnected client once it is refilled,
+   * so reconnecting does not reset a used up budget.
+   */
+  release(clientId: string) {
+    const bucket = this.buckets.get(clientId);
+    const refilledAt =
+      bucket &&
+      bucket.updatedAt +
+        ((this.options.messagesPerMinute - bucket.tokens) * 60000) /
+          this.options.messagesPerMinute;
+    if (bucket && refilledAt <= this.now()) this.buckets.delete(clientId);
+  }
+
+  private waitForSlot(clientId: string, signal?: AbortSignal): Promise<void> {
+    if (this.running < this.options.maxConcurrentExecutions) {
+      this.running++;
+      return Promise.resolve();
+    }
+    return new Promise<void>((resolve, reject) => {
+      const onAbort = () => execution.cancel(signal.reason);
+      const execution: IQueuedExecution = {
+        start: () => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve();
+        },
+        cancel: (reason) => {
+          const queue = this.queues.get(clientId) ?? [];
+          queue.splice(queue.indexOf(execution), 1);
+          if (queue.length === 0) this.queues.delete(clientId);
+          reject(reason);
+        },
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.queues.set(clientId, [
+        ...(this.queues.get(clientId) ?? []),
+        execution,
+      ]);
+    });
+  }
+
+  // Starts the oldest execution of the next client and moves the client to the end
+  private startNext() {
+    const [clientId, queue] = this.queues.entries().next().value ?? [];
+    if (!clientId) return;
+    const execution = queue.shift();
+    this.queues.delete(clientId);
+    if (queue.length > 0) this.queues.set(clientId, queue);
+    this.running++;
+    execution.start();
+  }
+}
@@ -0,0 +1,430 @@
+import http, { IncomingMessage, ServerResponse } from "http";
+import { IterableReadableStream } from "@langchain/core/utils/stream";
+import { WorkflowManager } from "./WorkFlowManager";
+import { ToolExecutor } from "./aiTools/ToolExecutor";
+import { ToolRegistry, WorkflowConflictError } from "./aiTools/ToolRegistry";
+import { validateWorkflowDefinition } from "./WorkflowDefinitions";
+import { IWorkflowEvent } from "./WorkflowEvents";
+import {
+  ErrorCode,
+  ProtocolError,
+  RateLimitedError,
+  toProtocolError,
+} from "./WebSocketProtocol";
+import {
+  IAuthenticator,
+  IIdentity,
+  assertPermission,
+  getAuthRequest,
+  hasPermission,
+} from "./auth/Authenticator";
+import { ClientQuotas, getQuotaKey } from "./ClientQuotas";
+import logger from "../utils/Logger";
+
+// --- Interfaces ---
+interface IHttpRequest {
+  request: IncomingMessage;
+  response: ServerResponse;
+  // Tool name or workflow/run id of the path
+  param: string;
+  body: any;
+  identity: IIdentity;
+  // Quota key of the caller
+  clientId: string;
+  // Aborted when the caller goes away before the response is complete
+  signal: AbortSignal;
+}
+
+interface IRoute {
+  method: string;
+  pattern: RegExp;
+  handle: (request: IHttpRequest) => Promise<void>;
+}
+
+const HTTP_STATUS: Record<ErrorCode, number> = {
+  INVALID_MESSAGE: 400,
+  UNSUPPORTED_MESSAGE_TYPE: 404,
+  UNSUPPORTED_PROTOCOL_VERSION: 400,
+  INVALID_REQUEST: 400,
+  NOT_FOUND: 404,
+  CONFLICT: 409,
+  UNAUTHORIZED: 401,
+  FORBIDDEN: 403,
+  RATE_LIMITED: 429,
+  CANCELLED: 499,
+  EXECUTION_FAILED: 500,
+  INTERNAL_ERROR: 500,
+};
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+/**
+ * REST gateway for consumers which can not keep a socket open:
+ *
+ * - `POST /tools/:name/execute` with `{ input }`
+ * - `POST /workflows` with a workflow definition
+ * - `POST /workflows/:id/runs` with `{ input }`
+ * - `GET /runs/:id`
+ *
+ * Executions answer with Server-Sent Events when the request accepts
+ * `text/event-stream`: tool output as `chunk` events, workflow progress as one
+ * event per workflow event, then `end` (or `error`). It authenticates like the
+ * socket server and shares its permissions and execution quotas.
+ */
+export class HttpGateway {
+  private server: http.Server | null = null;
+  private readonly routes: IRoute[] = [
+    {
+      method: "POST",
+      pattern: /^\/tools\/([^/]+)\/execute$/,
+      handle: (request) => this.executeTool(request),
+    },
+    {
+      method: "POST",
+      pattern: /^\/workflows$/,
+      handle: (request) => this.createWorkflow(request),
+    },
+    {
+      method: "POST",
+      pattern: /^\/workflows\/([^/]+)\/runs$/,
+      handle: (request) => this.executeWorkflow(request),
+    },
+    {
+      method: "GET",
+      pattern: /^\/runs\/([^/]+)$/,
+      handle: (request) => this.getRun(request),
+    },
+  ];
+
+  constructor(
+    private readonly port: number,
+    private readonly workflowManager: WorkflowManager,
+    private readonly toolExecutor: ToolExecutor,
+    private readonly toolRegistry: ToolRegistry,
+    private readonly authenticator: IAuthenticator,
+    private readonly quotas = new ClientQuotas()
+  ) {}
+
+  /**
+   * Starts listening, resolves once the server accepts requests.
+   */
+  start(): Promise<void> {
+    if (this.server) {
+      logger.warn("HTTP gateway is already started.");
+      return Promise.resolve();
+    }
+    this.server = http.createServer((request, response) => {
+      this.handleRequest(request, response).catch((error) => {
+        logger.error("HTTP gateway error:", error);
+      });
+    });
+    return new Promise((resolve, reject) => {
+      this.server.once("error", reject);
+      this.server.listen(this.port, () => {
+        logger.log(`HTTP gateway is listening on port ${this.getPort()}`);
+        resolve();
+      });
+    });
+  }
+
+  // The bound port, differs from the configured one when that is 0
+  getPort(): number {
+    const address = this.server?.address();
+    return typeof address === "object" && address ? address.port : this.port;
+  }
+
+  close(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    if (!server) return Promise.resolve();
+    server.closeAllConnections();
+    return new Promise((resolve) => server.close(() => resolve()));
+  }
+
+  private async handleRequest(
+    request: IncomingMessage,
+    response: ServerResponse
+  ) {
+    const controller = new AbortController();
+    response.on("close", () => {
+      if (!response.writableFinished) {
+        controller.abort(new Error("Client disconnected"));
+      }
+    });
+
+    try {
+      const { pathname } = new URL(request.url ?? "/", "http://localhost");
+      const route = this.routes.find(
+        (candidate) =>
+          candidate.method === request.method &&
+          candidate.pattern.test(pathname)
+      );
+      if (!route) {
+        throw new ProtocolError(
+          "UNSUPPORTED_MESSAGE_TYPE",
+          `${request.method} ${pathname} is not supported`
+        );
+      }
+
+      const identity = await this.authenticator.authenticate(
+        getAuthRequest(request)
+      );
+      if (!identity) {
+        throw new ProtocolError("UNAUTHORIZED", "Not authenticated");
+      }
+      const clientId = getQuotaKey(identity, request.socket.remoteAddress);
+      this.quotas.consumeMessage(clientId);
+
+      const [, param] = pathname.match(route.pattern);
+      await route.handle({
+        request,
+        response,
+        param: param && decodeURIComponent(param),
+        body: request.method === "POST" ? await this.readBody(request) : {},
+        identity,
+        clientId,
+        signal: controller.signal,
+      });
+    } catch (error: any) {
+      this.sendError(
+        response,
+        toProtocolError(
+          error,
+          controller.signal.aborted ? "CANCELLED" : "INTERNAL_ERROR"
+        )
+      );
+    }
+  }
+
+  private async executeTool({
+    request,
+    response,
+    param,
+    body,
+    identity,
+    clientId,
+    signal,
+  }: IHttpRequest) {
+    const toolName = param;
+    assertPermission(identity, `tool:${toolName}`);
+    if (!this.toolRegistry.getTool(toolName)) {
+      throw new ProtocolError("NOT_FOUND", `Tool ${toolName} not found`);
+    }
+    const context = { signal };
+
+    if (this.acceptsEventStream(request)) {
+      await this.schedule(clientId, signal, async () => {
+        const stream = await this.toolExecutor.executeTool(
+          toolName,
+          body.input,
+          context
+        );
+        await this.sendEventStream(response, stream);
+      });
+      return;
+    }
+    const output = await this.schedule(clientId, signal, () =>
+      this.toolExecutor.executeToolWithJsonOutput(toolName, body.input, context)
+    );
+    this.sendJson(response, 200, output);
+  }
+
+  private async createWorkflow({ response, body, identity }: IHttpRequest) {
+    assertPermission(identity, "workflow:create");
+    let workflowId: string;
+    try {
+      workflowId = this.workflowManager.createWorkflow(
+        validateWorkflowDefinition(body)
+      );
+    } catch (error: any) {
+      throw toProtocolError(
+        error,
+        error instanceof WorkflowConflictError ? "CONFLICT" : "INVALID_REQUEST"
+      );
+    }
+    this.sendJson(response, 201, { workflowId });
+  }
+
+  private async executeWorkflow({
+    request,
+    response,
+    param,
+    body,
+    identity,
+    clientId,
+    signal,
+  }: IHttpRequest) {
+    // Workflows the identity may not execute are not found, ids reveal nothing
+    const workflow = this.toolRegistry.getWorkflow(param);
+    if (
+      !workflow ||
+      !hasPermission(identity, `workflow:execute:${workflow.name}`)
+    ) {
+      throw new ProtocolError("NOT_FOUND", `Workflow ${param} not found`);
+    }
+
+    const streamEvents = this.acceptsEventStream(request);
+    if (streamEvents) this.startEventStream(response);
+    let result: { runId: string; output: any };
+    const onEvent = (event: IWorkflowEvent) => {
+      if (streamEvents) this.sendEvent(response, event.type, event);
+      if (event.type === "WORKFLOW_COMPLETED") {
+        result = { runId: event.runId, output: event.output };
+      }
+    };
+
+    try {
+      await this.schedule(clientId, signal, () =>
+        this.workflowManager.executeWorkflow(workflow.id, body.input, {
+          signal,
+          onEvent,
+        })
+      );
+    } catch (error) {
+      if (!streamEvents) throw error;
+      this.endEventStreamWithError(response, error);
+      return;
+    }
+    if (streamEvents) {
+      this.sendEvent(response, "end", result);
+      response.end();
+      return;
+    }
+    this.sendJson(response, 200, result);
+  }
+
+  private async getRun({ response, param, identity }: IHttpRequest) {
+    const run = await this.workflowManager.getRun(param);
+    if (!run) {
+      throw new ProtocolError("NOT_FOUND", `Workflow run ${param} not found`);
+    }
+    // Runs hold the input and output of the workflow, only its users see them
+    assertPermission(identity, `workflow:execute:${run.workflowName}`);
+    this.sendJson(response, 200, run);
+  }
+
+  // Queues the execution like socket executions, failures become EXECUTION_FAILED
+  private async schedule<T>(
+    clientId: string,
+    signal: AbortSignal,
+    work: () => Promise<T>
+  ): Promise<T> {
+    try {
+      return await this.quotas.schedule(clientId, work, signal);
+    } catch (error) {
+      throw toProtocolError(
+        error,
+        signal.aborted ? "CANCELLED" : "EXECUTION_FAILED"
+      );
+    }
+  }
+
+  private readBody(request: IncomingMessage): Promise<any> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+      request.on("data", (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+          reject(
+            new ProtocolError("INVALID_REQUEST", "Request body is too large")
+          );
+          request.destroy();
+          return;
+        }
+        chunks.push(chunk);
+      });
+      request.on("error", reject);
+      request.on("end", () => {
+        const text = Buffer.concat(chunks).toString("utf8");
+        if (!text) return resolve({});
+        let body: any;
+        try {
+          body = JSON.parse(text);
+        } catch {
+          reject(
+            new ProtocolError(
+              "INVALID_MESSAGE",
+              "Request body is not valid JSON"
+            )
+          );
+          return;
+        }
+        if (typeof body !== "object" || body === null || Array.isArray(body)) {
+          reject(
+            new ProtocolError(
+              "INVALID_REQUEST",
+              "Request body must be a JSON object"
+            )
+          );
+          return;
+        }
+        resolve(body);
+      });
+    });
+  }
+
+  private acceptsEventStream(request: IncomingMessage): boolean {
+    return (request.headers.accept ?? "").includes("text/event-stream");
+  }
+
+  private async sendEventStream(
+    response: ServerResponse,
+    stream: IterableReadableStream<string>
+  ) {
+    this.startEventStream(response);
+    try {
+      for await (const chunk of stream) {
+        this.sendEvent(response, "chunk", chunk);
+      }
+    } catch (error) {
+      this.endEventStreamWithError(response, error);
+      return;
+    }
+    this.sendEvent(response, "end", {});
+    response.end();
+  }
+
+  private startEventStream(response: ServerResponse) {
+    response.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+  }
+
+  private sendEvent(response: ServerResponse, event: string, data: any) {
+    response.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  }
+
+  private endEventStreamWithError(response: ServerResponse, error: any) {
+    const { code, message } = toProtocolError(error, "EXECUTION_FAILED");
+    this.sendEvent(response, "error", { code, message });
+    response.end();
+  }
+
+  private sendJson(response: ServerResponse, status: number, body: any) {
+    response.writeHead(status, { "Content-Type": "application/json" });
+    response.end(JSON.stringify(body ?? null));
+  }
+
+  private sendError(response: ServerResponse, error: ProtocolError) {
+    if (response.headersSent) {
+      this.endEventStreamWithError(response, error);
+      return;
+    }
+    if (error instanceof RateLimitedError) {
+      response.setHeader(
+        "Retry-After",
+        String(Math.ceil(error.retryAfterMs / 1000))
+      );
+    }
+    this.sendJson(response, HTTP_STATUS[error.code], {
+      code: error.code,
+      message: error.message,
+      ...(error instanceof RateLimitedError && {
+        retryAfterMs: error.retryAfterMs,
+      }),
+    });
+  }
+}
@@ -0,0 +1,200 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import {
+  CallToolRequestSchema,
+  CallToolResult,
+  ErrorCode,
+  ListToolsRequestSchema,
+  McpError,
+  Tool as McpTool,
+} from "@modelcontextprotocol/sdk/types.js";
+import { JSONSchema7 } from "json-schema";
+import { WorkflowManager } from "./WorkFlowManager";
+import { ToolExecutor } from "./aiTools/ToolExecutor";
+import {
+  IToolConfig,
+  IWorkflow,
+  ToolRegistry,
+  describeTool,
+} from "./aiTools/ToolRegistry";
+import logger from "../utils/Logger";
+
+// Prefix of the MCP tools which run a workflow
+export const WORKFLOW_TOOL_PREFIX = "workflow_";
+
+/**
+ * Publishes the registered tools, and the latest version of every workflow,
+ * as Model Context Protocol tools. Calls go through the ToolExecutor (which
+ * validates the input against the tool's schema) or the WorkflowManager.
+ */
+export class McpToolServer {
+  private readonly server: Server;
+
+  constructor(
+    private readonly toolRegistry: ToolRegistry,
+    private readonly toolExecutor: ToolExecutor,
+    private readonly workflowManager: WorkflowManager,
+    serverInfo = { name: "omega-ai", version: "1.0.0" }
+  ) {
+    this.server = new Server(serverInfo, { capabilities: { tools: {} } });
+    this.server.setRequestHandler(ListToolsRequestSchema, async () => ({
+      tools: this.listTools(),
+    }));
+    this.server.setRequestHandler(CallToolRequestSchema, (request, extra) =>
+      this.callTool(
+        request.params.name,
+        request.params.arguments ?? {},
+        extra.signal
+      )
+    );
+  }
+
+  /**
+   * Serves the tools, over stdin/stdout unless another transport is given.
+   */
+  async listen(transport: Transport = new StdioServerTransport()) {
+    await this.server.connect(transport);
+    logger.info("MCP server is listening.");
+  }
+
+  close() {
+    return this.server.close();
+  }
+
+  private listTools(): McpTool[] {
+    const tools = Array.from(this.toolRegistry.getTools().values()).map(
+      (tool) => this.toMcpTool(tool)
+    );
+    const toolNames = new Set(tools.map((tool) => tool.name));
+    for (const workflow of this.getLatestWorkflows()) {
+      const name = getWorkflowToolName(workflow);
+      if (toolNames.has(name)) {
+        logger.warn(`Workflow ${workflow.name} is hidden by the tool ${name}.`);
+        continue;
+      }
+      tools.push({
+        name,
+        description:
+          workflow.description || `Runs the ${workflow.name} workflow.`,
+        inputSchema: this.getWorkflowInputSchema(
+          workflow
+        ) as McpTool["inputSchema"],
+      });
+    }
+    return tools;
+  }
+
+  private toMcpTool(tool: IToolConfig): McpTool {
+    const { name, description, rules, inputSchema, outputSchema } =
+      describeTool(tool);
+    return {
+      name,
+      description: rules ? `${description}\n\nRules: ${rules}` : description,
+      inputSchema: { type: "object", ...inputSchema } as McpTool["inputSchema"],
+      // MCP only accepts object output schemas
+      ...(outputSchema?.type === "object" && {
+        outputSchema: outputSchema as McpTool["outputSchema"],
+      }),
+    };
+  }
+
+  private async callTool(
+    name: string,
+    input: Record<string, unknown>,
+    signal: AbortSignal
+  ): Promise<CallToolResult> {
+    const tool = this.toolRegistry.getTool(name);
+    const workflow =
+      !tool && name.startsWith(WORKFLOW_TOOL_PREFIX)
+        ? this.getLatestWorkflows().find(
+            (candidate) => getWorkflowToolName(candidate) === name
+          )
+        : undefined;
+    if (!tool && !workflow) {
+      throw new McpError(ErrorCode.InvalidParams, `Tool ${name} not found`);
+    }
+
+    // Failed calls are results, so the calling model can see what went wrong
+    try {
+      const output = tool
+        ? await this.toolExecutor.executeToolWithJsonOutput(name, input, {
+            signal,
+          })
+        : await this.runWorkflow(workflow, input, signal);
+      return {
+        content: [{ type: "text", text: JSON.stringify(output, null, 2) }],
+        ...(isPlainObject(output) && { structuredContent: output }),
+      };
+    } catch (error: any) {
+      logger.error(`MCP call of ${name} failed:`, error);
+      return {
+        isError: true,
+        content: [{ type: "text", text: error.message }],
+      };
+    }
+  }
+
+  private async runWorkflow(
+    workflow: IWorkflow,
+    input: Record<string, unknown>,
+    signal: AbortSignal
+  ) {
+    let output: any;
+    await this.workflowManager.executeWorkflow(workflow.id, input, {
+      signal,
+      onEvent: (event) => {
+        if (event.type === "WORKFLOW_COMPLETED") output = event.output;
+      },
+    });
+    return output;
+  }
+
+  /**
+   * The declared input schema of the workflow, otherwise the `input.*` paths
+   * its steps read, typed like the tool arguments they are mapped to.
+   */
+  private getWorkflowInputSchema(workflow: IWorkflow): JSONSchema7 {
+    if (workflow.inputSchema) {
+      return { type: "object", ...workflow.inputSchema };
+    }
+    const properties: Record<string, JSONSchema7> = {};
+    for (const step of workflow.steps) {
+      const toolSchema = step.toolName
+        ? this.toolRegistry.getTool(step.toolName)?.inputSchema
+        : undefined;
+      for (const [argument, path] of Object.entries(step.inputMapping ?? {})) {
+        const [, key, nested] = path.match(/^input\.([^.[]+)(.*)$/) ?? [];
+        if (!key) continue;
+        const argumentSchema = toolSchema?.properties?.[argument];
+        properties[key] =
+          !nested && typeof argumentSchema === "object"
+            ? argumentSchema
+            : (properties[key] ?? {});
+      }
+    }
+    return { type: "object", properties };
+  }
+
+  private getLatestWorkflows(): IWorkflow[] {
+    const names = new Set(
+      Array.from(this.toolRegistry.getWorkflows().values()).map(
+        (workflow) => workflow.name
+      )
+    );
+    return Array.from(names).map((name) =>
+      this.toolRegistry.getWorkflowByName(name)
+    );
+  }
+}
+
+// MCP tool names only allow letters, digits, `_` and `-`
+function getWorkflowToolName(workflow: IWorkflow): string {
+  return `${WORKFLOW_TOOL_PREFIX}${workflow.name}`
+    .replace(/[^A-Za-z0-9_-]/g, "_")
+    .slice(0, 64);
+}
+
+function isPlainObject(value: any): value is Record<string, unknown> {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
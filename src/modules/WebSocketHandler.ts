@@ -1,130 +1,572 @@
-import WebSocketModule, { WebSocketMessage } from "./WebSocketModule";
-import { WebSocket } from "ws";
-import { WorkflowManager } from "./WorkFlowManager";
+import WebSocketModule, { Client, WebSocketMessage } from "./WebSocketModule";
+import {
+  IWorkflowExecutionOptions,
+  WorkflowManager,
+} from "./WorkFlowManager";
 import { ToolExecutor } from "./aiTools/ToolExecutor";
-import { ToolRegistry } from "./aiTools/ToolRegistry";
+import {
+  IWorkflow,
+  ToolRegistry,
+  WorkflowConflictError,
+  describeTool,
+  redactWorkflow,
+} from "./aiTools/ToolRegistry";
+import { validateWorkflowDefinition } from "./WorkflowDefinitions";
 import logger from "../utils/Logger";
 import { IterableReadableStream } from "@langchain/core/utils/stream";
+import {
+  ProtocolError,
+  RateLimitedError,
+  createHelloResponse,
+  toProtocolError,
+} from "./WebSocketProtocol";
+import {
+  IIdentity,
+  assertPermission,
+  hasPermission,
+} from "./auth/Authenticator";
+import { ClientQuotas, getQuotaKey } from "./ClientQuotas";
+import { SessionManager } from "./sessions/SessionManager";
+
+interface IInFlightRequest {
+  controller: AbortController;
+  // Set once the workflow run of the request started
+  runId?: string;
+}
 
 export class WebSocketHandler {
+  // Connection id -> request id -> running request, cancelled with CANCEL.
+  // Request ids are chosen by the clients, so they are only unique per connection
+  private readonly inFlightRequests = new Map<
+    string,
+    Map<string, IInFlightRequest>
+  >();
+  // Connection id -> key of the quotas the connection counts against
+  private readonly quotaKeys = new Map<string, string>();
+
   constructor(
     private readonly webSocketModule: WebSocketModule,
     private readonly workflowManager: WorkflowManager,
     private readonly toolExecutor: ToolExecutor,
-    private readonly toolRegistry: ToolRegistry
+    private readonly toolRegistry: ToolRegistry,
+    private readonly sessionManager: SessionManager,
+    private readonly quotas = new ClientQuotas()
   ) {
     // Pass our custom message handler (which receives both the message and the originating ws)
     this.webSocketModule.initializeWebSocket(
       this.handleWebSocketMessage.bind(this)
     );
+    // Nobody is left to receive the results of a disconnected client
+    this.webSocketModule.onClientClose((client) => {
+      this.cancelRequests(client.id, () => true, "Client disconnected");
+      this.inFlightRequests.delete(client.id);
+      this.quotaKeys.delete(client.id);
+      this.quotas.release(getClientQuotaKey(client));
+    });
   }
 
   /**
    * Handles incoming WebSocket messages.
-   * Uses the client’s assigned clientId (attached to ws) as the sessionId.
+   * Uses the connection id of the client as the sessionId.
    */
-  async handleWebSocketMessage(message: WebSocketMessage, ws: WebSocket) {
-    const sessionId = (ws as any).clientId || this.generateSessionId();
+  async handleWebSocketMessage(message: WebSocketMessage, client: Client) {
+    const sessionId = client.id;
+    if (typeof message?.id !== "string" || typeof message.type !== "string") {
+      this.sendError(
+        sessionId,
+        typeof message?.id === "string" ? message.id : null,
+        new ProtocolError(
+          "INVALID_MESSAGE",
+          "Messages need a string `id` and `type`"
+        )
+      );
+      return;
+    }
     try {
+      // CANCEL is never limited, a client can always stop its own work
+      this.quotaKeys.set(sessionId, getClientQuotaKey(client));
+      if (message.type !== "CANCEL") {
+        this.quotas.consumeMessage(getClientQuotaKey(client));
+      }
       switch (message.type) {
+        case "HELLO":
+          this.sendSuccess(
+            sessionId,
+            message.id,
+            createHelloResponse(message.data, client.identity)
+          );
+          break;
         case "EXECUTE_TOOL":
-          await this.handleToolExecution(message, sessionId);
+          await this.handleToolExecution(message, sessionId, client.identity);
           break;
         case "CREATE_WORKFLOW":
+          assertPermission(client.identity, "workflow:create");
           await this.handleWorkflowCreation(message, sessionId);
           break;
         case "EXECUTE_WORKFLOW":
-          await this.handleWorkflowExecution(message, sessionId);
+          await this.handleWorkflowExecution(message, sessionId, client.identity);
+          break;
+        case "RESUME_WORKFLOW":
+          await this.handleWorkflowResume(message, sessionId, client.identity);
+          break;
+        case "LIST_WORKFLOW_RUNS":
+          assertPermission(client.identity, "run:read");
+          await this.handleWorkflowRunList(message, sessionId, client.identity);
+          break;
+        case "GET_WORKFLOW_RUN":
+          assertPermission(client.identity, "run:read");
+          await this.handleWorkflowRunRequest(
+            message,
+            sessionId,
+            client.identity
+          );
+          break;
+        case "CANCEL":
+          this.handleCancel(message, sessionId);
+          break;
+        case "DIFF_WORKFLOW_VERSIONS":
+          assertPermission(
+            client.identity,
+            `workflow:read:${message.data?.name}`
+          );
+          this.handleWorkflowDiff(message, sessionId);
+          break;
+        case "LIST_TOOLS":
+          this.sendSuccess(
+            sessionId,
+            message.id,
+            Array.from(this.toolRegistry.getTools().values())
+              .filter((tool) =>
+                hasPermission(client.identity, `tool:${tool.interface.toolName}`)
+              )
+              .map(describeTool)
+          );
+          break;
+        case "GET_TOOL":
+          this.handleToolRequest(message, sessionId, client.identity);
+          break;
+        case "LIST_WORKFLOWS":
+          this.handleWorkflowList(message, sessionId, client.identity);
+          break;
+        case "GET_WORKFLOW": {
+          const workflow = this.resolveWorkflow(
+            message.data,
+            client.identity,
+            "workflow:read"
+          );
+          this.sendSuccess(sessionId, message.id, redactWorkflow(workflow));
+          break;
+        }
+        case "DELETE_WORKFLOW": {
+          // Checked before the lookup, which would tell what exists
+          assertPermission(client.identity, "workflow:delete");
+          const workflow = this.resolveWorkflow(message.data);
+          this.workflowManager.deleteWorkflow(workflow.id);
+          this.sendSuccess(sessionId, message.id, { workflowId: workflow.id });
+          break;
+        }
+        case "CHAT":
+          await this.handleChat(message, sessionId, client.identity);
           break;
         default:
-          this.sendError(sessionId, "Unsupported message type");
+          throw new ProtocolError(
+            "UNSUPPORTED_MESSAGE_TYPE",
+            `Unsupported message type ${message.type}`
+          );
       }
     } catch (error: any) {
       logger.error("WebSocket handling error:", error);
-      this.sendError(sessionId, error.message);
+      this.sendError(sessionId, message.id, error);
     }
   }
 
   private async handleToolExecution(
     message: WebSocketMessage,
-    sessionId: string
+    sessionId: string,
+    identity: IIdentity
   ) {
-    const { toolName, input, stream } = message.data;
-    try {
+    const { toolName, input, stream } = message.data ?? {};
+    assertPermission(identity, `tool:${toolName}`);
+    if (!this.toolRegistry.getTool(toolName)) {
+      throw new ProtocolError("NOT_FOUND", `Tool ${toolName} not found`);
+    }
+    await this.trackRequest(sessionId, message, async ({ controller }) => {
+      const context = { signal: controller.signal };
       if (stream) {
-        const result = await this.toolExecutor.executeTool(toolName, input);
-        this.sendSuccessStream(sessionId, result);
+        const result = await this.toolExecutor.executeTool(toolName, input, context);
+        await this.sendSuccessStream(sessionId, message.id, result);
       } else {
-        const result = await this.toolExecutor.executeToolWithJsonOutput(toolName, input);
-        this.sendSuccess(sessionId, result);
+        const result = await this.toolExecutor.executeToolWithJsonOutput(toolName, input, context);
+        this.sendSuccess(sessionId, message.id, result);
       }
-    } catch (error: any) {
-      this.sendError(sessionId, error.message);
-    }
+    });
   }
 
   private async handleWorkflowExecution(
     message: WebSocketMessage,
-    sessionId: string
+    sessionId: string,
+    identity: IIdentity
   ) {
-    const { workflowId, input } = message.data;
-    try {
-      const result = await this.workflowManager.executeWorkflow(
-        workflowId,
-        input
+    const workflow = this.resolveWorkflow(
+      message.data,
+      identity,
+      "workflow:execute"
+    );
+    const input = message.data.input;
+    const result = await this.streamWorkflowRun(
+      sessionId,
+      message,
+      (options) =>
+        this.workflowManager.executeWorkflow(workflow.id, input, options)
+    );
+    this.sendSuccess(sessionId, message.id, result);
+  }
+
+  /**
+   * Streams the answer to `data.message` within the chat session `data.sessionId`,
+   * the connection's own session by default. Sessions belong to the identity
+   * which started them.
+   */
+  private async handleChat(
+    message: WebSocketMessage,
+    sessionId: string,
+    identity: IIdentity
+  ) {
+    const { message: input, modelConfig } = message.data ?? {};
+    const chatSessionId = message.data?.sessionId ?? sessionId;
+    assertPermission(identity, "chat");
+    if (typeof input !== "string" || typeof chatSessionId !== "string") {
+      throw new ProtocolError(
+        "INVALID_REQUEST",
+        "CHAT needs a string `message` and `sessionId`"
+      );
+    }
+    const session = await this.sessionManager.getSession(chatSessionId);
+    if (session?.ownerId && session.ownerId !== identity.id) {
+      throw new ProtocolError(
+        "FORBIDDEN",
+        `Session ${chatSessionId} belongs to another identity`
+      );
+    }
+    await this.trackRequest(sessionId, message, async ({ controller }) => {
+      const stream = await this.sessionManager.chat(chatSessionId, input, {
+        ownerId: identity.id,
+        modelConfig,
+        signal: controller.signal,
+      });
+      await this.sendSuccessStream(sessionId, message.id, stream);
+    });
+  }
+
+  /**
+   * Finds the workflow of a request, by `workflowId` or by `workflowName`
+   * with an optional pinned `version`. With a `permission` prefix the
+   * identity must hold `<permission>:<name>`, workflows looked up by id
+   * which it may not access are not found, so ids reveal nothing.
+   */
+  private resolveWorkflow(
+    data: any,
+    identity?: IIdentity,
+    permission?: string
+  ): IWorkflow {
+    const { workflowId, workflowName, version } = data ?? {};
+    if (permission && !workflowId) {
+      assertPermission(identity, `${permission}:${workflowName}`);
+    }
+    const workflow = workflowId
+      ? this.toolRegistry.getWorkflow(workflowId)
+      : this.toolRegistry.getWorkflowByName(workflowName, version);
+    if (
+      !workflow ||
+      (permission && !hasPermission(identity, `${permission}:${workflow.name}`))
+    ) {
+      throw new ProtocolError(
+        "NOT_FOUND",
+        `Workflow ${workflowId ?? `${workflowName}@${version ?? "latest"}`} not found`
       );
-      this.sendSuccess(sessionId, result);
-    } catch (error: any) {
-      this.sendError(sessionId, error.message);
     }
+    return workflow;
+  }
+
+  private handleToolRequest(
+    message: WebSocketMessage,
+    sessionId: string,
+    identity: IIdentity
+  ) {
+    const toolName = message.data?.toolName;
+    const tool = this.toolRegistry.getTool(toolName);
+    if (!tool) {
+      throw new ProtocolError("NOT_FOUND", `Tool ${toolName} not found`);
+    }
+    assertPermission(identity, `tool:${toolName}`);
+    this.sendSuccess(sessionId, message.id, describeTool(tool));
+  }
+
+  /**
+   * Lists the workflows the identity may execute, optionally only the
+   * versions of `data.workflowName`.
+   */
+  private handleWorkflowList(
+    message: WebSocketMessage,
+    sessionId: string,
+    identity: IIdentity
+  ) {
+    const workflowName = message.data?.workflowName;
+    const workflows = Array.from(this.toolRegistry.getWorkflows().values())
+      .filter(
+        (workflow) =>
+          (!workflowName || workflow.name === workflowName) &&
+          hasPermission(identity, `workflow:execute:${workflow.name}`)
+      )
+      .map(({ id, name, version, description, steps }) => ({
+        id,
+        name,
+        version,
+        description,
+        stepCount: steps.length,
+      }));
+    this.sendSuccess(sessionId, message.id, workflows);
+  }
+
+  private async handleWorkflowResume(
+    message: WebSocketMessage,
+    sessionId: string,
+    identity: IIdentity
+  ) {
+    const runId = message.data?.runId;
+    const run = await this.workflowManager.getRun(runId);
+    if (!run) {
+      throw new ProtocolError("NOT_FOUND", `Workflow run ${runId} not found`);
+    }
+    assertPermission(identity, `workflow:execute:${run.workflowName}`);
+    const result = await this.streamWorkflowRun(
+      sessionId,
+      message,
+      (options) => this.workflowManager.resumeWorkflow(runId, options)
+    );
+    this.sendSuccess(sessionId, message.id, result);
+  }
+
+  // Runs hold the input and output of their workflow, only the identities
+  // which may execute it see them
+  private async handleWorkflowRunList(
+    message: WebSocketMessage,
+    sessionId: string,
+    identity: IIdentity
+  ) {
+    const { limit, ...filter } = message.data ?? {};
+    const runs = (await this.workflowManager.listRuns(filter)).filter((run) =>
+      hasPermission(identity, `workflow:execute:${run.workflowName}`)
+    );
+    this.sendSuccess(
+      sessionId,
+      message.id,
+      limit ? runs.slice(0, limit) : runs
+    );
+  }
+
+  // Runs of workflows the identity may not execute are not found
+  private async handleWorkflowRunRequest(
+    message: WebSocketMessage,
+    sessionId: string,
+    identity: IIdentity
+  ) {
+    const runId = message.data?.runId;
+    const run = await this.workflowManager.getRun(runId);
+    if (
+      !run ||
+      !hasPermission(identity, `workflow:execute:${run.workflowName}`)
+    ) {
+      throw new ProtocolError("NOT_FOUND", `Workflow run ${runId} not found`);
+    }
+    this.sendSuccess(sessionId, message.id, run);
   }
 
   private async handleWorkflowCreation(
     message: WebSocketMessage,
     sessionId: string
   ) {
+    let workflowId: string;
+    try {
+      workflowId = this.workflowManager.createWorkflow(
+        validateWorkflowDefinition(message.data)
+      );
+    } catch (error: any) {
+      throw toProtocolError(
+        error,
+        error instanceof WorkflowConflictError ? "CONFLICT" : "INVALID_REQUEST"
+      );
+    }
+    this.sendSuccess(sessionId, message.id, { workflowId });
+  }
+
+  private handleWorkflowDiff(message: WebSocketMessage, sessionId: string) {
+    const { name, fromVersion, toVersion } = message.data ?? {};
+    let diff: ReturnType<WorkflowManager["diffWorkflowVersions"]>;
     try {
-      const workflowId = this.workflowManager.createWorkflow(message.data);
-      this.sendSuccess(sessionId, { workflowId });
+      diff = this.workflowManager.diffWorkflowVersions(
+        name,
+        fromVersion,
+        toVersion
+      );
     } catch (error: any) {
-      this.sendError(sessionId, error.message);
+      throw toProtocolError(
+        error,
+        /not found/.test(error.message) ? "NOT_FOUND" : "INVALID_REQUEST"
+      );
     }
+    this.sendSuccess(sessionId, message.id, diff);
+  }
+
+  /**
+   * Sends every event of a workflow run to the client as it happens
+   * (WORKFLOW_STARTED, STEP_STARTED, STEP_TOKEN...) and resolves with the run result.
+   */
+  private async streamWorkflowRun(
+    sessionId: string,
+    message: WebSocketMessage,
+    start: (options: IWorkflowExecutionOptions) => Promise<unknown>
+  ): Promise<{ runId: string; output: any }> {
+    let result: { runId: string; output: any };
+    await this.trackRequest(sessionId, message, (request, requestId) =>
+      start({
+        correlationId: requestId,
+        signal: request.controller.signal,
+        onEvent: (event) => {
+          this.webSocketModule.sendMessageToClient(sessionId, {
+            id: message.id,
+            type: event.type,
+            data: event,
+          });
+          if (event.type === "WORKFLOW_STARTED") {
+            request.runId = event.runId;
+          }
+          if (event.type === "WORKFLOW_COMPLETED") {
+            result = { runId: event.runId, output: event.output };
+          }
+        },
+      })
+    );
+    return result;
+  }
+
+  /**
+   * Keeps a request cancellable until `work` settles, `work` waits for its turn
+   * in the execution queue. Errors are rethrown as CANCELLED when the request
+   * was cancelled, as EXECUTION_FAILED otherwise.
+   */
+  private async trackRequest<T>(
+    sessionId: string,
+    message: WebSocketMessage,
+    work: (request: IInFlightRequest, requestId: string) => Promise<T>
+  ): Promise<T> {
+    const requestId = message.id;
+    const requests = this.inFlightRequests.get(sessionId) ?? new Map();
+    if (requests.has(requestId)) {
+      throw new ProtocolError(
+        "INVALID_REQUEST",
+        `Request ${requestId} is already running`
+      );
+    }
+    const request: IInFlightRequest = { controller: new AbortController() };
+    requests.set(requestId, request);
+    this.inFlightRequests.set(sessionId, requests);
+    try {
+      return await this.quotas.schedule(
+        this.quotaKeys.get(sessionId) ?? sessionId,
+        () => work(request, requestId),
+        request.controller.signal
+      );
+    } catch (error: any) {
+      throw toProtocolError(
+        error,
+        request.controller.signal.aborted ? "CANCELLED" : "EXECUTION_FAILED"
+      );
+    } finally {
+      requests.delete(requestId);
+      if (requests.size === 0) this.inFlightRequests.delete(sessionId);
+    }
+  }
+
+  /**
+   * Cancels a running request of the client, by `requestId` or by workflow `runId`.
+   */
+  private handleCancel(message: WebSocketMessage, sessionId: string) {
+    const { requestId, runId } = message.data ?? {};
+    const cancelled = this.cancelRequests(
+      sessionId,
+      (request, id) =>
+        (requestId && id === requestId) || (runId && request.runId === runId),
+      "Cancelled by the client"
+    );
+    if (cancelled.length === 0) {
+      throw new ProtocolError(
+        "NOT_FOUND",
+        `No running request ${requestId ?? runId} to cancel`
+      );
+    }
+    this.sendSuccess(sessionId, message.id, { cancelled });
+  }
+
+  /**
+   * Cancels the running requests of a connection which match the predicate.
+   */
+  private cancelRequests(
+    sessionId: string,
+    predicate: (request: IInFlightRequest, requestId: string) => boolean,
+    reason: string
+  ): string[] {
+    const cancelled: string[] = [];
+    const requests = this.inFlightRequests.get(sessionId) ?? new Map();
+    for (const [requestId, request] of requests) {
+      if (!predicate(request, requestId)) continue;
+      logger.info(`Cancelling request ${requestId}: ${reason}.`);
+      request.controller.abort(new Error(reason));
+      cancelled.push(requestId);
+    }
+    return cancelled;
   }
 
   /**
    * Sends a success response to the client.
    */
-  private sendSuccess(sessionId: string, data: any) {
+  private sendSuccess(sessionId: string, requestId: string, data: any) {
     this.webSocketModule.sendMessageToClient(sessionId, {
+      id: requestId,
       status: "success",
       data,
     });
   }
 
   /**
-   * Sends a stream (as multiple messages) to the client.
+   * Sends a stream (as multiple messages ending with STREAM_END) to the client.
    */
   private async sendSuccessStream(
     sessionId: string,
+    requestId: string,
     stream: IterableReadableStream<string>
   ) {
-    await this.webSocketModule.sendIterableReadableStream(sessionId, stream);
+    await this.webSocketModule.sendIterableReadableStream(sessionId, requestId, stream);
   }
 
   /**
-   * Sends an error response to the client.
+   * Sends an error response with a machine-readable code to the client.
    */
-  private sendError(sessionId: string, message: string) {
+  private sendError(sessionId: string, requestId: string | null, error: any) {
+    const protocolError = toProtocolError(error);
     this.webSocketModule.sendMessageToClient(sessionId, {
+      id: requestId,
       status: "error",
-      message,
+      code: protocolError.code,
+      message: protocolError.message,
+      ...(protocolError instanceof RateLimitedError && {
+        retryAfterMs: protocolError.retryAfterMs,
+      }),
     });
   }
+}
 
-  /**
-   * Generates a session ID (fallback in case none is attached to the WebSocket).
-   */
-  private generateSessionId(): string {
-    return Math.random().toString(36).substring(2, 15);
-  }
+// Anonymous connections without an address are told apart by their id
+function getClientQuotaKey(client: Client): string {
+  return getQuotaKey(client.identity, client.address ?? client.id);
 }
@@ -1,29 +1,50 @@
 import WebSocket, { WebSocketServer } from "ws";
+import { IncomingMessage } from "http";
+import { v4 as uuidv4 } from "uuid";
 import logger from "../utils/Logger";
 import { IterableReadableStream } from "@langchain/core/utils/stream";
+import { IErrorResponse, ServerMessage } from "./WebSocketProtocol";
+import {
+  IAuthenticator,
+  IIdentity,
+  getAuthRequest,
+} from "./auth/Authenticator";
+import { createAuthenticator } from "./auth/AuthenticatorFactory";
 
 export interface WebSocketMessage {
+  // Request id, echoed by every response, stream chunk and event it causes
+  id: string;
   type: string;
   data: any;
 }
 
-interface Client {
+export interface Client {
+  // Connection id, one identity can hold several connections
   id: string;
   ws: WebSocket;
+  identity: IIdentity;
+  // Remote address of the connection
+  address?: string;
 }
 
 export default class WebSocketModule {
   private socket: WebSocketServer | null = null;
   private clients: Client[] = [];
+  private closeListeners: ((client: Client) => void)[] = [];
+  // Identities of upgrade requests which passed authentication
+  private readonly identities = new WeakMap<IncomingMessage, IIdentity>();
 
-  constructor(private port: number) {}
+  constructor(
+    private port: number,
+    private readonly authenticator: IAuthenticator = createAuthenticator()
+  ) {}
 
   /**
    * Initializes the WebSocket server.
    * @param customCallback Optional callback to handle incoming messages.
    */
   public initializeWebSocket(
-    customCallback?: (message: WebSocketMessage, ws: WebSocket) => void
+    customCallback?: (message: WebSocketMessage, client: Client) => void
   ) {
     if (this.socket) {
       logger.warn("WebSocket server is already initialized.");
@@ -31,7 +52,27 @@ export default class WebSocketModule {
     }
 
     try {
-      this.socket = new WebSocketServer({ port: this.port });
+      this.socket = new WebSocketServer({
+        port: this.port,
+        // Connections are authenticated before the upgrade, rejected ones get a 401
+        verifyClient: ({ req }, callback) => {
+          this.authenticator.authenticate(getAuthRequest(req)).then(
+            (identity) => {
+              if (!identity) {
+                logger.warn("WebSocket connection is rejected: not authenticated.");
+                callback(false, 401, "Unauthorized");
+                return;
+              }
+              this.identities.set(req, identity);
+              callback(true);
+            },
+            (error) => {
+              logger.error("WebSocket authentication error:", error);
+              callback(false, 500, "Authentication failed");
+            }
+          );
+        },
+      });
     } catch (error) {
       logger.error("Error creating WebSocket server:", error);
       return;
@@ -52,22 +93,35 @@ export default class WebSocketModule {
     });
 
     // Handle new client connections
-    this.socket.on("connection", (ws: WebSocket) => {
-      logger.log("WebSocket client connected.");
+    this.socket.on("connection", (ws: WebSocket, request: IncomingMessage) => {
+      const identity = this.identities.get(request);
+      this.identities.delete(request);
+      logger.log(`WebSocket client ${identity.id} connected.`);
 
-      // Generate a simple client ID (consider using a robust method like UUID for production)
-      const clientId = Math.random().toString(36).substring(7);
-      (ws as any).clientId = clientId; // Attach clientId to the ws object
-      this.clients.push({ id: clientId, ws });
+      const clientId = uuidv4();
+      const client: Client = {
+        id: clientId,
+        ws,
+        identity,
+        address: request.socket.remoteAddress,
+      };
+      this.clients.push(client);
 
       // Handle incoming messages
       ws.on("message", (message: WebSocket.Data) => {
         logger.log("Received message:", message.toString());
         try {
           const parsedMessage = JSON.parse(message.toString()) as WebSocketMessage;
-          this.handleWebSocketMessage(parsedMessage, ws, customCallback);
+          this.handleWebSocketMessage(parsedMessage, client, customCallback);
         } catch (error) {
           logger.error("Error parsing incoming WebSocket message:", error);
+          const response: IErrorResponse = {
+            id: null,
+            status: "error",
+            code: "INVALID_MESSAGE",
+            message: "Message is not valid JSON",
+          };
+          this.sendMessageToClient(clientId, response);
         }
       });
 
@@ -79,43 +133,59 @@ export default class WebSocketModule {
         logger.log("Client disconnected.");
         // Remove the client from the tracked clients list
         this.clients = this.clients.filter((client) => client.ws !== ws);
+        for (const listener of this.closeListeners) {
+          listener(client);
+        }
       });
     });
   }
 
   /**
-   * Sends an IterableReadableStream to the specified client.
+   * Registers a listener called with the client when a client disconnects.
+   * @param listener The listener to call.
+   */
+  public onClientClose(listener: (client: Client) => void) {
+    this.closeListeners.push(listener);
+  }
+
+  /**
+   * Sends an IterableReadableStream to the specified client as STREAM_CHUNK
+   * messages followed by a STREAM_END, all tagged with the request id.
+   * Errors of the stream are rethrown, no STREAM_END is sent then.
    * @param sessionId The client's session id.
+   * @param requestId The id of the request the stream answers.
    * @param stream The stream to send.
    */
   public async sendIterableReadableStream(
     sessionId: string,
+    requestId: string,
     stream: IterableReadableStream<string>
   ) {
-    if (!stream) return;
     const client = this.clients.find((c) => c.id === sessionId);
     if (!client) {
       throw new Error(`Client with sessionId ${sessionId} not found`);
     }
 
     try {
-      for await (const chunk of stream) {
+      for await (const chunk of stream ?? []) {
         this.sendMessageToClient(sessionId, {
+          id: requestId,
           type: "STREAM_CHUNK",
           data: chunk,
         });
       }
-      // Optionally, signal the end of the stream here.
     } catch (error) {
       logger.error("Error sending stream data:", error);
+      throw error;
     }
+    this.sendMessageToClient(sessionId, { id: requestId, type: "STREAM_END" });
   }
 
   /**
    * Sends a message to all connected clients.
    * @param message The message object to send.
    */
-  public sendMessageToClients(message: any) {
+  public sendMessageToClients(message: ServerMessage) {
     if (this.socket) {
       for (const client of this.socket.clients) {
         if (client.readyState === WebSocket.OPEN) {
@@ -130,7 +200,7 @@ export default class WebSocketModule {
    * @param sessionId The client's session id.
    * @param message The message object to send.
    */
-  public sendMessageToClient(sessionId: string, message: any) {
+  public sendMessageToClient(sessionId: string, message: ServerMessage) {
     const client = this.clients.find((c) => c.id === sessionId);
     if (client && client.ws.readyState === WebSocket.OPEN) {
       client.ws.send(JSON.stringify(message));
@@ -156,18 +226,18 @@ export default class WebSocketModule {
   /**
    * Handles incoming messages from clients.
    * @param message The incoming WebSocket message.
-   * @param ws The WebSocket connection from which the message came.
+   * @param client The client from which the message came.
    * @param customCallback Optional custom callback to handle messages.
    */
   private handleWebSocketMessage(
     message: WebSocketMessage,
-    ws: WebSocket,
-    customCallback?: (message: WebSocketMessage, ws: WebSocket) => void
+    client: Client,
+    customCallback?: (message: WebSocketMessage, client: Client) => void
   ) {
     logger.log("Handling WebSocket message:", message);
     if (customCallback) {
       logger.log("Using custom callback to handle message.");
-      customCallback(message, ws);
+      customCallback(message, client);
     } else {
       // Default handling for messages without a custom callback.
       switch (message.type) {
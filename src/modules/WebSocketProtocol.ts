@@ -0,0 +1,172 @@
+import { IIdentity } from "./auth/Authenticator";
+
+/**
+ * Messages exchanged with socket clients.
+ *
+ * Every request carries an `id`, every response, stream chunk, end of stream
+ * and workflow event caused by the request echoes it. A client can start with
+ * a `HELLO` request to negotiate the protocol version and learn the
+ * capabilities of the server.
+ */
+
+export const PROTOCOL_VERSION = 1;
+export const SUPPORTED_PROTOCOL_VERSIONS = [PROTOCOL_VERSION];
+
+export const REQUEST_TYPES = [
+  "HELLO",
+  "EXECUTE_TOOL",
+  "CREATE_WORKFLOW",
+  "EXECUTE_WORKFLOW",
+  "RESUME_WORKFLOW",
+  "LIST_WORKFLOW_RUNS",
+  "GET_WORKFLOW_RUN",
+  "CANCEL",
+  "DIFF_WORKFLOW_VERSIONS",
+  "LIST_TOOLS",
+  "GET_TOOL",
+  "LIST_WORKFLOWS",
+  "GET_WORKFLOW",
+  "DELETE_WORKFLOW",
+  "CHAT",
+];
+
+// --- Interfaces ---
+export type ErrorCode =
+  // The message is not JSON or has no `id`/`type`
+  | "INVALID_MESSAGE"
+  | "UNSUPPORTED_MESSAGE_TYPE"
+  | "UNSUPPORTED_PROTOCOL_VERSION"
+  // The `data` of the request is invalid
+  | "INVALID_REQUEST"
+  | "NOT_FOUND"
+  // The workflow version is already registered with another definition
+  | "CONFLICT"
+  // HTTP only, sockets without credentials are refused at connect time
+  | "UNAUTHORIZED"
+  // The identity of the client lacks the permission
+  | "FORBIDDEN"
+  // Too many messages or executions, retry after `retryAfterMs`
+  | "RATE_LIMITED"
+  | "CANCELLED"
+  // The tool or workflow failed
+  | "EXECUTION_FAILED"
+  | "INTERNAL_ERROR";
+
+export interface IHelloRequest {
+  // Versions the client speaks, the highest one supported by both is used
+  protocolVersions?: number[];
+}
+
+export interface IHelloResponse {
+  protocolVersion: number;
+  // Identity the connection was authenticated as
+  identity: { id: string; permissions: string[] };
+  capabilities: {
+    requestTypes: string[];
+    streaming: boolean;
+    cancellation: boolean;
+    workflowEvents: boolean;
+  };
+}
+
+export interface ISuccessResponse<T = any> {
+  id: string | null;
+  status: "success";
+  data: T;
+}
+
+export interface IErrorResponse {
+  // `null` when the request id could not be read
+  id: string | null;
+  status: "error";
+  code: ErrorCode;
+  message: string;
+  // RATE_LIMITED: milliseconds to wait before retrying
+  retryAfterMs?: number;
+}
+
+export interface IStreamChunk {
+  id: string;
+  type: "STREAM_CHUNK";
+  data: string;
+}
+
+export interface IStreamEnd {
+  id: string;
+  type: "STREAM_END";
+}
+
+export interface IEventMessage<T = any> {
+  id: string;
+  type: string;
+  data: T;
+}
+
+export type ServerMessage =
+  ISuccessResponse | IErrorResponse | IStreamChunk | IStreamEnd | IEventMessage;
+
+export class ProtocolError extends Error {
+  constructor(
+    readonly code: ErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = "ProtocolError";
+  }
+}
+
+export class RateLimitedError extends ProtocolError {
+  constructor(
+    message: string,
+    readonly retryAfterMs: number
+  ) {
+    super("RATE_LIMITED", message);
+    this.name = "RateLimitedError";
+  }
+}
+
+/**
+ * Wraps an error into a `ProtocolError`, keeping the code of protocol errors.
+ */
+export function toProtocolError(
+  error: any,
+  fallbackCode: ErrorCode = "INTERNAL_ERROR"
+): ProtocolError {
+  if (error instanceof ProtocolError) return error;
+  return new ProtocolError(fallbackCode, error?.message ?? String(error));
+}
+
+/**
+ * Picks the highest protocol version spoken by both sides.
+ */
+export function negotiateProtocolVersion(request: IHelloRequest = {}): number {
+  const requested = request.protocolVersions ?? [PROTOCOL_VERSION];
+  const version = Math.max(
+    ...requested.filter((candidate) =>
+      SUPPORTED_PROTOCOL_VERSIONS.includes(candidate)
+    )
+  );
+  if (!Number.isFinite(version)) {
+    throw new ProtocolError(
+      "UNSUPPORTED_PROTOCOL_VERSION",
+      `None of the protocol versions ${requested.join(", ")} is supported, supported versions: ${SUPPORTED_PROTOCOL_VERSIONS.join(", ")}`
+    );
+  }
+  return version;
+}
+
+export function createHelloResponse(
+  request: IHelloRequest | undefined,
+  identity: IIdentity
+): IHelloResponse {
+  return {
+    protocolVersion: negotiateProtocolVersion(request),
+    identity: { id: identity.id, permissions: identity.permissions },
+    capabilities: {
+      requestTypes: [...REQUEST_TYPES],
+      streaming: true,
+      cancellation: true,
+      workflowEvents: true,
+    },
+  };
+}
@@ -1,81 +1,397 @@
 import { IterableReadableStream } from "@langchain/core/utils/stream";
-import { ToolRegistry, IWorkflow, IWorkflowStep } from "./aiTools/ToolRegistry";
+import {
+  ToolRegistry,
+  IWorkflow,
+  IWorkflowStep,
+  IToolExecutionContext,
+} from "./aiTools/ToolRegistry";
 import { ToolExecutor } from "./aiTools/ToolExecutor";
+import {
+  IWorkflowGraphNode,
+  buildWorkflowGraph,
+  getSinkNodes,
+  getSwitchTargets,
+  runWorkflowGraph,
+} from "./WorkflowGraph";
+import {
+  evaluateCondition,
+  evaluateExpression,
+  parseCondition,
+} from "./WorkflowConditions";
 import logger from "../utils/Logger";
 import { convertResponseToStream } from "../utils/Stream";
+import { retryWithBackoff, withTimeout } from "../utils/Retry";
+import {
+  IWorkflowDiff,
+  diffWorkflows,
+  isValidVersion,
+} from "./WorkflowVersions";
+import { v4 as uuidv4 } from "uuid";
+import {
+  IWorkflowRun,
+  IWorkflowRunFilter,
+  IWorkflowRunStore,
+  IWorkflowStepRun,
+  IWorkflowStepState,
+} from "../database/runStores/WorkflowRunStore";
+import { createWorkflowRunStore } from "../database/runStores/WorkflowRunStoreFactory";
+import { IWorkflowEvent, WorkflowEventListener } from "./WorkflowEvents";
+
+interface IStepError {
+  index: number;
+  message: string;
+}
+
+export interface IWorkflowExecutionOptions {
+  // Id of the persisted run, generated when omitted
+  runId?: string;
+  // Copied to every event of the run
+  correlationId?: string;
+  // Receives the progress events of the run, including streamed tokens
+  onEvent?: WorkflowEventListener;
+  // Cancels the run, running tools are aborted and no further step starts
+  signal?: AbortSignal;
+}
+
+interface IStepHooks {
+  onToken?: (token: string, itemIndex?: number) => void;
+  signal?: AbortSignal;
+}
 
 export class WorkflowManager {
+  // Serializes run store writes, so a slower write never overwrites a newer one
+  private runSaves: Promise<void> = Promise.resolve();
+
   constructor(
     private readonly toolRegistry: ToolRegistry,
-    private readonly toolExecutor: ToolExecutor
+    private readonly toolExecutor: ToolExecutor,
+    private readonly runStore: IWorkflowRunStore = createWorkflowRunStore()
   ) {}
 
   async executeWorkflow(
     workflowId: string,
-    initialInput: any
+    initialInput: any,
+    options: IWorkflowExecutionOptions = {}
   ): Promise<IterableReadableStream<string>> {
     const workflow = this.toolRegistry.getWorkflow(workflowId);
     if (!workflow) throw new Error(`Workflow ${workflowId} not found`);
 
-    let currentOutput = { input: initialInput, output: null };
+    const run: IWorkflowRun = {
+      id: options.runId ?? uuidv4(),
+      workflowId,
+      workflowName: workflow.name,
+      workflowVersion: workflow.version,
+      status: "running",
+      input: initialInput,
+      prunedSteps: [],
+      steps: {},
+      startedAt: new Date().toISOString(),
+      resumeCount: 0,
+    };
+    return this.runWorkflow(workflow, run, options);
+  }
+
+  /**
+   * Runs a failed or cancelled run again from its failed step, steps which
+   * already completed are not executed again and keep their outputs.
+   */
+  async resumeWorkflow(
+    runId: string,
+    options: Omit<IWorkflowExecutionOptions, "runId"> = {}
+  ): Promise<IterableReadableStream<string>> {
+    const run = await this.runStore.getRun(runId);
+    if (!run) throw new Error(`Workflow run ${runId} not found`);
+    if (run.status !== "failed" && run.status !== "cancelled") {
+      throw new Error(
+        `Workflow run ${runId} is ${run.status}, only failed or cancelled runs can be resumed`
+      );
+    }
+    const workflow = this.toolRegistry.getWorkflow(run.workflowId);
+    if (!workflow) throw new Error(`Workflow ${run.workflowId} not found`);
+
+    for (const [id, stepRun] of Object.entries(run.steps)) {
+      if (!stepRun.state) delete run.steps[id]; // Failed or interrupted
+    }
+    logger.info(
+      `Resuming workflow run ${runId} (${Object.keys(run.steps).length} steps already done).`
+    );
+    return this.runWorkflow(
+      workflow,
+      {
+        ...run,
+        status: "running",
+        error: undefined,
+        failedStep: undefined,
+        finishedAt: undefined,
+        resumeCount: run.resumeCount + 1,
+      },
+      options
+    );
+  }
+
+  getRun(runId: string): Promise<IWorkflowRun | undefined> {
+    return this.runStore.getRun(runId);
+  }
+
+  listRuns(filter?: IWorkflowRunFilter): Promise<IWorkflowRun[]> {
+    return this.runStore.listRuns(filter);
+  }
+
+  private async runWorkflow(
+    workflow: IWorkflow,
+    run: IWorkflowRun,
+    options: IWorkflowExecutionOptions
+  ): Promise<IterableReadableStream<string>> {
+    const nodes = buildWorkflowGraph(workflow.steps);
+    const initialInput = run.input;
+    const states = new Map<string, IWorkflowStepState>();
+    const prunedSteps = new Set<string>(run.prunedSteps);
     const executionContext = {};
 
-    for (const [index, step] of workflow.steps.entries()) {
-      try {
-        if (this.requiresArrayProcessing(step)) {
-          const array = this.extractArrayFromOutput(currentOutput, step);
-          const results = await this.processArrayStep(
-            step,
-            array,
-            currentOutput,
-            executionContext,
-            index
-          );
-          executionContext[`step_${index}`] = {
-            input: currentOutput.input,
-            output: results,
-          };
-          currentOutput = {
-            input: { ...initialInput, ...currentOutput.input, ...results }, // Preserve initial input and merge results
-            output: results,
-          };
-        } else {
-          const mappedInput = this.prepareStepInput(
-            step,
-            currentOutput,
-            executionContext
-          );
-          const toolOutput = await this.toolExecutor.executeToolWithJsonOutput(
-            step.toolName,
-            { ...initialInput, ...currentOutput.input, ...mappedInput } // Preserve initial input and merge mapped input
-          );
-          executionContext[`step_${index}`] = {
-            input: mappedInput,
-            output: toolOutput,
-          };
-          currentOutput = {
-            input: { ...initialInput, ...currentOutput.input, ...toolOutput }, // Preserve initial input and merge tool output
-            output: toolOutput,
+    // Steps done by an earlier attempt of this run
+    for (const [id, stepRun] of Object.entries(run.steps)) {
+      states.set(id, stepRun.state);
+      if (stepRun.context !== undefined) executionContext[id] = stepRun.context;
+    }
+    this.saveRun(run);
+
+    const emit = (
+      event: Omit<IWorkflowEvent, "runId" | "workflowId" | "timestamp">
+    ) => this.emitEvent(run, options, event);
+    emit({ type: "WORKFLOW_STARTED" });
+
+    try {
+      await runWorkflowGraph(
+        nodes,
+        this.getMaxConcurrency(workflow),
+        async (node) => {
+          if (states.has(node.id)) return;
+          options.signal?.throwIfAborted();
+          const { index, step } = node;
+          const stepEvent = {
+            stepId: node.id,
+            stepIndex: index,
+            toolName: step.toolName,
           };
+          const stepRun = this.startStepRun(run, node);
+          emit({ type: "STEP_STARTED", ...stepEvent });
+          try {
+            const state = await this.executeNode(
+              workflow,
+              node,
+              states,
+              prunedSteps,
+              executionContext,
+              initialInput,
+              {
+                onToken: (token, itemIndex) =>
+                  emit({ type: "STEP_TOKEN", ...stepEvent, token, itemIndex }),
+                signal: options.signal,
+              }
+            );
+            states.set(node.id, state);
+            run.prunedSteps = Array.from(prunedSteps);
+            this.finishStepRun(run, stepRun, {
+              status: state.status,
+              state,
+              context: executionContext[node.id],
+            });
+            emit({
+              type: "STEP_COMPLETED",
+              ...stepEvent,
+              status: state.status,
+              output: executionContext[node.id]?.output,
+            });
+          } catch (error: any) {
+            if (options.signal?.aborted) {
+              this.finishStepRun(run, stepRun, { status: "cancelled" });
+              throw error;
+            }
+            emit({ type: "STEP_FAILED", ...stepEvent, error: error.message });
+            logger.error(
+              `Error in workflow step ${index} (${step.toolName}):`,
+              error
+            );
+            this.finishStepRun(run, stepRun, {
+              status: "failed",
+              error: error.message,
+            });
+            run.failedStep = run.failedStep ?? node.id;
+            throw new Error(
+              `Workflow execution failed at step ${index}: ${error.message}`
+            );
+          }
         }
-      } catch (error: any) {
-        logger.error(
-          `Error in workflow step ${index} (${step.toolName}):`,
-          error
-        );
-        throw new Error(
-          `Workflow execution failed at step ${index}: ${error.message}`
-        );
+      );
+    } catch (error: any) {
+      const cancelled = options.signal?.aborted;
+      run.status = cancelled ? "cancelled" : "failed";
+      run.error = cancelled
+        ? `Workflow run ${run.id} was cancelled`
+        : error.message;
+      run.finishedAt = new Date().toISOString();
+      await this.saveRun(run);
+      emit({
+        type: cancelled ? "WORKFLOW_CANCELLED" : "WORKFLOW_FAILED",
+        error: run.error,
+      });
+      throw Object.assign(cancelled ? new Error(run.error) : error, {
+        runId: run.id,
+      });
+    }
+
+    run.status = "completed";
+    run.output = this.getWorkflowOutput(nodes, states);
+    run.finishedAt = new Date().toISOString();
+    await this.saveRun(run);
+    emit({ type: "WORKFLOW_COMPLETED", output: run.output });
+    return convertResponseToStream(run.output);
+  }
+
+  /**
+   * Sends an event to the listener of the run, a failing listener never fails the run.
+   */
+  private emitEvent(
+    run: IWorkflowRun,
+    options: IWorkflowExecutionOptions,
+    event: Omit<IWorkflowEvent, "runId" | "workflowId" | "timestamp">
+  ) {
+    if (!options.onEvent) return;
+    try {
+      options.onEvent({
+        ...event,
+        runId: run.id,
+        workflowId: run.workflowId,
+        correlationId: options.correlationId,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.warn(`Workflow event listener of run ${run.id} failed:`, error);
+    }
+  }
+
+  /**
+   * Runs a single node: prunes it when no selected branch leads to it, skips
+   * it when its condition is false, evaluates switch steps and executes tools.
+   */
+  private async executeNode(
+    workflow: IWorkflow,
+    node: IWorkflowGraphNode,
+    states: Map<string, IWorkflowStepState>,
+    prunedSteps: Set<string>,
+    executionContext: any,
+    initialInput: any,
+    hooks: IStepHooks = {}
+  ): Promise<IWorkflowStepState> {
+    const { index, step } = node;
+    const currentOutput = this.getDependencyState(node, states, initialInput);
+    if (!currentOutput || prunedSteps.has(node.id)) {
+      logger.info(`Workflow step ${index} is not on the selected branch.`);
+      return { input: {}, output: null, status: "pruned" };
+    }
+    if (
+      step.when &&
+      !evaluateCondition(step.when, (path) =>
+        this.resolveConditionPath(path, currentOutput, executionContext)
+      )
+    ) {
+      logger.info(
+        `Workflow step ${index} is skipped, condition "${step.when}" is false.`
+      );
+      executionContext[node.id] = { skipped: true };
+      return { ...currentOutput, status: "skipped" };
+    }
+    if (step.switch) {
+      for (const target of this.selectBranch(
+        node,
+        currentOutput,
+        executionContext
+      )) {
+        prunedSteps.add(target);
       }
+      return { ...currentOutput, status: "completed" };
     }
+    return this.executeStep(
+      workflow,
+      node,
+      currentOutput,
+      executionContext,
+      initialInput,
+      hooks
+    );
+  }
+
+  private startStepRun(
+    run: IWorkflowRun,
+    node: IWorkflowGraphNode
+  ): IWorkflowStepRun {
+    const stepRun: IWorkflowStepRun = {
+      id: node.id,
+      index: node.index,
+      toolName: node.step.toolName,
+      status: "running",
+      startedAt: new Date().toISOString(),
+    };
+    run.steps[node.id] = stepRun;
+    this.saveRun(run);
+    return stepRun;
+  }
+
+  private finishStepRun(
+    run: IWorkflowRun,
+    stepRun: IWorkflowStepRun,
+    result: Partial<IWorkflowStepRun>
+  ) {
+    const finishedAt = new Date();
+    Object.assign(stepRun, result, {
+      finishedAt: finishedAt.toISOString(),
+      durationMs: finishedAt.getTime() - Date.parse(stepRun.startedAt),
+    });
+    this.saveRun(run);
+  }
 
-    return convertResponseToStream(currentOutput.output);
+  /**
+   * Queues a snapshot of the run, failing writes are logged and do not fail the workflow.
+   */
+  private saveRun(run: IWorkflowRun): Promise<void> {
+    const snapshot: IWorkflowRun = JSON.parse(JSON.stringify(run));
+    this.runSaves = this.runSaves
+      .then(() => this.runStore.saveRun(snapshot))
+      .catch((error) => {
+        logger.error(`Workflow run ${run.id} could not be saved:`, error);
+      });
+    return this.runSaves;
   }
 
   createWorkflow(workflow: Omit<IWorkflow, "id">): string {
+    buildWorkflowGraph(workflow.steps); // Throws on unknown dependencies and cycles
+    if (
+      workflow.maxConcurrency !== undefined &&
+      !(
+        Number.isInteger(workflow.maxConcurrency) && workflow.maxConcurrency > 0
+      )
+    ) {
+      throw new Error("Workflow maxConcurrency must be a positive integer");
+    }
+    if (workflow.version !== undefined && !isValidVersion(workflow.version)) {
+      throw new Error(
+        `Invalid workflow version ${workflow.version}, expected a semantic version like 1.0.0`
+      );
+    }
     for (const step of workflow.steps) {
+      if (step.when) parseCondition(step.when); // Throws on invalid conditions
+      if (step.switch) {
+        if (step.toolName) {
+          throw new Error(
+            `Switch step can not execute a tool (${step.toolName})`
+          );
+        }
+        parseCondition(step.switch.on);
+        continue;
+      }
       const tool = this.toolRegistry.getTool(step.toolName);
       if (!tool) throw new Error(`Tool ${step.toolName} not found in registry`);
+      this.validateStepPolicy(step);
       if (step.inputMapping) {
         for (const targetKey of Object.keys(step.inputMapping)) {
           if (!tool.inputSchema.properties?.[targetKey]) {
@@ -89,8 +405,183 @@ export class WorkflowManager {
     return this.toolRegistry.createWorkflow(workflow);
   }
 
+  /**
+   * Compares two registered versions of a workflow, `toVersion` defaults to the latest.
+   */
+  diffWorkflowVersions(
+    name: string,
+    fromVersion: string,
+    toVersion = "latest"
+  ): IWorkflowDiff {
+    const from = this.toolRegistry.getWorkflowByName(name, fromVersion);
+    const to = this.toolRegistry.getWorkflowByName(name, toVersion);
+    if (!from) throw new Error(`Workflow ${name}@${fromVersion} not found`);
+    if (!to) throw new Error(`Workflow ${name}@${toVersion} not found`);
+    return diffWorkflows(from, to);
+  }
+
+  deleteWorkflow(workflowId: string): boolean {
+    return this.toolRegistry.deleteWorkflow(workflowId);
+  }
+
+  private async executeStep(
+    workflow: IWorkflow,
+    node: IWorkflowGraphNode,
+    currentOutput: IWorkflowStepState,
+    executionContext: any,
+    initialInput: any,
+    hooks: IStepHooks = {}
+  ): Promise<IWorkflowStepState> {
+    const { id, index, step } = node;
+
+    if (this.requiresArrayProcessing(step)) {
+      const array = this.extractArrayFromOutput(currentOutput, step);
+      const { results, errors } = await this.processArrayStep(
+        workflow,
+        step,
+        array,
+        currentOutput,
+        executionContext,
+        index,
+        hooks
+      );
+      executionContext[id] = {
+        input: currentOutput.input,
+        output: results,
+        ...(errors.length > 0 && { errors }),
+      };
+      return {
+        input: { ...initialInput, ...currentOutput.input, ...results }, // Preserve initial input and merge results
+        output: results,
+        status: "completed",
+      };
+    }
+
+    const mappedInput = this.prepareStepInput(
+      step,
+      currentOutput,
+      executionContext
+    );
+    const toolOutput = await this.executeStepTool(
+      workflow,
+      step,
+      { ...initialInput, ...currentOutput.input, ...mappedInput }, // Preserve initial input and merge mapped input
+      hooks
+    );
+    executionContext[id] = {
+      input: mappedInput,
+      output: toolOutput,
+    };
+    return {
+      input: { ...initialInput, ...currentOutput.input, ...toolOutput }, // Preserve initial input and merge tool output
+      output: toolOutput,
+      status: "completed",
+    };
+  }
+
+  /**
+   * Evaluates a switch step and returns the ids of the steps it did not select.
+   */
+  private selectBranch(
+    node: IWorkflowGraphNode,
+    currentOutput: IWorkflowStepState,
+    executionContext: any
+  ): string[] {
+    const { on, cases, default: defaultSteps = [] } = node.step.switch;
+    const value = evaluateExpression(on, (path) =>
+      this.resolveConditionPath(path, currentOutput, executionContext)
+    );
+    const selectedCase = Object.keys(cases).find(
+      (caseValue) => caseValue === String(value)
+    );
+    const selectedSteps = selectedCase ? cases[selectedCase] : defaultSteps;
+
+    logger.info(
+      `Workflow switch ${node.id} selected ${selectedCase ?? "default"} (${value}).`
+    );
+    executionContext[node.id] = {
+      input: { on: value },
+      output: { case: selectedCase ?? null, steps: selectedSteps },
+    };
+    return getSwitchTargets(node.step).filter(
+      (target) => !selectedSteps.includes(target)
+    );
+  }
+
+  /**
+   * Resolves a path for conditions, missing values resolve to undefined instead of throwing.
+   */
+  private resolveConditionPath(
+    path: string,
+    currentOutput: IWorkflowStepState,
+    executionContext: any
+  ): any {
+    try {
+      return this.resolvePath(path, currentOutput, executionContext);
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  /**
+   * Builds the state a step starts from: the merged inputs of its dependencies,
+   * and their output (keyed by step id when the step has several dependencies).
+   * Returns null when every dependency was pruned by a switch.
+   */
+  private getDependencyState(
+    node: IWorkflowGraphNode,
+    states: Map<string, IWorkflowStepState>,
+    initialInput: any
+  ): IWorkflowStepState {
+    if (node.dependsOn.length === 0) {
+      return { input: initialInput, output: null, status: "completed" };
+    }
+    const dependencies = node.dependsOn.filter(
+      (id) => states.get(id).status !== "pruned"
+    );
+    if (dependencies.length === 0) return null;
+
+    return {
+      input: Object.assign(
+        {},
+        initialInput,
+        ...dependencies.map((id) => states.get(id).input)
+      ),
+      output:
+        dependencies.length === 1
+          ? states.get(dependencies[0]).output
+          : Object.fromEntries(
+              dependencies.map((id) => [id, states.get(id).output])
+            ),
+      status: "completed",
+    };
+  }
+
+  /**
+   * Returns the output of the last step, or the outputs of every final step keyed by step id.
+   */
+  private getWorkflowOutput(
+    nodes: IWorkflowGraphNode[],
+    states: Map<string, IWorkflowStepState>
+  ): any {
+    const sinks = getSinkNodes(nodes).filter(
+      (node) => states.get(node.id).status !== "pruned"
+    );
+    if (sinks.length === 1) return states.get(sinks[0].id).output;
+    return Object.fromEntries(
+      sinks.map((node) => [node.id, states.get(node.id).output])
+    );
+  }
+
+  private getMaxConcurrency(workflow: IWorkflow): number {
+    return (
+      workflow.maxConcurrency ??
+      (Number(process.env.WORKFLOW_MAX_CONCURRENCY) || 4)
+    );
+  }
+
   private requiresArrayProcessing(step: IWorkflowStep): boolean {
-    return Object.values(step.inputMapping).some(
+    return Object.values(step.inputMapping || {}).some(
       (path) => typeof path === "string" && path.includes("$index")
     );
   }
@@ -110,27 +601,130 @@ export class WorkflowManager {
   }
 
   private async processArrayStep(
+    workflow: IWorkflow,
     step: IWorkflowStep,
     array: any[],
     currentOutput: any,
     executionContext: any,
-    stepIndex: number
-  ): Promise<any[]> {
+    stepIndex: number,
+    hooks: IStepHooks = {}
+  ): Promise<{ results: any[]; errors: IStepError[] }> {
     const results = [];
+    const errors: IStepError[] = [];
     for (let i = 0; i < array.length; i++) {
-      const mappedInput = this.prepareStepInput(
-        step,
-        currentOutput,
-        executionContext,
-        i
+      try {
+        const mappedInput = this.prepareStepInput(
+          step,
+          currentOutput,
+          executionContext,
+          i
+        );
+        results.push(
+          await this.executeStepTool(workflow, step, mappedInput, {
+            ...hooks,
+            onToken: hooks.onToken && ((token) => hooks.onToken(token, i)),
+          })
+        );
+      } catch (error: any) {
+        if (!step.continueOnError || hooks.signal?.aborted) throw error;
+        logger.warn(
+          `Workflow step ${stepIndex} failed for item ${i}, continuing:`,
+          error.message
+        );
+        results.push(null);
+        errors.push({ index: i, message: error.message });
+      }
+    }
+    return { results, errors };
+  }
+
+  /**
+   * Executes the tool of a step with the step's retry and timeout policy,
+   * then the fallback tool (same policy) once every attempt failed.
+   */
+  private async executeStepTool(
+    workflow: IWorkflow,
+    step: IWorkflowStep,
+    input: Record<string, any>,
+    hooks: IStepHooks = {}
+  ): Promise<object> {
+    const context = {
+      ...this.getStepExecutionContext(workflow, step),
+      ...hooks,
+    };
+    const execute = (toolName: string) =>
+      retryWithBackoff(
+        () =>
+          withTimeout(
+            // Every attempt has its own signal, a timed out attempt is aborted
+            (signal) =>
+              this.toolExecutor.executeToolWithJsonOutput(toolName, input, {
+                ...context,
+                signal,
+              }),
+            step.timeoutMs,
+            `Tool ${toolName} timed out after ${step.timeoutMs}ms`,
+            hooks.signal
+          ),
+        step.retry,
+        (error, attempt, delayMs) =>
+          logger.warn(
+            `Tool ${toolName} failed (attempt ${attempt}), retrying in ${delayMs}ms:`,
+            error.message
+          ),
+        hooks.signal
       );
-      const toolOutput = await this.toolExecutor.executeToolWithJsonOutput(
-        step.toolName,
-        mappedInput
+
+    try {
+      return await execute(step.toolName);
+    } catch (error: any) {
+      if (!step.fallbackToolName || hooks.signal?.aborted) throw error;
+      logger.warn(
+        `Tool ${step.toolName} failed, falling back to ${step.fallbackToolName}:`,
+        error.message
       );
-      results.push(toolOutput);
+      return execute(step.fallbackToolName);
     }
-    return results;
+  }
+
+  private validateStepPolicy(step: IWorkflowStep) {
+    const { attempts, delayMs, backoffFactor, maxDelayMs } = step.retry ?? {};
+    if (
+      attempts !== undefined &&
+      !(Number.isInteger(attempts) && attempts > 0)
+    ) {
+      throw new Error("Step retry attempts must be a positive integer");
+    }
+    for (const [name, value] of Object.entries({
+      delayMs,
+      backoffFactor,
+      maxDelayMs,
+      timeoutMs: step.timeoutMs,
+    })) {
+      if (value !== undefined && !(value >= 0)) {
+        throw new Error(`Step ${name} must be a non-negative number`);
+      }
+    }
+    if (
+      step.fallbackToolName &&
+      !this.toolRegistry.getTool(step.fallbackToolName)
+    ) {
+      throw new Error(
+        `Fallback tool ${step.fallbackToolName} not found in registry`
+      );
+    }
+    if (step.continueOnError && !this.requiresArrayProcessing(step)) {
+      throw new Error(
+        `continueOnError is only supported by $index steps (${step.toolName})`
+      );
+    }
+  }
+
+  private getStepExecutionContext(
+    workflow: IWorkflow,
+    step: IWorkflowStep
+  ): IToolExecutionContext {
+    return { model: step.model, fallbackModel: workflow.model };
   }
 
   private prepareStepInput(
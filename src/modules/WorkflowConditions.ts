@@ -0,0 +1,216 @@
+/**
+ * Small expression language used by workflow `when` conditions and `switch` steps.
+ *
+ * Supports paths (`input.*`, `output.*`, `context.*`), string, number, boolean and
+ * null literals, the comparison operators `== != < <= > >=`, `&&`, `||`, `!` and
+ * parentheses, e.g. `output.meta.language != 'en' && output.score < 0.7`.
+ */
+
+// --- Interfaces ---
+export type ConditionNode =
+  | { type: "literal"; value: any }
+  | { type: "path"; path: string }
+  | { type: "not"; operand: ConditionNode }
+  | {
+      type: "binary";
+      operator: string;
+      left: ConditionNode;
+      right: ConditionNode;
+    };
+
+interface IToken {
+  type: "literal" | "path" | "operator" | "paren";
+  value: any;
+}
+
+const PATH_PREFIXES = ["input.", "output.", "context."];
+const COMPARISON_OPERATORS = ["==", "!=", "<=", ">=", "<", ">"];
+
+function tokenize(expression: string): IToken[] {
+  const tokens: IToken[] = [];
+  let i = 0;
+
+  while (i < expression.length) {
+    const char = expression[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (char === "(" || char === ")") {
+      tokens.push({ type: "paren", value: char });
+      i++;
+      continue;
+    }
+
+    const operator = ["&&", "||", ...COMPARISON_OPERATORS, "!"].find((op) =>
+      expression.startsWith(op, i)
+    );
+    if (operator) {
+      tokens.push({ type: "operator", value: operator });
+      i += operator.length;
+      continue;
+    }
+
+    if (char === "'" || char === '"') {
+      const end = expression.indexOf(char, i + 1);
+      if (end === -1) {
+        throw new Error(`Unterminated string in condition: ${expression}`);
+      }
+      tokens.push({ type: "literal", value: expression.slice(i + 1, end) });
+      i = end + 1;
+      continue;
+    }
+
+    const word = expression.slice(i).match(/^[\w.$\[\]-]+/)?.[0];
+    if (!word) {
+      throw new Error(
+        `Unexpected character "${char}" in condition: ${expression}`
+      );
+    }
+    i += word.length;
+
+    if (/^-?\d+(\.\d+)?$/.test(word)) {
+      tokens.push({ type: "literal", value: Number(word) });
+    } else if (word === "true" || word === "false") {
+      tokens.push({ type: "literal", value: word === "true" });
+    } else if (word === "null") {
+      tokens.push({ type: "literal", value: null });
+    } else if (PATH_PREFIXES.some((prefix) => word.startsWith(prefix))) {
+      tokens.push({ type: "path", value: word });
+    } else {
+      throw new Error(
+        `Unknown identifier "${word}" in condition, paths must start with input., output. or context.`
+      );
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Parses a condition expression, throwing on syntax errors.
+ */
+export function parseCondition(expression: string): ConditionNode {
+  const tokens = tokenize(expression);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const isOperator = (...operators: string[]) =>
+    peek()?.type === "operator" && operators.includes(peek().value);
+
+  const parseOr = (): ConditionNode => {
+    let left = parseAnd();
+    while (isOperator("||")) {
+      position++;
+      left = { type: "binary", operator: "||", left, right: parseAnd() };
+    }
+    return left;
+  };
+
+  const parseAnd = (): ConditionNode => {
+    let left = parseNot();
+    while (isOperator("&&")) {
+      position++;
+      left = { type: "binary", operator: "&&", left, right: parseNot() };
+    }
+    return left;
+  };
+
+  const parseNot = (): ConditionNode => {
+    if (isOperator("!")) {
+      position++;
+      return { type: "not", operand: parseNot() };
+    }
+    return parseComparison();
+  };
+
+  const parseComparison = (): ConditionNode => {
+    const left = parseOperand();
+    if (isOperator(...COMPARISON_OPERATORS)) {
+      const operator = tokens[position++].value;
+      return { type: "binary", operator, left, right: parseOperand() };
+    }
+    return left;
+  };
+
+  const parseOperand = (): ConditionNode => {
+    const token = tokens[position++];
+    if (!token) {
+      throw new Error(`Unexpected end of condition: ${expression}`);
+    }
+    if (token.type === "literal")
+      return { type: "literal", value: token.value };
+    if (token.type === "path") return { type: "path", path: token.value };
+    if (token.type === "paren" && token.value === "(") {
+      const node = parseOr();
+      if (tokens[position++]?.value !== ")") {
+        throw new Error(
+          `Missing closing parenthesis in condition: ${expression}`
+        );
+      }
+      return node;
+    }
+    throw new Error(`Unexpected "${token.value}" in condition: ${expression}`);
+  };
+
+  const node = parseOr();
+  if (position < tokens.length) {
+    throw new Error(
+      `Unexpected "${tokens[position].value}" in condition: ${expression}`
+    );
+  }
+  return node;
+}
+
+/**
+ * Evaluates an expression to its value, resolving paths with `resolvePath`.
+ */
+export function evaluateExpression(
+  expression: string | ConditionNode,
+  resolvePath: (path: string) => any
+): any {
+  const node =
+    typeof expression === "string" ? parseCondition(expression) : expression;
+
+  switch (node.type) {
+    case "literal":
+      return node.value;
+    case "path":
+      return resolvePath(node.path);
+    case "not":
+      return !evaluateExpression(node.operand, resolvePath);
+    case "binary": {
+      const left = evaluateExpression(node.left, resolvePath);
+      if (node.operator === "&&") {
+        return left && evaluateExpression(node.right, resolvePath);
+      }
+      if (node.operator === "||") {
+        return left || evaluateExpression(node.right, resolvePath);
+      }
+      const right = evaluateExpression(node.right, resolvePath);
+      switch (node.operator) {
+        case "==":
+          return left == right;
+        case "!=":
+          return left != right;
+        case "<":
+          return left < right;
+        case "<=":
+          return left <= right;
+        case ">":
+          return left > right;
+        case ">=":
+          return left >= right;
+      }
+    }
+  }
+}
+
+export function evaluateCondition(
+  expression: string | ConditionNode,
+  resolvePath: (path: string) => any
+): boolean {
+  return Boolean(evaluateExpression(expression, resolvePath));
+}
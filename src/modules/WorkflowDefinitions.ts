@@ -0,0 +1,160 @@
+import fs from "fs";
+import path from "path";
+import Ajv from "ajv";
+import YAML from "yaml";
+import { IWorkflow } from "./aiTools/ToolRegistry";
+import { WorkflowManager } from "./WorkFlowManager";
+import workflowSchema from "../schemas/workflow.schema.json";
+import logger from "../utils/Logger";
+
+export type WorkflowDefinition = Omit<IWorkflow, "id">;
+
+const ajv = new Ajv({ allowUnionTypes: true });
+const validateSchema = ajv.compile(workflowSchema);
+
+const DEFINITION_EXTENSIONS = [".yaml", ".yml", ".json"];
+
+/**
+ * Validates a workflow definition against `src/schemas/workflow.schema.json`.
+ */
+export function validateWorkflowDefinition(
+  definition: any,
+  source = "workflow definition"
+): WorkflowDefinition {
+  if (!validateSchema(definition)) {
+    throw new Error(
+      `Invalid ${source}: ${ajv.errorsText(validateSchema.errors, {
+        dataVar: "workflow",
+      })}`
+    );
+  }
+  const { $schema, ...workflow } = definition as WorkflowDefinition & {
+    $schema?: string;
+  };
+  return { ...workflow, description: workflow.description ?? "" };
+}
+
+/**
+ * Parses and validates a YAML or JSON workflow definition file.
+ */
+export function parseWorkflowDefinition(
+  content: string,
+  filePath: string
+): WorkflowDefinition {
+  const definition =
+    path.extname(filePath) === ".json"
+      ? JSON.parse(content)
+      : YAML.parse(content);
+  return validateWorkflowDefinition(definition, `workflow file ${filePath}`);
+}
+
+/**
+ * Loads the workflow definitions of a directory and keeps them in sync with
+ * the files: changed files are registered again, deleted files unregistered.
+ * Versions replaced by an edit stay registered for pinned callers and runs
+ * resuming on them, until the file is deleted. Edits need a version bump,
+ * registered versions are immutable. A file which fails to load, e.g. an
+ * edit keeping its version, keeps the previously loaded workflow.
+ */
+export class WorkflowDefinitionLoader {
+  private readonly directory: string;
+  // File path -> ids of the workflow versions it registered
+  private readonly loadedFiles = new Map<string, Set<string>>();
+  private readonly reloadTimers = new Map<string, NodeJS.Timeout>();
+  private watcher?: fs.FSWatcher;
+
+  constructor(
+    private readonly workflowManager: WorkflowManager,
+    directory = process.env.WORKFLOWS_DIR || "workflows"
+  ) {
+    this.directory = path.resolve(directory);
+  }
+
+  /**
+   * Loads every definition of the directory, returns the registered workflow ids.
+   */
+  loadAll(): string[] {
+    if (!fs.existsSync(this.directory)) {
+      logger.info(`Workflows directory ${this.directory} does not exist.`);
+      return [];
+    }
+    const ids: string[] = [];
+    for (const file of fs.readdirSync(this.directory).sort()) {
+      if (!this.isDefinitionFile(file)) continue;
+      const id = this.loadFile(path.join(this.directory, file));
+      if (id) ids.push(id);
+    }
+    logger.info(`${ids.length} workflows are loaded from ${this.directory}.`);
+    return ids;
+  }
+
+  /**
+   * Registers the workflow of a definition file, errors are logged.
+   */
+  loadFile(filePath: string): string | undefined {
+    try {
+      const definition = parseWorkflowDefinition(
+        fs.readFileSync(filePath, "utf8"),
+        filePath
+      );
+      const id = this.workflowManager.createWorkflow(definition);
+      const ids = this.loadedFiles.get(filePath) ?? new Set<string>();
+      this.loadedFiles.set(filePath, ids.add(id));
+      logger.info(`Workflow ${definition.name} is loaded from ${filePath}.`);
+      return id;
+    } catch (error: any) {
+      logger.error(`Workflow file ${filePath} could not be loaded:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Reloads definitions when their files change.
+   */
+  watch() {
+    if (this.watcher || !fs.existsSync(this.directory)) return;
+    this.watcher = fs.watch(this.directory, (_event, file) => {
+      if (file && this.isDefinitionFile(file.toString())) {
+        this.scheduleReload(path.join(this.directory, file.toString()));
+      }
+    });
+    this.watcher.unref(); // Watching alone does not keep the process alive
+    logger.info(`Watching workflows directory ${this.directory}.`);
+  }
+
+  close() {
+    this.watcher?.close();
+    this.watcher = undefined;
+    for (const timer of this.reloadTimers.values()) clearTimeout(timer);
+    this.reloadTimers.clear();
+  }
+
+  // Editors emit several events per save, only the last one is handled
+  private scheduleReload(filePath: string) {
+    clearTimeout(this.reloadTimers.get(filePath));
+    this.reloadTimers.set(
+      filePath,
+      setTimeout(() => {
+        this.reloadTimers.delete(filePath);
+        this.reloadFile(filePath);
+      }, 100)
+    );
+  }
+
+  private reloadFile(filePath: string) {
+    if (fs.existsSync(filePath)) {
+      this.loadFile(filePath);
+      return;
+    }
+    const ids = this.loadedFiles.get(filePath);
+    if (ids) {
+      ids.forEach((id) => this.workflowManager.deleteWorkflow(id));
+      this.loadedFiles.delete(filePath);
+      logger.info(`Workflows of deleted file ${filePath} are unregistered.`);
+    }
+  }
+
+  private isDefinitionFile(file: string): boolean {
+    return DEFINITION_EXTENSIONS.includes(path.extname(file));
+  }
+}
@@ -0,0 +1,33 @@
+// --- Interfaces ---
+export type WorkflowEventType =
+  | "WORKFLOW_STARTED"
+  | "STEP_STARTED"
+  | "STEP_TOKEN"
+  | "STEP_COMPLETED"
+  | "STEP_FAILED"
+  | "WORKFLOW_COMPLETED"
+  | "WORKFLOW_FAILED"
+  | "WORKFLOW_CANCELLED";
+
+export interface IWorkflowEvent {
+  type: WorkflowEventType;
+  runId: string;
+  workflowId: string;
+  // Id of the request which started the run, echoed so clients can match events
+  correlationId?: string;
+  stepId?: string;
+  stepIndex?: number;
+  toolName?: string;
+  // STEP_COMPLETED: completed, skipped or pruned
+  status?: string;
+  // STEP_TOKEN: chunk streamed by the tool, itemIndex is set for $index steps
+  token?: string;
+  itemIndex?: number;
+  // STEP_COMPLETED and WORKFLOW_COMPLETED
+  output?: any;
+  // STEP_FAILED, WORKFLOW_FAILED and WORKFLOW_CANCELLED
+  error?: string;
+  timestamp: string;
+}
+
+export type WorkflowEventListener = (event: IWorkflowEvent) => void;
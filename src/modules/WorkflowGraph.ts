@@ -0,0 +1,177 @@
+import { IWorkflowStep } from "./aiTools/ToolRegistry";
+
+// --- Interfaces ---
+export interface IWorkflowGraphNode {
+  id: string;
+  index: number;
+  step: IWorkflowStep;
+  dependsOn: string[];
+}
+
+/**
+ * Returns the id of a step, `step_<index>` when the step does not declare one.
+ */
+export function getStepId(step: IWorkflowStep, index: number): string {
+  return step.id ?? `step_${index}`;
+}
+
+/**
+ * Resolves the dependency graph of workflow steps.
+ * A step without `dependsOn` depends on the previous step, so workflows
+ * without any `dependsOn` keep running in sequence. `dependsOn: []` marks
+ * a step which can start right away.
+ */
+export function buildWorkflowGraph(
+  steps: IWorkflowStep[]
+): IWorkflowGraphNode[] {
+  const nodes = steps.map((step, index) => ({
+    id: getStepId(step, index),
+    index,
+    step,
+    dependsOn: [
+      ...(step.dependsOn ??
+        (index > 0 ? [getStepId(steps[index - 1], index - 1)] : [])),
+    ],
+  }));
+
+  const ids = new Set<string>();
+  for (const node of nodes) {
+    if (ids.has(node.id)) {
+      throw new Error(`Duplicate workflow step id: ${node.id}`);
+    }
+    ids.add(node.id);
+  }
+
+  // Steps selected by a switch always wait for it
+  for (const node of nodes) {
+    for (const target of getSwitchTargets(node.step)) {
+      const targetNode = nodes.find((candidate) => candidate.id === target);
+      if (!targetNode) {
+        throw new Error(`Switch ${node.id} targets unknown step ${target}`);
+      }
+      if (targetNode === node) {
+        throw new Error(`Switch ${node.id} can not target itself`);
+      }
+      if (!targetNode.dependsOn.includes(node.id)) {
+        targetNode.dependsOn.push(node.id);
+      }
+    }
+  }
+
+  for (const node of nodes) {
+    for (const dependency of node.dependsOn) {
+      if (!ids.has(dependency)) {
+        throw new Error(
+          `Step ${node.id} depends on unknown step ${dependency}`
+        );
+      }
+    }
+  }
+
+  sortWorkflowGraph(nodes);
+  return nodes;
+}
+
+/**
+ * Returns the ids of every step a switch step can select.
+ */
+export function getSwitchTargets(step: IWorkflowStep): string[] {
+  if (!step.switch) return [];
+  return Array.from(
+    new Set([
+      ...Object.values(step.switch.cases ?? {}).flat(),
+      ...(step.switch.default ?? []),
+    ])
+  );
+}
+
+/**
+ * Orders the nodes so every node comes after its dependencies (Kahn's algorithm).
+ * Throws when the dependencies contain a cycle.
+ */
+export function sortWorkflowGraph(
+  nodes: IWorkflowGraphNode[]
+): IWorkflowGraphNode[] {
+  const remaining = new Map(
+    nodes.map((node) => [node.id, new Set(node.dependsOn)])
+  );
+  const sorted: IWorkflowGraphNode[] = [];
+
+  while (remaining.size > 0) {
+    const ready = nodes.filter(
+      (node) => remaining.has(node.id) && remaining.get(node.id).size === 0
+    );
+    if (ready.length === 0) {
+      throw new Error(
+        `Workflow contains a dependency cycle between steps: ${Array.from(
+          remaining.keys()
+        ).join(", ")}`
+      );
+    }
+    for (const node of ready) {
+      remaining.delete(node.id);
+      for (const dependencies of remaining.values()) {
+        dependencies.delete(node.id);
+      }
+      sorted.push(node);
+    }
+  }
+
+  return sorted;
+}
+
+/**
+ * Returns the nodes no other node depends on, their outputs are the workflow result.
+ */
+export function getSinkNodes(
+  nodes: IWorkflowGraphNode[]
+): IWorkflowGraphNode[] {
+  const dependencies = new Set(nodes.flatMap((node) => node.dependsOn));
+  return nodes.filter((node) => !dependencies.has(node.id));
+}
+
+/**
+ * Runs every node once its dependencies are done, with at most
+ * `maxConcurrency` nodes running at the same time. When a node fails no new
+ * node is started, running ones are awaited and the first error is thrown.
+ */
+export async function runWorkflowGraph(
+  nodes: IWorkflowGraphNode[],
+  maxConcurrency: number,
+  runNode: (node: IWorkflowGraphNode) => Promise<void>
+): Promise<void> {
+  const pending = sortWorkflowGraph(nodes);
+  const completed = new Set<string>();
+  const running = new Map<string, Promise<void>>();
+  let failure: Error | null = null;
+
+  while (!failure && (pending.length > 0 || running.size > 0)) {
+    for (const node of [...pending]) {
+      if (running.size >= maxConcurrency) break;
+      if (!node.dependsOn.every((dependency) => completed.has(dependency))) {
+        continue;
+      }
+      pending.splice(pending.indexOf(node), 1);
+      running.set(
+        node.id,
+        runNode(node)
+          .then(() => {
+            completed.add(node.id);
+          })
+          .catch((error) => {
+            failure = failure ?? error;
+          })
+          .finally(() => {
+            running.delete(node.id);
+          })
+      );
+    }
+    if (running.size === 0) {
+      throw new Error("Workflow steps can not be scheduled");
+    }
+    await Promise.race(running.values());
+  }
+
+  await Promise.all(running.values());
+  if (failure) throw failure;
+}
@@ -0,0 +1,112 @@
+import {
+  IWorkflow,
+  IWorkflowStep,
+  redactWorkflow,
+} from "./aiTools/ToolRegistry";
+import { getStepId } from "./WorkflowGraph";
+
+// --- Interfaces ---
+export interface IValueChange {
+  // Dot separated path of the changed value, e.g. `model.temperature`
+  path: string;
+  from: any;
+  to: any;
+}
+
+export interface IWorkflowStepChange {
+  stepId: string;
+  changes: IValueChange[];
+}
+
+export interface IWorkflowDiff {
+  name: string;
+  fromVersion: string;
+  toVersion: string;
+  // Workflow level changes (description, maxConcurrency, model...)
+  changes: IValueChange[];
+  addedSteps: string[];
+  removedSteps: string[];
+  changedSteps: IWorkflowStepChange[];
+}
+
+const SEMVER_PATTERN = /^(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?$/;
+
+export function isValidVersion(version: string): boolean {
+  return SEMVER_PATTERN.test(version);
+}
+
+/**
+ * Compares two semantic versions, a pre-release sorts before its release.
+ */
+export function compareVersions(a: string, b: string): number {
+  const [, ...partsA] = a.match(SEMVER_PATTERN) ?? [];
+  const [, ...partsB] = b.match(SEMVER_PATTERN) ?? [];
+  if (partsA.length === 0 || partsB.length === 0) {
+    throw new Error(`Invalid workflow version: ${partsA.length ? b : a}`);
+  }
+
+  for (let i = 0; i < 3; i++) {
+    const difference = Number(partsA[i]) - Number(partsB[i]);
+    if (difference !== 0) return Math.sign(difference);
+  }
+  const [preA, preB] = [partsA[3], partsB[3]];
+  if (preA === preB) return 0;
+  if (preA === undefined) return 1;
+  if (preB === undefined) return -1;
+  return preA.localeCompare(preB, undefined, { numeric: true });
+}
+
+/**
+ * Lists the differences between two versions of a workflow. Steps are
+ * matched by id, so steps without an explicit id match by position. API keys
+ * are left out, the diff is shown to clients.
+ */
+export function diffWorkflows(from: IWorkflow, to: IWorkflow): IWorkflowDiff {
+  from = redactWorkflow(from);
+  to = redactWorkflow(to);
+  const fromById = getStepsById(from.steps);
+  const toById = getStepsById(to.steps);
+
+  return {
+    name: to.name,
+    fromVersion: from.version,
+    toVersion: to.version,
+    changes: diffValues(getWorkflowFields(from), getWorkflowFields(to)),
+    addedSteps: Array.from(toById.keys()).filter((id) => !fromById.has(id)),
+    removedSteps: Array.from(fromById.keys()).filter((id) => !toById.has(id)),
+    changedSteps: Array.from(toById.keys())
+      .filter((id) => fromById.has(id))
+      .map((stepId) => ({
+        stepId,
+        changes: diffValues(fromById.get(stepId), toById.get(stepId)),
+      }))
+      .filter((step) => step.changes.length > 0),
+  };
+}
+
+function getWorkflowFields(workflow: IWorkflow): Record<string, any> {
+  const { id, version, steps, ...fields } = workflow;
+  return fields;
+}
+
+function getStepsById(steps: IWorkflowStep[]): Map<string, IWorkflowStep> {
+  return new Map(steps.map((step, index) => [getStepId(step, index), step]));
+}
+
+// Objects are compared key by key, anything else (including arrays) as a whole
+function diffValues(from: any, to: any, path = ""): IValueChange[] {
+  if (isPlainObject(from) && isPlainObject(to)) {
+    const keys = Array.from(
+      new Set([...Object.keys(from), ...Object.keys(to)])
+    );
+    return keys.flatMap((key) =>
+      diffValues(from[key], to[key], path ? `${path}.${key}` : key)
+    );
+  }
+  if (JSON.stringify(from) === JSON.stringify(to)) return [];
+  return [{ path, from, to }];
+}
+
+function isPlainObject(value: any): boolean {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
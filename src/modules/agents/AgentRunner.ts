@@ -0,0 +1,279 @@
+import { BaseLanguageModelInterface } from "@langchain/core/language_models/base";
+import {
+  AIMessage,
+  BaseMessage,
+  HumanMessage,
+  SystemMessage,
+  ToolMessage,
+} from "@langchain/core/messages";
+import { v4 as uuidv4 } from "uuid";
+import { ToolExecutor } from "../aiTools/ToolExecutor";
+import {
+  IToolConfig,
+  ToolRegistry,
+  describeTool,
+} from "../aiTools/ToolRegistry";
+import { extractJSON } from "../../utils/JSON";
+import logger from "../../utils/Logger";
+
+// --- Interfaces ---
+export interface IAgentOptions {
+  // Names of the tools the model may call, every registered tool by default
+  tools?: string[];
+  // Model turns before the agent gives up, defaults to AGENT_MAX_ITERATIONS or 5
+  maxIterations?: number;
+  systemPrompt?: string;
+  // `auto` uses native function calling when the model supports it
+  toolCalling?: "auto" | "native" | "text";
+  signal?: AbortSignal;
+  // Called after every iteration, e.g. to stream the progress
+  onStep?: (step: IAgentStep) => void;
+}
+
+export interface IAgentToolCall {
+  toolName: string;
+  arguments: Record<string, any>;
+  // Tool output, or the error fed back to the model
+  output?: string;
+  error?: string;
+}
+
+export interface IAgentStep {
+  iteration: number;
+  // Text the model produced next to its tool calls
+  thought?: string;
+  toolCalls: IAgentToolCall[];
+}
+
+export interface IAgentResult {
+  answer: string;
+  steps: IAgentStep[];
+  // `maxIterations` when the budget ran out before the model answered
+  stoppedBy: "answer" | "maxIterations";
+  toolCalling: "native" | "text";
+}
+
+interface IModelTurn {
+  message: AIMessage;
+  text: string;
+  toolCalls: { id: string; name: string; args: any; error?: string }[];
+}
+
+const DEFAULT_SYSTEM_PROMPT =
+  "You are a helpful assistant. Use the tools when they help to answer the user, then answer the user directly.";
+
+/**
+ * Lets the model pick the registered tools to call: the model plans, the
+ * requested tools run through the ToolExecutor (which validates the arguments
+ * against the tool's input schema) and their output, or error, is given back
+ * to the model until it answers or the iteration budget is used up.
+ *
+ * Models without native function calling get the tools described in the
+ * system prompt and call them by answering with a JSON object.
+ */
+export class AgentRunner {
+  constructor(
+    private readonly toolRegistry: ToolRegistry,
+    private readonly toolExecutor: ToolExecutor
+  ) {}
+
+  async run(
+    model: BaseLanguageModelInterface,
+    input: string,
+    options: IAgentOptions = {}
+  ): Promise<IAgentResult> {
+    const tools = this.getTools(options.tools);
+    const maxIterations =
+      options.maxIterations ?? (Number(process.env.AGENT_MAX_ITERATIONS) || 5);
+    const toolCalling = this.resolveToolCalling(model, options.toolCalling);
+    const systemPrompt = options.systemPrompt ?? DEFAULT_SYSTEM_PROMPT;
+
+    const runnable =
+      toolCalling === "native"
+        ? (model as any).bindTools(tools.map(toToolDefinition))
+        : model;
+    const messages: BaseMessage[] = [
+      new SystemMessage(
+        toolCalling === "native"
+          ? systemPrompt
+          : `${systemPrompt}\n\n${describeToolsForText(tools)}`
+      ),
+      new HumanMessage(input),
+    ];
+    const steps: IAgentStep[] = [];
+    let lastText = "";
+
+    for (let iteration = 1; iteration <= maxIterations; iteration++) {
+      options.signal?.throwIfAborted();
+      const turn = await this.invokeModel(
+        runnable,
+        messages,
+        toolCalling,
+        options.signal
+      );
+      lastText = turn.text;
+      if (turn.toolCalls.length === 0) {
+        return { answer: turn.text, steps, stoppedBy: "answer", toolCalling };
+      }
+
+      messages.push(turn.message);
+      const step: IAgentStep = {
+        iteration,
+        thought: turn.text || undefined,
+        toolCalls: [],
+      };
+      for (const call of turn.toolCalls) {
+        const toolCall = await this.callTool(call, tools, options.signal);
+        step.toolCalls.push(toolCall);
+        const observation = toolCall.error
+          ? `Error: ${toolCall.error}`
+          : toolCall.output;
+        messages.push(
+          toolCalling === "native"
+            ? new ToolMessage({ content: observation, tool_call_id: call.id })
+            : new HumanMessage(
+                `Observation from ${call.name}:\n${observation}\n\nCall another tool or answer with {"answer": "..."}.`
+              )
+        );
+      }
+      steps.push(step);
+      options.onStep?.(step);
+    }
+
+    logger.warn(`Agent stopped after ${maxIterations} iterations.`);
+    return { answer: lastText, steps, stoppedBy: "maxIterations", toolCalling };
+  }
+
+  private getTools(names?: string[]): IToolConfig[] {
+    if (!names) return Array.from(this.toolRegistry.getTools().values());
+    return names.map((name) => {
+      const tool = this.toolRegistry.getTool(name);
+      if (!tool) throw new Error(`Tool ${name} not found`);
+      return tool;
+    });
+  }
+
+  private resolveToolCalling(
+    model: BaseLanguageModelInterface,
+    toolCalling: IAgentOptions["toolCalling"] = "auto"
+  ): "native" | "text" {
+    const supportsNative = typeof (model as any).bindTools === "function";
+    if (toolCalling === "native" && !supportsNative) {
+      throw new Error("The chat model does not support native tool calling");
+    }
+    if (toolCalling === "auto") return supportsNative ? "native" : "text";
+    return toolCalling;
+  }
+
+  private async invokeModel(
+    runnable: any,
+    messages: BaseMessage[],
+    toolCalling: "native" | "text",
+    signal?: AbortSignal
+  ): Promise<IModelTurn> {
+    const response = await runnable.invoke(messages, { signal });
+    const message =
+      response instanceof AIMessage
+        ? response
+        : new AIMessage(
+            typeof response === "string" ? response : response.content
+          );
+    const text = getText(message)
+      .replace(/<think>.*?<\/think>/gs, "")
+      .trim();
+
+    if (toolCalling === "native") {
+      return {
+        message,
+        text,
+        toolCalls: [
+          ...(message.tool_calls ?? []).map((call) => ({
+            id: call.id ?? uuidv4(),
+            name: call.name,
+            args: call.args,
+          })),
+          // Calls whose arguments were not valid JSON are reported back as errors
+          ...(message.invalid_tool_calls ?? []).map((call) => ({
+            id: call.id ?? uuidv4(),
+            name: call.name,
+            args: {},
+            error: call.error ?? "Invalid tool call arguments",
+          })),
+        ],
+      };
+    }
+
+    const json = extractJSON(text) as any;
+    if (json && typeof json.tool === "string") {
+      return {
+        message,
+        text: "",
+        toolCalls: [
+          { id: uuidv4(), name: json.tool, args: json.arguments ?? {} },
+        ],
+      };
+    }
+    const answer = json && typeof json.answer === "string" ? json.answer : text;
+    return { message, text: answer, toolCalls: [] };
+  }
+
+  private async callTool(
+    call: IModelTurn["toolCalls"][number],
+    tools: IToolConfig[],
+    signal?: AbortSignal
+  ): Promise<IAgentToolCall> {
+    const toolCall: IAgentToolCall = {
+      toolName: call.name,
+      arguments: call.args ?? {},
+    };
+    if (call.error) return { ...toolCall, error: call.error };
+    if (!tools.some((tool) => tool.interface.toolName === call.name)) {
+      return { ...toolCall, error: `Tool ${call.name} is not available` };
+    }
+    try {
+      const output = await this.toolExecutor.executeToolWithStringOutput(
+        call.name,
+        toolCall.arguments,
+        { signal }
+      );
+      return { ...toolCall, output };
+    } catch (error: any) {
+      // Aborts end the run, anything else is for the model to fix
+      signal?.throwIfAborted();
+      logger.warn(`Agent tool call ${call.name} failed: ${error.message}`);
+      return { ...toolCall, error: error.message };
+    }
+  }
+}
+
+/**
+ * Converts a registered tool to an OpenAI style function definition.
+ */
+export function toToolDefinition(tool: IToolConfig) {
+  const { name, description, rules, inputSchema } = describeTool(tool);
+  return {
+    type: "function" as const,
+    function: {
+      name,
+      description: rules ? `${description}\n\nRules: ${rules}` : description,
+      parameters: { type: "object", ...inputSchema },
+    },
+  };
+}
+
+function describeToolsForText(tools: IToolConfig[]): string {
+  const definitions = tools.map((tool) => toToolDefinition(tool).function);
+  return [
+    "You can call these tools:",
+    JSON.stringify(definitions, null, 2),
+    'To call a tool, answer with only the JSON object {"tool": "<name>", "arguments": {...}}.',
+    'When you can answer the user, answer with only the JSON object {"answer": "<your answer>"}.',
+  ].join("\n");
+}
+
+function getText(message: AIMessage): string {
+  if (typeof message.content === "string") return message.content;
+  return message.content
+    .map((part: any) => (part.type === "text" ? part.text : ""))
+    .join("");
+}
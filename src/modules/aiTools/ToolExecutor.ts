@@ -1,5 +1,5 @@
 import Ajv from "ajv";
-import { ToolRegistry } from "./ToolRegistry";
+import { IToolExecutionContext, ToolRegistry } from "./ToolRegistry";
 import { IterableReadableStream } from "@langchain/core/utils/stream";
 import { convertResponseToString } from "../../utils/Stream";
 import { extractJSON } from "../../utils/JSON";
@@ -11,10 +11,12 @@ export class ToolExecutor {
 
   async executeTool(
     toolName: string,
-    input: any
+    input: any,
+    context: IToolExecutionContext = {}
   ): Promise<IterableReadableStream<string>> {
     const tool = this.toolRegistry.getTool(toolName);
     if (!tool) throw new Error(`Tool ${toolName} not found`);
+    context.signal?.throwIfAborted();
 
     // Validate input against the tool's input schema
     const validate = ajv.compile(tool.inputSchema);
@@ -24,12 +26,20 @@ export class ToolExecutor {
       );
     }
 
-    // Set the tool arguments (if your tool expects this)
-    tool.interface.toolArgs = input;
-    console.log("tool.interface", tool.interface);
+    // The registered interface is shared by concurrent calls, so the tool
+    // arguments are set on a copy of it
+    const toolInterface: typeof tool.interface = Object.assign(
+      Object.create(Object.getPrototypeOf(tool.interface)),
+      tool.interface,
+      { toolArgs: input }
+    );
+    console.log("tool.interface", toolInterface);
+
+    // Resolve the chat model: caller override, then the tool's own, then the fallback
+    const model = context.model ?? tool.model ?? context.fallbackModel;
 
     // Execute the tool
-    const result = await tool.handler(tool.interface);
+    const result = await tool.handler(toolInterface, { ...context, model });
     // Validate the tool's output
     const outputValidate = ajv.compile(tool.outputSchema);
     if (!outputValidate(result)) {
@@ -44,14 +54,34 @@ export class ToolExecutor {
 
   async executeToolWithStringOutput(
     toolName: string,
-    input: any
+    input: any,
+    context: IToolExecutionContext = {}
   ): Promise<string> {
-    const stream = await this.executeTool(toolName, input);
-    return convertResponseToString(stream);
+    const stream = await this.executeTool(toolName, input, context);
+    return this.readStream(stream, context);
+  }
+
+  async executeToolWithJsonOutput(
+    toolName: string,
+    input: any,
+    context: IToolExecutionContext = {}
+  ): Promise<object> {
+    const stream = await this.executeTool(toolName, input, context);
+    const json = extractJSON(await this.readStream(stream, context));
+    if (json === null) {
+      throw new Error(`Tool ${toolName} did not return valid JSON`);
+    }
+    return json;
   }
 
-  async executeToolWithJsonOutput(toolName: string, input: any): Promise<object> {
-    const stream = await this.executeTool(toolName, input);
-    return extractJSON(await convertResponseToString(stream));
+  // Forwards every chunk to `onToken`, stops reading once the signal is aborted
+  private readStream(
+    stream: IterableReadableStream<string>,
+    context: IToolExecutionContext
+  ): Promise<string> {
+    return convertResponseToString(stream, false, (chunk) => {
+      context.signal?.throwIfAborted();
+      context.onToken?.(chunk);
+    });
   }
 }
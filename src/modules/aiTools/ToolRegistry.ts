@@ -1,14 +1,43 @@
 import { JSONSchema7 } from "json-schema";
-import { v4 as uuidv4 } from "uuid";
+import { isDeepStrictEqual } from "util";
+import { v5 as uuidv5 } from "uuid";
 import { ITool } from "./AiTools";
 import { IterableReadableStream } from "@langchain/core/utils/stream";
+import { IChatModelConfig } from "../chatModels/ChatModelRegistry";
+import { IRetryOptions } from "../../utils/Retry";
+import { compareVersions } from "../WorkflowVersions";
 
 // --- Interfaces ---
+export interface IToolExecutionContext {
+  // Chat model the handler should use, resolved by the ToolExecutor
+  model?: IChatModelConfig;
+  // Used when neither the caller nor the tool picks a model (e.g. workflow default)
+  fallbackModel?: IChatModelConfig;
+  // Receives the output chunks while the ToolExecutor reads the tool's stream
+  onToken?: (token: string) => void;
+  // Aborted when the caller cancels, handlers pass it on to the chat model
+  signal?: AbortSignal;
+}
+
 export interface IToolConfig {
   interface: ITool;
   inputSchema: JSONSchema7;
   outputSchema: JSONSchema7;
-  handler: (input: any) => Promise<IterableReadableStream<string>>;
+  // Optional chat model used by this tool instead of the default one
+  model?: IChatModelConfig;
+  handler: (
+    input: any,
+    context?: IToolExecutionContext
+  ) => Promise<IterableReadableStream<string>>;
+}
+
+// What clients need to call a tool, e.g. to render an input form from `inputSchema`
+export interface IToolDescription {
+  name: string;
+  description: string;
+  rules?: string;
+  inputSchema: JSONSchema7;
+  outputSchema: JSONSchema7;
 }
 
 export interface IDataSource {
@@ -18,16 +47,119 @@ export interface IDataSource {
   query: (params: any) => Promise<any>;
 }
 
+export interface IWorkflowSwitch {
+  // Expression whose value selects the case, e.g. `input.meta.language`
+  on: string;
+  // Case value -> ids of the steps to run, steps of other cases are skipped
+  cases: Record<string, string[]>;
+  // Steps to run when no case matches
+  default?: string[];
+}
+
 export interface IWorkflowStep {
-  toolName: string;
-  inputMapping: Record<string, string>;
+  // Unique within the workflow, defaults to `step_<index>`
+  id?: string;
+  // Tool to execute, omitted for `switch` steps
+  toolName?: string;
+  // Steps which must complete first, defaults to the previous step
+  dependsOn?: string[];
+  // Condition over input.*, output.* and context.* paths, the step is skipped when false
+  when?: string;
+  // Makes the step a branch which selects the steps to run
+  switch?: IWorkflowSwitch;
+  inputMapping?: Record<string, string>;
+  // Overrides the tool and workflow chat model for this step only
+  model?: IChatModelConfig;
+  // Retries failed tool calls (e.g. invalid JSON) with exponential backoff
+  retry?: IRetryOptions;
+  // Fails a tool call which takes longer, counts as a failed attempt
+  timeoutMs?: number;
+  // Tool called with the same input once every attempt failed
+  fallbackToolName?: string;
+  // `$index` steps only: failed items become null and are recorded in the
+  // execution context under `errors` instead of failing the workflow
+  continueOnError?: boolean;
 }
 
 export interface IWorkflow {
   id: string;
   name: string;
+  // Semantic version, defaults to 1.0.0
+  version?: string;
   description: string;
   steps: IWorkflowStep[];
+  // Maximum number of steps running at the same time
+  maxConcurrency?: number;
+  // Chat model used by steps whose tool does not configure one
+  model?: IChatModelConfig;
+  // Schema of the workflow input, describes the workflow to MCP clients
+  inputSchema?: JSONSchema7;
+}
+
+export const DEFAULT_WORKFLOW_VERSION = "1.0.0";
+
+// Thrown when a registered workflow version is redefined
+export class WorkflowConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WorkflowConflictError";
+  }
+}
+
+// Placeholder the Tool class uses for missing fields
+const IGNORED_FIELD = "[IGNORED]";
+
+export function describeTool(tool: IToolConfig): IToolDescription {
+  const { toolName, toolDescription, toolRules } = tool.interface;
+  return {
+    name: toolName,
+    description: toolDescription === IGNORED_FIELD ? "" : toolDescription,
+    rules: toolRules === IGNORED_FIELD ? undefined : toolRules,
+    inputSchema: tool.inputSchema,
+    outputSchema: tool.outputSchema,
+  };
+}
+
+/**
+ * Returns a workflow as clients may see it, without the API keys of its
+ * chat models.
+ */
+export function redactWorkflow<T extends Omit<IWorkflow, "id">>(
+  workflow: T
+): T {
+  return {
+    ...workflow,
+    ...(workflow.model && { model: redactModel(workflow.model) }),
+    steps: workflow.steps.map((step) =>
+      step.model ? { ...step, model: redactModel(step.model) } : step
+    ),
+  };
+}
+
+function redactModel(model: IChatModelConfig): IChatModelConfig {
+  const { apiKey, ...redacted } = model;
+  return redacted;
+}
+
+// Compares definitions as JSON, so fields set to undefined count as missing
+function isSameDefinition(a: IWorkflow, b: IWorkflow): boolean {
+  return isDeepStrictEqual(
+    JSON.parse(JSON.stringify(a)),
+    JSON.parse(JSON.stringify(b))
+  );
+}
+
+// Namespace of the name/version based workflow ids, never change it
+const WORKFLOW_ID_NAMESPACE = "5b6f1f0e-5f35-4f4c-9f52-3a8a4f3e9c21";
+
+/**
+ * Returns the id of a workflow version, stable across restarts.
+ */
+export function getWorkflowId(
+  name: string,
+  version = DEFAULT_WORKFLOW_VERSION
+): string {
+  return uuidv5(`${name}@${version}`, WORKFLOW_ID_NAMESPACE);
 }
 
 // --- Registry Class ---
@@ -44,16 +176,34 @@ export class ToolRegistry {
     this.dataSources.set(source.name, source);
   }
 
+  // Versions are immutable, the same name and version may only be
+  // registered again with an identical definition
   createWorkflow(workflow: Omit<IWorkflow, "id">) {
-    const id = uuidv4();
-    this.workflows.set(id, { ...workflow, id });
+    const version = workflow.version ?? DEFAULT_WORKFLOW_VERSION;
+    const id = getWorkflowId(workflow.name, version);
+    const registered = { ...workflow, version, id };
+    const existing = this.workflows.get(id);
+    if (existing && !isSameDefinition(existing, registered)) {
+      throw new WorkflowConflictError(
+        `Workflow ${workflow.name}@${version} is already registered with another definition, change its version`
+      );
+    }
+    this.workflows.set(id, registered);
     return id;
   }
 
+  deleteWorkflow(id: string) {
+    return this.workflows.delete(id);
+  }
+
   getTool(name: string) {
     return this.tools.get(name);
   }
 
+  getTools() {
+    return this.tools;
+  }
+
   getDataSource(name: string) {
     return this.dataSources.get(name);
   }
@@ -66,9 +216,23 @@ export class ToolRegistry {
     return this.workflows;
   }
 
-  getWorkflowByName(name: string) {
-    return Array.from(this.workflows.values()).find(
-      (workflow) => workflow.name === name
+  // Every registered version of a workflow, oldest first
+  getWorkflowVersions(name: string) {
+    return Array.from(this.workflows.values())
+      .filter((workflow) => workflow.name === name)
+      .sort((a, b) => compareVersions(a.version, b.version));
+  }
+
+  // Resolves a pinned version, or the latest release (pre-releases only when
+  // there is no release yet) when the version is omitted or "latest"
+  getWorkflowByName(name: string, version?: string) {
+    if (version && version !== "latest") {
+      return this.workflows.get(getWorkflowId(name, version));
+    }
+    const versions = this.getWorkflowVersions(name);
+    const releases = versions.filter(
+      (workflow) => !workflow.version.includes("-")
     );
+    return (releases.length > 0 ? releases : versions).at(-1);
   }
 }
@@ -0,0 +1,55 @@
+import crypto from "crypto";
+import fs from "fs";
+import { IAuthRequest, IAuthenticator, IIdentity } from "./Authenticator";
+
+// --- Interfaces ---
+export interface IApiKeyConfig {
+  // Identity of the key holder
+  id: string;
+  key: string;
+  permissions: string[];
+}
+
+/**
+ * Authenticates static API keys, e.g. the keys of `WS_API_KEYS_FILE`.
+ */
+export class ApiKeyAuthenticator implements IAuthenticator {
+  constructor(private readonly apiKeys: IApiKeyConfig[]) {
+    for (const apiKey of apiKeys) {
+      if (!apiKey.id || !apiKey.key || !Array.isArray(apiKey.permissions)) {
+        throw new Error(
+          `API key ${apiKey.id ?? "without id"} needs an id, a key and permissions`
+        );
+      }
+    }
+  }
+
+  /**
+   * Reads a JSON array of `{ id, key, permissions }` objects.
+   */
+  static fromFile(filePath: string): ApiKeyAuthenticator {
+    return new ApiKeyAuthenticator(
+      JSON.parse(fs.readFileSync(filePath, "utf8"))
+    );
+  }
+
+  async authenticate({ token }: IAuthRequest): Promise<IIdentity | null> {
+    if (!token) return null;
+    const apiKey = this.apiKeys.find((candidate) =>
+      isSameKey(candidate.key, token)
+    );
+    if (!apiKey) return null;
+    return {
+      id: apiKey.id,
+      method: "apiKey",
+      permissions: [...apiKey.permissions],
+    };
+  }
+}
+
+// Compares in constant time, so the keys can not be guessed by timing
+function isSameKey(key: string, token: string): boolean {
+  const hash = (value: string) =>
+    crypto.createHash("sha256").update(value).digest();
+  return crypto.timingSafeEqual(hash(key), hash(token));
+}
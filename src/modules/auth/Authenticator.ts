@@ -0,0 +1,86 @@
+import { IncomingMessage } from "http";
+import { ProtocolError } from "../WebSocketProtocol";
+
+// --- Interfaces ---
+export interface IIdentity {
+  id: string;
+  // How the identity was established
+  method: "apiKey" | "jwt" | "anonymous";
+  // e.g. `tool:generate_ideas`, `workflow:create`, `workflow:execute:*`
+  permissions: string[];
+}
+
+export interface IAuthRequest {
+  // Bearer token of the `Authorization` header or `token` query parameter
+  token?: string;
+}
+
+export interface IAuthenticator {
+  /**
+   * Resolves the identity of a request, `null` when the credentials are
+   * missing or not accepted by this authenticator.
+   */
+  authenticate(request: IAuthRequest): Promise<IIdentity | null>;
+}
+
+/**
+ * Reads the credentials of a WebSocket upgrade request. Browsers can not set
+ * headers on WebSocket connections, so the token may be a query parameter.
+ */
+export function getAuthRequest(request: IncomingMessage): IAuthRequest {
+  const header = request.headers.authorization;
+  if (header?.startsWith("Bearer ")) {
+    return { token: header.slice("Bearer ".length).trim() };
+  }
+  const url = new URL(request.url ?? "/", "http://localhost");
+  return { token: url.searchParams.get("token") ?? undefined };
+}
+
+/**
+ * Checks a permission against the permissions of an identity. A permission
+ * ending with `*` grants every permission starting with its prefix.
+ */
+export function hasPermission(identity: IIdentity, permission: string) {
+  return identity.permissions.some(
+    (granted) =>
+      granted === permission ||
+      (granted.endsWith("*") && permission.startsWith(granted.slice(0, -1)))
+  );
+}
+
+/**
+ * Throws FORBIDDEN when the identity lacks the permission.
+ */
+export function assertPermission(identity: IIdentity, permission: string) {
+  if (!hasPermission(identity, permission)) {
+    throw new ProtocolError(
+      "FORBIDDEN",
+      `${identity.id} does not have the permission ${permission}`
+    );
+  }
+}
+
+/**
+ * Asks the authenticators in order, the first identity wins. Without
+ * authenticators every request is refused.
+ */
+export class CompositeAuthenticator implements IAuthenticator {
+  constructor(private readonly authenticators: IAuthenticator[]) {}
+
+  async authenticate(request: IAuthRequest): Promise<IIdentity | null> {
+    for (const authenticator of this.authenticators) {
+      const identity = await authenticator.authenticate(request);
+      if (identity) return identity;
+    }
+    return null;
+  }
+}
+
+/**
+ * Accepts every connection with every permission, only used with `AUTH_MODE=anonymous`.
+ */
+export class AnonymousAuthenticator implements IAuthenticator {
+  async authenticate(): Promise<IIdentity> {
+    return { id: "anonymous", method: "anonymous", permissions: ["*"] };
+  }
+}
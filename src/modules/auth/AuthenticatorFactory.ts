@@ -0,0 +1,56 @@
+import fs from "fs";
+import { Algorithm } from "jsonwebtoken";
+import {
+  AnonymousAuthenticator,
+  CompositeAuthenticator,
+  IAuthenticator,
+} from "./Authenticator";
+import { ApiKeyAuthenticator } from "./ApiKeyAuthenticator";
+import { JwtAuthenticator } from "./JwtAuthenticator";
+import logger from "../../utils/Logger";
+
+/**
+ * Creates the authenticator of the socket server from environment variables:
+ * API keys of `WS_API_KEYS_FILE` first, then JWTs verified with
+ * `WS_JWT_SECRET` or `WS_JWT_PUBLIC_KEY_FILE`. Without any of them every
+ * connection is refused, unless `AUTH_MODE=anonymous` opts in to accepting
+ * every connection with every permission.
+ */
+export function createAuthenticator(): IAuthenticator {
+  const authenticators: IAuthenticator[] = [];
+
+  if (process.env.WS_API_KEYS_FILE) {
+    authenticators.push(
+      ApiKeyAuthenticator.fromFile(process.env.WS_API_KEYS_FILE)
+    );
+  }
+
+  const jwtKey = process.env.WS_JWT_PUBLIC_KEY_FILE
+    ? fs.readFileSync(process.env.WS_JWT_PUBLIC_KEY_FILE, "utf8")
+    : process.env.WS_JWT_SECRET;
+  if (jwtKey) {
+    authenticators.push(
+      new JwtAuthenticator({
+        key: jwtKey,
+        algorithms: process.env.WS_JWT_ALGORITHMS
+          ? (process.env.WS_JWT_ALGORITHMS.split(",") as Algorithm[])
+          : undefined,
+        issuer: process.env.WS_JWT_ISSUER || undefined,
+        audience: process.env.WS_JWT_AUDIENCE || undefined,
+      })
+    );
+  }
+
+  if (authenticators.length === 0) {
+    if (process.env.AUTH_MODE === "anonymous") {
+      logger.warn(
+        "AUTH_MODE is anonymous, every client gets every permission."
+      );
+      return new AnonymousAuthenticator();
+    }
+    logger.error(
+      "No WebSocket authentication is configured, every client is refused. Set WS_API_KEYS_FILE, a JWT key or AUTH_MODE=anonymous."
+    );
+  }
+  return new CompositeAuthenticator(authenticators);
+}
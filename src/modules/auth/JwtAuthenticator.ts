@@ -0,0 +1,80 @@
+import jwt, { Algorithm, JwtPayload } from "jsonwebtoken";
+import { IAuthRequest, IAuthenticator, IIdentity } from "./Authenticator";
+import logger from "../../utils/Logger";
+
+// --- Interfaces ---
+export interface IJwtAuthenticatorConfig {
+  // Shared secret (HS*) or PEM public key (RS*, ES*, PS*)
+  key: string;
+  algorithms?: Algorithm[];
+  issuer?: string;
+  audience?: string;
+}
+
+const SECRET_ALGORITHMS: Algorithm[] = ["HS256", "HS384", "HS512"];
+const PUBLIC_KEY_ALGORITHMS: Algorithm[] = [
+  "RS256",
+  "RS384",
+  "RS512",
+  "ES256",
+  "ES384",
+  "ES512",
+  "PS256",
+  "PS384",
+  "PS512",
+];
+
+/**
+ * Authenticates JSON Web Tokens. The `sub` claim is the identity, permissions
+ * come from a `permissions` array claim or a space separated `scope` claim.
+ */
+export class JwtAuthenticator implements IAuthenticator {
+  private readonly algorithms: Algorithm[];
+
+  constructor(private readonly config: IJwtAuthenticatorConfig) {
+    if (!config.key) {
+      throw new Error("JWT authentication needs a secret or public key");
+    }
+    this.algorithms =
+      config.algorithms ??
+      (config.key.includes("-----BEGIN")
+        ? PUBLIC_KEY_ALGORITHMS
+        : SECRET_ALGORITHMS);
+  }
+
+  async authenticate({ token }: IAuthRequest): Promise<IIdentity | null> {
+    if (!token) return null;
+    let payload: JwtPayload;
+    try {
+      const verified = jwt.verify(token, this.config.key, {
+        algorithms: this.algorithms,
+        issuer: this.config.issuer,
+        audience: this.config.audience,
+      });
+      if (typeof verified === "string") return null;
+      payload = verified;
+    } catch (error: any) {
+      logger.warn(`JWT is rejected: ${error.message}`);
+      return null;
+    }
+    if (!payload.sub) {
+      logger.warn("JWT is rejected: the token has no sub claim");
+      return null;
+    }
+    return {
+      id: payload.sub,
+      method: "jwt",
+      permissions: getPermissions(payload),
+    };
+  }
+}
+
+function getPermissions(payload: JwtPayload): string[] {
+  if (Array.isArray(payload.permissions)) {
+    return payload.permissions.map(String);
+  }
+  if (typeof payload.scope === "string") {
+    return payload.scope.split(" ").filter(Boolean);
+  }
+  return [];
+}
@@ -0,0 +1,193 @@
+import { BaseLanguageModelInterface } from "@langchain/core/language_models/base";
+import { ChatOllama } from "@langchain/ollama";
+import { ChatOpenAI } from "@langchain/openai";
+import logger from "../../utils/Logger";
+import { ScriptedChatModel } from "./ScriptedChatModel";
+
+// --- Interfaces ---
+export interface IChatModelConfig {
+  provider?: string;
+  model?: string;
+  temperature?: number;
+  contextSize?: number;
+  maxTokens?: number;
+  baseUrl?: string;
+  apiKey?: string;
+  // Provider specific options, passed through untouched to the factory.
+  options?: Record<string, any>;
+}
+
+export type ChatModelFactory = (
+  config: IChatModelConfig
+) => BaseLanguageModelInterface;
+
+// Resolves the default chat model, or the one of `modelConfig` when given
+export type ChatModelResolver = (
+  modelConfig?: IChatModelConfig
+) => BaseLanguageModelInterface;
+
+/**
+ * Reads the default chat model configuration from environment variables.
+ */
+export function getDefaultChatModelConfig(): IChatModelConfig {
+  const toNumber = (value?: string) =>
+    value !== undefined && value !== "" ? Number(value) : undefined;
+
+  return {
+    provider: process.env.CHAT_MODEL_PROVIDER || "ollama",
+    model: process.env.DEFAULT_MODEL,
+    temperature: toNumber(process.env.CHAT_MODEL_TEMPERATURE),
+    contextSize: toNumber(process.env.CHAT_MODEL_CONTEXT_SIZE),
+    maxTokens: toNumber(process.env.CHAT_MODEL_MAX_TOKENS),
+    baseUrl: process.env.CHAT_MODEL_BASE_URL,
+  };
+}
+
+/**
+ * Merges chat model configs from lowest to highest priority.
+ * Undefined values never override a previously defined one.
+ */
+export function mergeChatModelConfigs(
+  ...configs: (IChatModelConfig | undefined)[]
+): IChatModelConfig {
+  const merged: IChatModelConfig = {};
+  for (const config of configs) {
+    if (!config) continue;
+    for (const [key, value] of Object.entries(config)) {
+      if (value === undefined) continue;
+      merged[key] = key === "options" ? { ...merged.options, ...value } : value;
+    }
+  }
+  return merged;
+}
+
+// Only JSON values can tell configs apart, functions and class instances
+// would serialize to nothing
+function isSerializable(value: unknown): boolean {
+  if (value === null || typeof value !== "object") {
+    return ["undefined", "string", "number", "boolean"].includes(typeof value);
+  }
+  if (Array.isArray(value)) return value.every(isSerializable);
+  const prototype = Object.getPrototypeOf(value);
+  return (
+    (prototype === Object.prototype || prototype === null) &&
+    Object.values(value).every(isSerializable)
+  );
+}
+
+// --- Registry Class ---
+export class ChatModelRegistry {
+  private readonly providers = new Map<string, ChatModelFactory>();
+  private readonly models = new Map<string, BaseLanguageModelInterface>();
+
+  constructor() {
+    this.registerDefaultProviders();
+  }
+
+  registerProvider(name: string, factory: ChatModelFactory) {
+    this.providers.set(name, factory);
+    // Drop cached models of a replaced provider
+    for (const key of this.models.keys()) {
+      if (JSON.parse(key).provider === name) this.models.delete(key);
+    }
+  }
+
+  hasProvider(name: string) {
+    return this.providers.has(name);
+  }
+
+  getProviderNames() {
+    return Array.from(this.providers.keys());
+  }
+
+  /**
+   * Creates a new chat model instance for the given config.
+   * @param config - Chat model config, merged over the environment defaults.
+   */
+  createModel(config: IChatModelConfig = {}): BaseLanguageModelInterface {
+    const resolvedConfig = mergeChatModelConfigs(
+      getDefaultChatModelConfig(),
+      config
+    );
+    const factory = this.providers.get(resolvedConfig.provider);
+    if (!factory) {
+      throw new Error(
+        `Chat model provider ${resolvedConfig.provider} is not registered`
+      );
+    }
+    logger.info(
+      `Building chat model ${resolvedConfig.model} with provider ${resolvedConfig.provider}.`
+    );
+    return factory(resolvedConfig);
+  }
+
+  /**
+   * Returns a cached chat model for the given config, creating it on first use.
+   * Configs holding functions or class instances get a new model every time.
+   */
+  getModel(config: IChatModelConfig = {}): BaseLanguageModelInterface {
+    const resolvedConfig = mergeChatModelConfigs(
+      getDefaultChatModelConfig(),
+      config
+    );
+    if (!isSerializable(resolvedConfig)) {
+      return this.createModel(resolvedConfig);
+    }
+    const key = JSON.stringify(resolvedConfig);
+    if (!this.models.has(key)) {
+      this.models.set(key, this.createModel(resolvedConfig));
+    }
+    return this.models.get(key);
+  }
+
+  private registerDefaultProviders() {
+    this.registerProvider(
+      "openai",
+      (config) =>
+        new ChatOpenAI({
+          apiKey: config.apiKey || process.env.OPENAI_API_KEY,
+          model: config.model,
+          temperature: config.temperature,
+          maxTokens: config.maxTokens,
+          ...config.options,
+        })
+    );
+
+    this.registerProvider(
+      "ollama",
+      (config) =>
+        new ChatOllama({
+          baseUrl: config.baseUrl || process.env.OLLAMA_HOST,
+          model: config.model,
+          temperature: config.temperature,
+          numPredict: config.maxTokens ?? 2048,
+          numCtx: config.contextSize ?? 8196,
+          ...config.options,
+        })
+    );
+
+    // Any endpoint speaking the OpenAI chat completions API (vLLM, LM Studio, llama.cpp, ...)
+    this.registerProvider("openai-compatible", (config) => {
+      if (!config.baseUrl) {
+        throw new Error("openai-compatible provider requires a baseUrl");
+      }
+      return new ChatOpenAI({
+        apiKey:
+          config.apiKey ||
+          process.env.OPENAI_COMPATIBLE_API_KEY ||
+          "not-needed",
+        model: config.model,
+        temperature: config.temperature,
+        maxTokens: config.maxTokens,
+        configuration: { baseURL: config.baseUrl },
+        ...config.options,
+      });
+    });
+
+    // Deterministic scripted model, see ScriptedChatModelInput for the options
+    this.registerProvider(
+      "fake",
+      (config) => new ScriptedChatModel(config.options)
+    );
+  }
+}
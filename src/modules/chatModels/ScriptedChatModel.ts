@@ -0,0 +1,138 @@
+import {
+  BaseChatModel,
+  BaseChatModelParams,
+} from "@langchain/core/language_models/chat_models";
+import { CallbackManagerForLLMRun } from "@langchain/core/callbacks/manager";
+import {
+  AIMessage,
+  AIMessageChunk,
+  BaseMessage,
+} from "@langchain/core/messages";
+import { ChatGenerationChunk, ChatResult } from "@langchain/core/outputs";
+
+// --- Interfaces ---
+export interface IScriptedReply {
+  // Matches prompts built from a tool (`"toolName": "..."` in the prompt)
+  toolName?: string;
+  // Matches prompts whose text contains the string or matches the RegExp
+  pattern?: string | RegExp;
+  reply: string | ((prompt: string, messages: BaseMessage[]) => string);
+}
+
+export interface IScriptedCall {
+  toolName?: string;
+  prompt: string;
+  reply: string;
+}
+
+export interface ScriptedChatModelInput extends BaseChatModelParams {
+  replies?: IScriptedReply[];
+  // Returned when no scripted reply matches, otherwise an error is thrown
+  defaultReply?: string;
+  // Size of the chunks a reply is split into while streaming
+  chunkSize?: number;
+  // Delay between streamed chunks, simulating a slow model
+  chunkDelayMs?: number;
+}
+
+/**
+ * Deterministic chat model answering with scripted replies.
+ * Replies are picked by the tool name found in the prompt or by a prompt pattern,
+ * in the order they are declared. Every call is recorded in `calls`.
+ */
+export class ScriptedChatModel extends BaseChatModel {
+  replies: IScriptedReply[];
+  defaultReply?: string;
+  chunkSize: number;
+  chunkDelayMs: number;
+  calls: IScriptedCall[] = [];
+
+  static lc_name() {
+    return "ScriptedChatModel";
+  }
+
+  constructor(fields: ScriptedChatModelInput = {}) {
+    super(fields);
+    this.replies = fields.replies ?? [];
+    this.defaultReply = fields.defaultReply;
+    this.chunkSize = fields.chunkSize ?? 16;
+    this.chunkDelayMs = fields.chunkDelayMs ?? 0;
+  }
+
+  _llmType() {
+    return "scripted";
+  }
+
+  addReply(reply: IScriptedReply) {
+    this.replies.push(reply);
+  }
+
+  async _generate(messages: BaseMessage[]): Promise<ChatResult> {
+    const text = this.resolveReply(messages);
+    return {
+      generations: [{ message: new AIMessage(text), text }],
+      llmOutput: {},
+    };
+  }
+
+  async *_streamResponseChunks(
+    messages: BaseMessage[],
+    _options: this["ParsedCallOptions"],
+    runManager?: CallbackManagerForLLMRun
+  ): AsyncGenerator<ChatGenerationChunk> {
+    const text = this.resolveReply(messages);
+    for (let i = 0; i < text.length; i += this.chunkSize) {
+      if (this.chunkDelayMs > 0) {
+        await new Promise((resolve) => setTimeout(resolve, this.chunkDelayMs));
+      }
+      const chunkText = text.slice(i, i + this.chunkSize);
+      yield new ChatGenerationChunk({
+        message: new AIMessageChunk({ content: chunkText }),
+        text: chunkText,
+      });
+      void runManager?.handleLLMNewToken(chunkText);
+    }
+  }
+
+  private resolveReply(messages: BaseMessage[]): string {
+    const prompt = messages
+      .map((message) =>
+        typeof message.content === "string"
+          ? message.content
+          : JSON.stringify(message.content)
+      )
+      .join("\n");
+    const toolName = prompt.match(/"toolName"\s*:\s*"([^"]+)"/)?.[1];
+
+    const match = this.replies.find((reply) => {
+      if (reply.toolName && reply.toolName !== toolName) return false;
+      if (reply.pattern instanceof RegExp && !reply.pattern.test(prompt)) {
+        return false;
+      }
+      if (
+        typeof reply.pattern === "string" &&
+        !prompt.includes(reply.pattern)
+      ) {
+        return false;
+      }
+      return true;
+    });
+
+    let text: string;
+    if (match) {
+      text =
+        typeof match.reply === "function"
+          ? match.reply(prompt, messages)
+          : match.reply;
+    } else if (this.defaultReply !== undefined) {
+      text = this.defaultReply;
+    } else {
+      throw new Error(
+        `No scripted reply for ${toolName ? `tool ${toolName}` : "prompt"}`
+      );
+    }
+
+    this.calls.push({ toolName, prompt, reply: text });
+    return text;
+  }
+}
@@ -0,0 +1,45 @@
+import { Embeddings, EmbeddingsParams } from "@langchain/core/embeddings";
+import { createHash } from "crypto";
+
+export interface DeterministicEmbeddingsParams extends EmbeddingsParams {
+  dimensions?: number;
+}
+
+/**
+ * Hash based embeddings which need no model or network.
+ * Every token is hashed into a bucket of the vector (feature hashing), so texts
+ * sharing words get similar vectors and the same text always gets the same one.
+ */
+export class DeterministicEmbeddings extends Embeddings {
+  dimensions: number;
+
+  constructor(params: DeterministicEmbeddingsParams = {}) {
+    super(params);
+    this.dimensions = params.dimensions ?? 4096;
+  }
+
+  async embedDocuments(documents: string[]): Promise<number[][]> {
+    return documents.map((document) => this.embed(document));
+  }
+
+  async embedQuery(document: string): Promise<number[]> {
+    return this.embed(document);
+  }
+
+  private embed(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const tokens = text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? [];
+
+    for (const token of tokens) {
+      const hash = createHash("sha256").update(token).digest();
+      const bucket = hash.readUInt32BE(0) % this.dimensions;
+      const sign = hash[4] & 1 ? 1 : -1;
+      vector[bucket] += sign;
+    }
+
+    const norm = Math.sqrt(
+      vector.reduce((sum, value) => sum + value * value, 0)
+    );
+    return norm === 0 ? vector : vector.map((value) => value / norm);
+  }
+}
@@ -0,0 +1,42 @@
+import { EmbeddingsInterface } from "@langchain/core/embeddings";
+import { OllamaEmbeddings } from "@langchain/ollama";
+import { DeterministicEmbeddings } from "./DeterministicEmbeddings";
+
+export interface IEmbeddingsConfig {
+  provider?: string;
+  model?: string;
+  dimensions?: number;
+}
+
+/**
+ * Creates the embeddings used by the vector stores.
+ * Falls back to `EMBEDDINGS_PROVIDER` / `EMBEDDINGS_DIMENSIONS`, then to Ollama.
+ */
+export function createEmbeddings(
+  config: IEmbeddingsConfig = {}
+): EmbeddingsInterface {
+  const provider =
+    config.provider || process.env.EMBEDDINGS_PROVIDER || "ollama";
+  const dimensions = config.dimensions ?? getEmbeddingsDimensions();
+
+  switch (provider) {
+    case "ollama":
+      return new OllamaEmbeddings({
+        model: config.model || process.env.DEFAULT_MODEL,
+        baseUrl: process.env.OLLAMA_HOST,
+        requestOptions: {
+          useMmap: true,
+          numThread: 4,
+          numGpu: 1,
+        },
+      });
+    case "deterministic":
+      return new DeterministicEmbeddings({ dimensions });
+    default:
+      throw new Error(`Embeddings provider ${provider} is not supported`);
+  }
+}
+
+export function getEmbeddingsDimensions(): number {
+  return Number(process.env.EMBEDDINGS_DIMENSIONS) || 4096;
+}
@@ -0,0 +1,171 @@
+import path from "path";
+import { Document } from "@langchain/core/documents";
+import {
+  RecursiveCharacterTextSplitter,
+  SupportedTextSplitterLanguage,
+  SupportedTextSplitterLanguages,
+} from "@langchain/textsplitters";
+
+// --- Interfaces ---
+export interface IChunkingOptions {
+  // Maximum characters of a chunk
+  chunkSize: number;
+  // Characters repeated at the start of the next chunk
+  chunkOverlap: number;
+}
+
+// Langchain text splitters implement it as well
+export interface IDocumentSplitter {
+  splitDocuments(documents: Document[]): Promise<Document[]>;
+}
+
+export type SplitterKind = "recursive" | "markdown" | "code";
+
+// Unset or empty variables use the default, 0 is a valid overlap
+function readCount(name: string, defaultValue: number, minimum: number) {
+  const value = process.env[name];
+  if (value === undefined || value === "") return defaultValue;
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < minimum) {
+    throw new Error(`${name} must be an integer of at least ${minimum}`);
+  }
+  return count;
+}
+
+export function getChunkingOptions(): IChunkingOptions {
+  return {
+    chunkSize: readCount("INGESTION_CHUNK_SIZE", 1000, 1),
+    chunkOverlap: readCount("INGESTION_CHUNK_OVERLAP", 200, 0),
+  };
+}
+
+const CODE_LANGUAGES: Record<string, SupportedTextSplitterLanguage> = {
+  ".js": "js",
+  ".jsx": "js",
+  ".ts": "js",
+  ".tsx": "js",
+  ".py": "python",
+  ".java": "java",
+  ".go": "go",
+  ".rs": "rust",
+  ".rb": "ruby",
+  ".php": "php",
+  ".cpp": "cpp",
+  ".cc": "cpp",
+  ".h": "cpp",
+  ".scala": "scala",
+  ".swift": "swift",
+  ".sol": "sol",
+  ".html": "html",
+  ".tex": "latex",
+};
+
+/**
+ * Splits markdown at its headings, sections longer than the chunk size are
+ * split further. Every chunk keeps the path of headings it belongs to in
+ * `metadata.headings` (e.g. `Setup > Install`).
+ */
+export class MarkdownHeadingSplitter implements IDocumentSplitter {
+  private readonly sectionSplitter: RecursiveCharacterTextSplitter;
+
+  constructor(options: IChunkingOptions = getChunkingOptions()) {
+    this.sectionSplitter = RecursiveCharacterTextSplitter.fromLanguage(
+      "markdown",
+      options
+    );
+  }
+
+  async splitDocuments(documents: Document[]): Promise<Document[]> {
+    const chunks: Document[] = [];
+    for (const document of documents) {
+      for (const section of this.getSections(document.pageContent)) {
+        chunks.push(
+          ...(await this.sectionSplitter.createDocuments(
+            [section.content],
+            [
+              {
+                ...document.metadata,
+                ...(section.headings.length && {
+                  headings: section.headings.join(" > "),
+                }),
+              },
+            ]
+          ))
+        );
+      }
+    }
+    return chunks;
+  }
+
+  private getSections(markdown: string) {
+    const sections: { headings: string[]; content: string }[] = [];
+    const headings: string[] = [];
+    let lines: string[] = [];
+    const flush = () => {
+      const content = lines.join("\n").trim();
+      if (content) sections.push({ headings: [...headings], content });
+      lines = [];
+    };
+    let inCodeBlock = false;
+    for (const line of markdown.split("\n")) {
+      if (line.trimStart().startsWith("```")) inCodeBlock = !inCodeBlock;
+      const heading = !inCodeBlock && line.match(/^(#{1,6})\s+(.+?)\s*#*$/);
+      if (heading) {
+        flush();
+        // Skipped heading levels leave holes, they are not part of the path
+        headings.length = heading[1].length - 1;
+        headings.push(heading[2]);
+      }
+      lines.push(line);
+    }
+    flush();
+    return sections.map((section) => ({
+      ...section,
+      headings: section.headings.filter(Boolean),
+    }));
+  }
+}
+
+/**
+ * Creates a splitter, `code` splits at the syntax of `language`.
+ */
+export function createSplitter(
+  kind: SplitterKind,
+  options: IChunkingOptions = getChunkingOptions(),
+  language?: SupportedTextSplitterLanguage
+): IDocumentSplitter {
+  switch (kind) {
+    case "recursive":
+      return new RecursiveCharacterTextSplitter(options);
+    case "markdown":
+      return new MarkdownHeadingSplitter(options);
+    case "code":
+      if (!SupportedTextSplitterLanguages.includes(language)) {
+        throw new Error(`Code splitting does not support ${language}`);
+      }
+      return RecursiveCharacterTextSplitter.fromLanguage(language, options);
+    default:
+      throw new Error(`Splitter ${kind} is not supported`);
+  }
+}
+
+/**
+ * Picks the splitter of a document by the extension of `metadata.source`:
+ * markdown by headings, known code languages by their syntax, anything else
+ * by paragraphs, lines and words.
+ */
+export function getSplitterForDocument(
+  document: Document,
+  options: IChunkingOptions = getChunkingOptions()
+): IDocumentSplitter {
+  const source = document.metadata?.source;
+  const extension =
+    typeof source === "string" ? path.extname(source).toLowerCase() : "";
+  if (extension === ".md" || extension === ".markdown") {
+    return createSplitter("markdown", options);
+  }
+  if (CODE_LANGUAGES[extension]) {
+    return createSplitter("code", options, CODE_LANGUAGES[extension]);
+  }
+  return createSplitter("recursive", options);
+}
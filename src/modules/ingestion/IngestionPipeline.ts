@@ -0,0 +1,132 @@
+import { Document } from "@langchain/core/documents";
+import { VectorStore } from "@langchain/core/vectorstores";
+import { v4 as uuidv4 } from "uuid";
+import {
+  IChunkingOptions,
+  IDocumentSplitter,
+  getChunkingOptions,
+  getSplitterForDocument,
+} from "./DocumentSplitters";
+import logger from "../../utils/Logger";
+
+// --- Interfaces ---
+export interface IIngestionOptions extends IChunkingOptions {
+  // Chunks embedded per embeddings call
+  batchSize: number;
+}
+
+export interface IIngestOptions {
+  // Used for every document instead of the one picked by its source
+  splitter?: IDocumentSplitter;
+}
+
+export interface IIngestionResult {
+  // Parent document id -> ids of its chunks, in order
+  chunkIds: Record<string, string[]>;
+  chunkCount: number;
+}
+
+export function getIngestionOptions(): IIngestionOptions {
+  return {
+    ...getChunkingOptions(),
+    batchSize: Number(process.env.INGESTION_BATCH_SIZE) || 32,
+  };
+}
+
+/**
+ * Splits documents into chunks and stores them in the vector store, embedding
+ * `batchSize` chunks per call. A chunk keeps the metadata of its document and
+ * links back to it with `parentId`, `chunkIndex` and `chunkCount`, and records
+ * its offset in the document as `chunkStart`; its id is
+ * `<parentId>:<chunkIndex>`. The parent id is the document's id, generated
+ * when it has none.
+ */
+export class IngestionPipeline {
+  constructor(
+    private readonly vectorStore: VectorStore,
+    private readonly options: IIngestionOptions = getIngestionOptions()
+  ) {}
+
+  async ingest(
+    documents: Document[],
+    options: IIngestOptions = {}
+  ): Promise<IIngestionResult> {
+    if (!this.vectorStore) {
+      throw new Error("Database not connected for ingestion.");
+    }
+    const chunkIds: Record<string, string[]> = {};
+    const chunks: Document[] = [];
+    for (const document of documents) {
+      const parentId = String(document.id ?? document.metadata?.id ?? uuidv4());
+      const splitter =
+        options.splitter ?? getSplitterForDocument(document, this.options);
+      const parts = await splitter.splitDocuments([document]);
+      const offsets = getChunkOffsets(
+        document.pageContent,
+        parts.map((part) => part.pageContent)
+      );
+      chunkIds[parentId] = parts.map((part, chunkIndex) => {
+        const id = `${parentId}:${chunkIndex}`;
+        chunks.push(
+          new Document({
+            id,
+            pageContent: part.pageContent,
+            metadata: {
+              ...part.metadata,
+              id,
+              parentId,
+              chunkIndex,
+              chunkCount: parts.length,
+              ...(offsets[chunkIndex] !== undefined && {
+                chunkStart: offsets[chunkIndex],
+              }),
+            },
+          })
+        );
+        return id;
+      });
+    }
+
+    for (
+      let start = 0;
+      start < chunks.length;
+      start += this.options.batchSize
+    ) {
+      const batch = chunks.slice(start, start + this.options.batchSize);
+      const vectors = await this.vectorStore.embeddings.embedDocuments(
+        batch.map((chunk) => chunk.pageContent)
+      );
+      await this.vectorStore.addVectors(vectors, batch, {
+        ids: batch.map((chunk) => chunk.id),
+      });
+    }
+    logger.info(
+      `Ingested ${documents.length} documents as ${chunks.length} chunks.`
+    );
+    return { chunkIds, chunkCount: chunks.length };
+  }
+}
+
+/**
+ * Offset of every chunk in the text, undefined for chunks the splitter changed.
+ * Repetitive text matches a chunk at several offsets, the last one which does
+ * not skip text the previous chunks left out is taken. Joining the chunks at
+ * these offsets gives back the text, up to the whitespace between chunks.
+ */
+function getChunkOffsets(
+  text: string,
+  chunks: string[]
+): (number | undefined)[] {
+  let end = 0;
+  return chunks.map((chunk) => {
+    const nonSpace = /\S/g;
+    nonSpace.lastIndex = end;
+    const start = text.lastIndexOf(
+      chunk,
+      nonSpace.exec(text)?.index ?? text.length
+    );
+    if (start === -1) return undefined;
+    end = Math.max(end, start + chunk.length);
+    return start;
+  });
+}
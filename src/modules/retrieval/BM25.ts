@@ -0,0 +1,95 @@
+import { DocumentInterface } from "@langchain/core/documents";
+
+// --- Interfaces ---
+export interface IBM25Options {
+  // Term frequency saturation
+  k1: number;
+  // Document length normalization, 0 turns it off
+  b: number;
+}
+
+/**
+ * Splits text into lower cased terms. Identifiers are kept whole and split at
+ * camel case and underscores as well, so `ToolExecutor` matches the terms
+ * `toolexecutor`, `tool` and `executor`.
+ */
+export function tokenize(text: string): string[] {
+  const terms: string[] = [];
+  for (const word of text.match(/[\p{L}\p{N}_$]+/gu) ?? []) {
+    terms.push(word.toLowerCase());
+    const parts = word
+      .split(/_+|(?<=[\p{Ll}\p{N}])(?=\p{Lu})|(?<=\p{Lu})(?=\p{Lu}\p{Ll})/u)
+      .filter(Boolean);
+    if (parts.length > 1) {
+      terms.push(...parts.map((part) => part.toLowerCase()));
+    }
+  }
+  return terms;
+}
+
+/**
+ * Okapi BM25 keyword index over a set of documents, built in memory.
+ */
+export class BM25Index {
+  private readonly termFrequencies: Map<string, number>[];
+  private readonly documentFrequencies = new Map<string, number>();
+  private readonly averageLength: number;
+
+  constructor(
+    private readonly documents: DocumentInterface[],
+    private readonly options: IBM25Options = { k1: 1.2, b: 0.75 }
+  ) {
+    this.termFrequencies = documents.map((document) => {
+      const frequencies = new Map<string, number>();
+      for (const term of tokenize(document.pageContent)) {
+        frequencies.set(term, (frequencies.get(term) ?? 0) + 1);
+      }
+      frequencies.forEach((_, term) =>
+        this.documentFrequencies.set(
+          term,
+          (this.documentFrequencies.get(term) ?? 0) + 1
+        )
+      );
+      return frequencies;
+    });
+    const totalLength = this.termFrequencies.reduce(
+      (sum, frequencies) => sum + getLength(frequencies),
+      0
+    );
+    this.averageLength = totalLength / Math.max(documents.length, 1);
+  }
+
+  /**
+   * Documents containing any query term, best scores first.
+   */
+  search(query: string, topK?: number): [DocumentInterface, number][] {
+    const terms = Array.from(new Set(tokenize(query)));
+    const { k1, b } = this.options;
+    const count = this.documents.length;
+    const results: [DocumentInterface, number][] = [];
+    this.termFrequencies.forEach((frequencies, index) => {
+      const length = getLength(frequencies);
+      let score = 0;
+      for (const term of terms) {
+        const frequency = frequencies.get(term);
+        if (!frequency) continue;
+        const documentFrequency = this.documentFrequencies.get(term);
+        const idf = Math.log(
+          1 + (count - documentFrequency + 0.5) / (documentFrequency + 0.5)
+        );
+        score +=
+          (idf * frequency * (k1 + 1)) /
+          (frequency + k1 * (1 - b + (b * length) / (this.averageLength || 1)));
+      }
+      if (score > 0) results.push([this.documents[index], score]);
+    });
+    results.sort((a, c) => c[1] - a[1]);
+    return topK === undefined ? results : results.slice(0, topK);
+  }
+}
+
+function getLength(frequencies: Map<string, number>): number {
+  let length = 0;
+  frequencies.forEach((frequency) => (length += frequency));
+  return length;
+}
@@ -0,0 +1,324 @@
+import { Document } from "@langchain/core/documents";
+import { HumanMessage, SystemMessage } from "@langchain/core/messages";
+import { StringOutputParser } from "@langchain/core/output_parsers";
+import { ChatPromptTemplate } from "@langchain/core/prompts";
+import {
+  ChatModelResolver,
+  IChatModelConfig,
+} from "../chatModels/ChatModelRegistry";
+import { IToolConfig } from "../aiTools/ToolRegistry";
+import { Tool } from "../aiTools/AiTools";
+import { convertResponseToStream } from "../../utils/Stream";
+import { extractJSON } from "../../utils/JSON";
+import { SearchFilter } from "../../database/vectorStores/VectorStoreUtils";
+import { parseFilterExpression } from "../../database/vectorStores/FilterExpressions";
+import logger from "../../utils/Logger";
+
+// --- Interfaces ---
+export interface INoteSource {
+  queryNotes(
+    keyword: string,
+    topN?: number,
+    filter?: SearchFilter
+  ): Promise<Document[]>;
+}
+
+export interface IRetrievedNote {
+  noteId: string;
+  title?: string;
+  content: string;
+}
+
+export interface ICitation {
+  // Number the answer cites the note with, e.g. [1]
+  index: number;
+  noteId: string;
+  title?: string;
+  snippet: string;
+}
+
+export interface INoteAnswer {
+  question: string;
+  // Query the notes were retrieved with
+  searchQuery: string;
+  answer: string;
+  // Notes the answer cites, in citation order
+  citations: ICitation[];
+}
+
+export interface INoteAnswerOptions {
+  // Notes given to the model, defaults to RAG_TOP_K or 4
+  topK?: number;
+  // Turns the question into a standalone search query first, on by default
+  rewriteQuestion?: boolean;
+  // Lets the model reorder the retrieved notes by relevance
+  rerank?: boolean;
+  // Only notes matching the metadata filter are retrieved
+  filter?: SearchFilter;
+  modelConfig?: IChatModelConfig;
+  signal?: AbortSignal;
+}
+
+export const NOTE_ANSWER_TOOL_NAME = "answer_from_notes";
+
+const SNIPPET_LENGTH = 300;
+// Chunks retrieved per note slot, chunks of one note are merged into one
+const CHUNKS_PER_NOTE = 2;
+
+export const FILTER_DESCRIPTION =
+  'Metadata filter of the notes, e.g. {"and": [{"field": "tags", "contains": "project-x"}, {"field": "timestamp", "gte": "now-7d"}]}. Conditions: eq, in, gt/gte/lt/lte, contains; combined with and, or, not.';
+
+/**
+ * Answers questions from the stored notes: the question is rewritten into a
+ * search query, the closest notes are retrieved (and optionally reranked) and
+ * the model answers from the numbered notes only, citing them as [n].
+ */
+export class NoteAnswerPipeline {
+  constructor(
+    private readonly notes: INoteSource,
+    private readonly getChatModel: ChatModelResolver
+  ) {}
+
+  async answer(
+    question: string,
+    options: INoteAnswerOptions = {}
+  ): Promise<INoteAnswer> {
+    const topK = options.topK ?? (Number(process.env.RAG_TOP_K) || 4);
+    const searchQuery =
+      options.rewriteQuestion === false
+        ? question
+        : await this.rewriteQuestion(question, options);
+    options.signal?.throwIfAborted();
+
+    // Rerank from a wider candidate set, the model keeps the best topK
+    const documents = await this.notes.queryNotes(
+      searchQuery,
+      (options.rerank ? topK * 2 : topK) * CHUNKS_PER_NOTE,
+      options.filter
+    );
+    let notes = mergeNoteChunks(documents);
+    if (options.rerank && notes.length > 1) {
+      notes = await this.rerank(question, notes, options);
+    }
+    notes = notes.slice(0, topK);
+    if (notes.length === 0) {
+      return {
+        question,
+        searchQuery,
+        answer: "No notes match the question.",
+        citations: [],
+      };
+    }
+
+    const answer = await this.invoke(
+      [
+        new SystemMessage(
+          "Answer the question using only the numbered notes. Cite every note you use with its number in brackets, e.g. [1]. If the notes do not contain the answer, say so."
+        ),
+        new HumanMessage(
+          `Notes:\n${notes
+            .map(
+              (note, index) =>
+                `[${index + 1}] ${note.title ? `${note.title}\n` : ""}${note.content}`
+            )
+            .join("\n\n")}\n\nQuestion: ${question}`
+        ),
+      ],
+      options
+    );
+    return {
+      question,
+      searchQuery,
+      answer,
+      citations: getCitations(answer, notes),
+    };
+  }
+
+  private async rewriteQuestion(
+    question: string,
+    options: INoteAnswerOptions
+  ): Promise<string> {
+    const query = await this.invoke(
+      [
+        new SystemMessage(
+          "Rewrite the question as a short standalone search query for a notes database. Answer with the query only."
+        ),
+        new HumanMessage(question),
+      ],
+      options
+    );
+    return query.split("\n")[0].trim() || question;
+  }
+
+  // Asks the model for the note numbers ordered by relevance, unknown numbers are ignored
+  private async rerank(
+    question: string,
+    notes: IRetrievedNote[],
+    options: INoteAnswerOptions
+  ): Promise<IRetrievedNote[]> {
+    const reply = await this.invoke(
+      [
+        new SystemMessage(
+          'Order the numbered notes by how well they answer the question. Answer with only the JSON object {"order": [<note numbers, most relevant first>]}.'
+        ),
+        new HumanMessage(
+          `${notes
+            .map(
+              (note, index) =>
+                `[${index + 1}] ${toSnippet(`${note.title ?? ""} ${note.content}`)}`
+            )
+            .join("\n")}\n\nQuestion: ${question}`
+        ),
+      ],
+      options
+    );
+    const order: unknown = extractJSON(reply)?.order;
+    if (!Array.isArray(order)) {
+      logger.warn("Reranking reply has no order, keeping the search order.");
+      return notes;
+    }
+    const ranked = new Set<IRetrievedNote>();
+    for (const number of order) {
+      const note = notes[Number(number) - 1];
+      if (note) ranked.add(note);
+    }
+    // Notes the model left out keep their place after the ranked ones
+    notes.forEach((note) => ranked.add(note));
+    return Array.from(ranked);
+  }
+
+  private async invoke(
+    messages: (SystemMessage | HumanMessage)[],
+    options: INoteAnswerOptions
+  ): Promise<string> {
+    const reply = await ChatPromptTemplate.fromMessages(messages)
+      .pipe(this.getChatModel(options.modelConfig))
+      .pipe(new StringOutputParser())
+      .invoke({}, { signal: options.signal });
+    return reply.replace(/<think>.*?<\/think>/gs, "").trim();
+  }
+}
+
+/**
+ * Exposes the pipeline as the `answer_from_notes` tool, answering with the
+ * JSON of the answer and its citations.
+ */
+export function createNoteAnswerTool(
+  pipeline: NoteAnswerPipeline
+): IToolConfig {
+  return {
+    interface: new Tool({
+      toolName: NOTE_ANSWER_TOOL_NAME,
+      toolDescription:
+        "Answers a question from the stored notes and cites the notes it used.",
+    }),
+    inputSchema: {
+      type: "object",
+      properties: {
+        question: { type: "string", minLength: 1 },
+        topK: { type: "integer", minimum: 1, maximum: 20 },
+        rerank: { type: "boolean" },
+        filter: {
+          type: "object",
+          description: FILTER_DESCRIPTION,
+        },
+      },
+      required: ["question"],
+    },
+    outputSchema: {
+      type: "object",
+      properties: {
+        answer: { type: "string" },
+        citations: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              index: { type: "number" },
+              noteId: { type: "string" },
+              title: { type: "string" },
+              snippet: { type: "string" },
+            },
+          },
+        },
+      },
+    },
+    handler: async (tool, context) => {
+      const { question, topK, rerank, filter } = tool.toolArgs;
+      const result = await pipeline.answer(question, {
+        topK,
+        rerank,
+        filter: filter && parseFilterExpression(filter),
+        modelConfig: context?.model,
+        signal: context?.signal,
+      });
+      return convertResponseToStream(JSON.stringify(result));
+    },
+  };
+}
+
+// Notes are stored as chunks of their content, older ones as the JSON of the note
+export function toRetrievedNote(document: Document): IRetrievedNote {
+  const metadata = document.metadata ?? {};
+  let note: any = null;
+  try {
+    note = JSON.parse(document.pageContent);
+  } catch {
+    // Plain text document
+  }
+  return {
+    // Chunks cite the note they were split from
+    noteId: String(
+      metadata.parentId ?? document.id ?? metadata.id ?? note?.id ?? ""
+    ),
+    title: note?.title ?? metadata.title,
+    content:
+      typeof note?.content === "string" ? note.content : document.pageContent,
+  };
+}
+
+// One note per id in the order of its best chunk, with the retrieved chunks
+// joined in their original order
+function mergeNoteChunks(documents: Document[]): IRetrievedNote[] {
+  const notes = new Map<string, { note: IRetrievedNote; chunks: Document[] }>();
+  documents.forEach((document, index) => {
+    const note = toRetrievedNote(document);
+    const key = note.noteId || `#${index}`;
+    const entry = notes.get(key);
+    if (entry) entry.chunks.push(document);
+    else notes.set(key, { note, chunks: [document] });
+  });
+  return Array.from(notes.values(), ({ note, chunks }) =>
+    chunks.length === 1
+      ? note
+      : {
+          ...note,
+          content: chunks
+            .sort(
+              (a, b) =>
+                (a.metadata?.chunkIndex ?? 0) - (b.metadata?.chunkIndex ?? 0)
+            )
+            .map((chunk) => toRetrievedNote(chunk).content)
+            .join("\n"),
+        }
+  );
+}
+
+function getCitations(answer: string, notes: IRetrievedNote[]): ICitation[] {
+  const indexes = new Set(
+    Array.from(answer.matchAll(/\[(\d+)\]/g), (match) => Number(match[1]))
+  );
+  return Array.from(indexes)
+    .filter((index) => index >= 1 && index <= notes.length)
+    .map((index) => {
+      const { noteId, title, content } = notes[index - 1];
+      return { index, noteId, title, snippet: toSnippet(content) };
+    });
+}
+
+function toSnippet(text: string): string {
+  const normalized = text.replace(/\s+/g, " ").trim();
+  return normalized.length > SNIPPET_LENGTH
+    ? `${normalized.slice(0, SNIPPET_LENGTH)}...`
+    : normalized;
+}
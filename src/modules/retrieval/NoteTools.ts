@@ -0,0 +1,200 @@
+import { JSONSchema7 } from "json-schema";
+import { IToolConfig } from "../aiTools/ToolRegistry";
+import { Tool } from "../aiTools/AiTools";
+import { convertResponseToStream } from "../../utils/Stream";
+import { parseFilterExpression } from "../../database/vectorStores/FilterExpressions";
+import {
+  FILTER_DESCRIPTION,
+  INoteSource,
+  toRetrievedNote,
+} from "./NoteAnswerPipeline";
+import NoteManagementPlugin from "../../plugins/NoteManagement.plugin";
+
+export const NOTE_QUERY_TOOL_NAME = "query_notes";
+
+export const NOTE_TOOL_NAMES = {
+  create: "create_note",
+  get: "get_note",
+  update: "update_note",
+  delete: "delete_note",
+  list: "list_notes",
+  listFolders: "list_note_folders",
+};
+
+const NOTE_FIELDS: Record<string, JSONSchema7> = {
+  title: { type: "string", minLength: 1 },
+  content: { type: "string", minLength: 1 },
+  tags: { type: "array", items: { type: "string", minLength: 1 } },
+  folder: {
+    type: "string",
+    description: "Folder (notebook) of the note, e.g. work/project-x.",
+  },
+};
+
+const NOTE_ID: JSONSchema7 = { type: "string", minLength: 1 };
+
+/**
+ * Exposes the note search as the `query_notes` tool: the notes closest to the
+ * query among those matching the metadata filter, as JSON.
+ */
+export function createNoteQueryTool(notes: INoteSource): IToolConfig {
+  return {
+    interface: new Tool({
+      toolName: NOTE_QUERY_TOOL_NAME,
+      toolDescription:
+        "Searches the stored notes, optionally only those matching a metadata filter (tags, timestamp, title...).",
+    }),
+    inputSchema: {
+      type: "object",
+      properties: {
+        query: { type: "string", minLength: 1 },
+        topK: { type: "integer", minimum: 1, maximum: 50 },
+        filter: { type: "object", description: FILTER_DESCRIPTION },
+      },
+      required: ["query"],
+    },
+    outputSchema: {
+      type: "object",
+      properties: {
+        notes: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              noteId: { type: "string" },
+              title: { type: "string" },
+              content: { type: "string" },
+              metadata: { type: "object" },
+            },
+          },
+        },
+      },
+    },
+    handler: async (tool) => {
+      const { query, topK, filter } = tool.toolArgs;
+      // Invalid filters fail the execution with the validation message
+      const documents = await notes.queryNotes(
+        query,
+        topK,
+        filter && parseFilterExpression(filter)
+      );
+      return convertResponseToStream(
+        JSON.stringify({
+          notes: documents.map((document) => ({
+            ...toRetrievedNote(document),
+            metadata: document.metadata,
+          })),
+        })
+      );
+    },
+  };
+}
+
+/**
+ * Exposes note management as tools, one per operation, so the assistant can
+ * create, read, edit, delete, list and organize notes. They answer with JSON.
+ */
+export function createNoteTools(notes: NoteManagementPlugin): IToolConfig[] {
+  return [
+    createJsonTool(
+      NOTE_TOOL_NAMES.create,
+      "Stores a new note, optionally with tags and a folder. Answers with the note and its id.",
+      {
+        type: "object",
+        properties: NOTE_FIELDS,
+        required: ["title", "content"],
+        additionalProperties: false,
+      },
+      async ({ title, content, tags, folder }) => {
+        const note = { title, content, tags, folder };
+        if (!(await notes.storeNote(note))) {
+          throw new Error("Note could not be stored");
+        }
+        return { note };
+      }
+    ),
+    createJsonTool(
+      NOTE_TOOL_NAMES.get,
+      "Reads a note by its id.",
+      {
+        type: "object",
+        properties: { id: NOTE_ID },
+        required: ["id"],
+      },
+      async ({ id }) => {
+        const note = await notes.getNote(id);
+        if (!note) throw new Error(`Note ${id} not found`);
+        return { note };
+      }
+    ),
+    createJsonTool(
+      NOTE_TOOL_NAMES.update,
+      "Changes the title, content, tags or folder of a note. Tags replace the current ones, an empty folder removes the note from its folder.",
+      {
+        type: "object",
+        properties: { id: NOTE_ID, ...NOTE_FIELDS },
+        required: ["id"],
+        additionalProperties: false,
+      },
+      async ({ id, ...changes }) => ({
+        note: await notes.updateNote(id, changes),
+      })
+    ),
+    createJsonTool(
+      NOTE_TOOL_NAMES.delete,
+      "Deletes a note by its id.",
+      {
+        type: "object",
+        properties: { id: NOTE_ID },
+        required: ["id"],
+      },
+      async ({ id }) => {
+        if (!(await notes.deleteNote(id))) {
+          throw new Error(`Note ${id} not found`);
+        }
+        return { deleted: id };
+      }
+    ),
+    createJsonTool(
+      NOTE_TOOL_NAMES.list,
+      "Lists notes a page at a time, newest first unless order is asc. Optionally only the notes of a folder, with a tag or matching a metadata filter.",
+      {
+        type: "object",
+        properties: {
+          folder: { type: "string" },
+          tag: { type: "string" },
+          filter: { type: "object", description: FILTER_DESCRIPTION },
+          offset: { type: "integer", minimum: 0 },
+          limit: { type: "integer", minimum: 1, maximum: 100 },
+          order: { type: "string", enum: ["asc", "desc"] },
+        },
+      },
+      async ({ filter, ...options }) =>
+        notes.listNotes({
+          ...options,
+          filter: filter && parseFilterExpression(filter),
+        })
+    ),
+    createJsonTool(
+      NOTE_TOOL_NAMES.listFolders,
+      "Lists the note folders with the number of notes in each.",
+      { type: "object", properties: {} },
+      async () => ({ folders: await notes.listFolders() })
+    ),
+  ];
+}
+
+function createJsonTool(
+  toolName: string,
+  toolDescription: string,
+  inputSchema: JSONSchema7,
+  run: (input: Record<string, any>) => Promise<object>
+): IToolConfig {
+  return {
+    interface: new Tool({ toolName, toolDescription }),
+    inputSchema,
+    outputSchema: { type: "object" },
+    handler: async (tool) =>
+      convertResponseToStream(JSON.stringify(await run(tool.toolArgs ?? {}))),
+  };
+}
@@ -0,0 +1,112 @@
+import { DocumentInterface } from "@langchain/core/documents";
+import { HumanMessage, SystemMessage } from "@langchain/core/messages";
+import { StringOutputParser } from "@langchain/core/output_parsers";
+import { ChatPromptTemplate } from "@langchain/core/prompts";
+import {
+  ChatModelResolver,
+  IChatModelConfig,
+} from "../chatModels/ChatModelRegistry";
+import { extractJSON } from "../../utils/JSON";
+import logger from "../../utils/Logger";
+
+// --- Interfaces ---
+export interface IRerankOptions {
+  signal?: AbortSignal;
+}
+
+/**
+ * Reorders search results by their relevance to the query, most relevant
+ * first. Documents may be left out.
+ */
+export interface IReranker {
+  rerank(
+    query: string,
+    documents: DocumentInterface[],
+    options?: IRerankOptions
+  ): Promise<DocumentInterface[]>;
+}
+
+// Scores every document against the query, e.g. with a cross-encoder model
+export type PairScorer = (
+  query: string,
+  texts: string[],
+  options?: IRerankOptions
+) => Promise<number[]>;
+
+const PROMPT_TEXT_LENGTH = 500;
+
+/**
+ * Cross-encoder style reranker: every (query, document) pair is scored and
+ * the documents are sorted by their score.
+ */
+export class ScoringReranker implements IReranker {
+  constructor(private readonly score: PairScorer) {}
+
+  async rerank(
+    query: string,
+    documents: DocumentInterface[],
+    options?: IRerankOptions
+  ): Promise<DocumentInterface[]> {
+    const scores = await this.score(
+      query,
+      documents.map((document) => document.pageContent),
+      options
+    );
+    return documents
+      .map((document, index) => ({ document, score: scores[index] ?? 0 }))
+      .sort((a, b) => b.score - a.score)
+      .map(({ document }) => document);
+  }
+}
+
+/**
+ * Asks the chat model to order the numbered documents. Documents the model
+ * leaves out keep their place after the ordered ones.
+ */
+export class LLMReranker implements IReranker {
+  constructor(
+    private readonly getChatModel: ChatModelResolver,
+    private readonly modelConfig?: IChatModelConfig
+  ) {}
+
+  async rerank(
+    query: string,
+    documents: DocumentInterface[],
+    options: IRerankOptions = {}
+  ): Promise<DocumentInterface[]> {
+    if (documents.length < 2) return documents;
+    const reply = await ChatPromptTemplate.fromMessages([
+      new SystemMessage(
+        'Order the numbered documents by how relevant they are to the query. Answer with only the JSON object {"order": [<document numbers, most relevant first>]}.'
+      ),
+      new HumanMessage(
+        `${documents
+          .map(
+            (document, index) =>
+              `[${index + 1}] ${document.pageContent
+                .replace(/\s+/g, " ")
+                .slice(0, PROMPT_TEXT_LENGTH)}`
+          )
+          .join("\n")}\n\nQuery: ${query}`
+      ),
+    ])
+      .pipe(this.getChatModel(this.modelConfig))
+      .pipe(new StringOutputParser())
+      .invoke({}, { signal: options.signal });
+
+    const order: unknown = extractJSON(
+      reply.replace(/<think>.*?<\/think>/gs, "")
+    )?.order;
+    if (!Array.isArray(order)) {
+      logger.warn("Reranking reply has no order, keeping the search order.");
+      return documents;
+    }
+    const ranked = new Set<DocumentInterface>();
+    for (const number of order) {
+      const document = documents[Number(number) - 1];
+      if (document) ranked.add(document);
+    }
+    documents.forEach((document) => ranked.add(document));
+    return Array.from(ranked);
+  }
+}
@@ -0,0 +1,273 @@
+import {
+  AIMessage,
+  BaseMessage,
+  HumanMessage,
+  SystemMessage,
+} from "@langchain/core/messages";
+import { StringOutputParser } from "@langchain/core/output_parsers";
+import { ChatPromptTemplate } from "@langchain/core/prompts";
+import { IterableReadableStream } from "@langchain/core/utils/stream";
+import {
+  IChatSession,
+  IChatSessionMessage,
+  ISessionStore,
+} from "../../database/sessionStores/SessionStore";
+import { createSessionStore } from "../../database/sessionStores/SessionStoreFactory";
+import {
+  ChatModelResolver,
+  IChatModelConfig,
+} from "../chatModels/ChatModelRegistry";
+import logger from "../../utils/Logger";
+
+// --- Interfaces ---
+export interface ISessionOptions {
+  // Tokens of history sent with every message, older turns get summarized
+  maxHistoryTokens: number;
+  // Milliseconds an answer may wait to be read before its turn is dropped
+  streamIdleTimeoutMs: number;
+}
+
+export interface IChatOptions {
+  // Identity starting the session, stored as its owner
+  ownerId?: string;
+  modelConfig?: IChatModelConfig;
+  signal?: AbortSignal;
+}
+
+export function getSessionOptions(): ISessionOptions {
+  return {
+    maxHistoryTokens: Number(process.env.SESSION_MAX_HISTORY_TOKENS) || 2000,
+    streamIdleTimeoutMs:
+      Number(process.env.SESSION_STREAM_IDLE_TIMEOUT_MS) || 60000,
+  };
+}
+
+// Rough count for budgeting, about 4 characters per token
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Keeps the conversation of every chat session in a store. Each message is
+ * answered with the system message, the summary of the older turns and the
+ * newest turns fitting the token budget. Once the unsummarized turns exceed
+ * the budget, the older half is folded into the summary.
+ *
+ * Turns of one session run one after another, so concurrent messages do not
+ * overwrite each other's history.
+ */
+export class SessionManager {
+  private systemMessage?: string;
+  // Session id -> the last queued turn of the session
+  private readonly locks = new Map<string, Promise<void>>();
+
+  constructor(
+    private readonly getChatModel: ChatModelResolver,
+    private readonly store: ISessionStore = createSessionStore(),
+    private readonly options: ISessionOptions = getSessionOptions()
+  ) {}
+
+  setSystemMessage(message: string) {
+    this.systemMessage = message;
+  }
+
+  getSession(sessionId: string): Promise<IChatSession | undefined> {
+    return this.store.getSession(sessionId);
+  }
+
+  deleteSession(sessionId: string): Promise<void> {
+    return this.store.deleteSession(sessionId);
+  }
+
+  /**
+   * Streams the answer to `input` within the session, created when missing.
+   * The turn is saved once the answer is complete, a cancelled answer is not.
+   * The session stays locked until then, so a stream which is cancelled or
+   * not read for `streamIdleTimeoutMs` ends the turn and unlocks it.
+   */
+  async chat(
+    sessionId: string,
+    input: string,
+    options: IChatOptions = {}
+  ): Promise<IterableReadableStream<string>> {
+    const chatModel = this.getChatModel(options.modelConfig);
+    const release = await this.lock(sessionId);
+    try {
+      const session =
+        (await this.store.getSession(sessionId)) ??
+        this.createSession(sessionId, options.ownerId);
+      const stream = await ChatPromptTemplate.fromMessages(
+        this.buildMessages(session, input)
+      )
+        .pipe(chatModel)
+        .pipe(new StringOutputParser())
+        .stream({}, { signal: options.signal });
+      const turn = this.recordTurn(session, input, stream, release);
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      // A turn which never started skips its finally block, so release here
+      const end = async () => {
+        clearTimeout(timer);
+        release();
+        await turn.return(undefined);
+      };
+      const wait = () => {
+        timer = setTimeout(() => void end(), this.options.streamIdleTimeoutMs);
+      };
+      wait();
+      return new IterableReadableStream<string>({
+        async pull(controller) {
+          clearTimeout(timer);
+          const result = await turn.next();
+          if (result.done) return controller.close();
+          controller.enqueue(result.value);
+          wait();
+        },
+        cancel: end,
+      });
+    } catch (error) {
+      release();
+      throw error;
+    }
+  }
+
+  private async *recordTurn(
+    session: IChatSession,
+    input: string,
+    stream: AsyncIterable<string>,
+    release: () => void
+  ): AsyncGenerator<string> {
+    let answer = "";
+    try {
+      for await (const chunk of stream) {
+        answer += chunk;
+        yield chunk;
+      }
+      const createdAt = new Date().toISOString();
+      session.messages.push(
+        { role: "human", content: input, createdAt },
+        { role: "ai", content: answer, createdAt }
+      );
+      session.updatedAt = createdAt;
+      await this.store.saveSession(session);
+    } finally {
+      release();
+    }
+    // The summary is not needed for this answer, the next turn waits for it
+    this.summarize(session.id).catch((error) => {
+      logger.error(`Session ${session.id} could not be summarized:`, error);
+    });
+  }
+
+  private buildMessages(session: IChatSession, input: string): BaseMessage[] {
+    const system = [
+      this.systemMessage,
+      session.summary &&
+        `Summary of the earlier conversation:\n${session.summary}`,
+    ].filter(Boolean);
+    const history = this.getWindow(
+      session.messages.slice(session.summarizedCount),
+      this.options.maxHistoryTokens - estimateTokens(input)
+    );
+    return [
+      ...(system.length ? [new SystemMessage(system.join("\n\n"))] : []),
+      ...history.map((message) =>
+        message.role === "human"
+          ? new HumanMessage(message.content)
+          : new AIMessage(message.content)
+      ),
+      new HumanMessage(input),
+    ];
+  }
+
+  // Newest messages whose tokens fit the budget
+  private getWindow(
+    messages: IChatSessionMessage[],
+    budget: number
+  ): IChatSessionMessage[] {
+    let tokens = 0;
+    let start = messages.length;
+    while (start > 0) {
+      tokens += estimateTokens(messages[start - 1].content);
+      if (tokens > budget) break;
+      start--;
+    }
+    return messages.slice(start);
+  }
+
+  private async summarize(sessionId: string) {
+    const release = await this.lock(sessionId);
+    try {
+      const session = await this.store.getSession(sessionId);
+      const unsummarized = session?.messages.slice(session.summarizedCount);
+      if (
+        !unsummarized ||
+        estimateTokens(unsummarized.map((m) => m.content).join("")) <=
+          this.options.maxHistoryTokens
+      ) {
+        return;
+      }
+      const kept = this.getWindow(
+        unsummarized,
+        this.options.maxHistoryTokens / 2
+      );
+      const older = unsummarized.slice(0, unsummarized.length - kept.length);
+      const transcript = older
+        .map(
+          (message) =>
+            `${message.role === "human" ? "User" : "Assistant"}: ${message.content}`
+        )
+        .join("\n");
+      const summary = await ChatPromptTemplate.fromMessages([
+        new SystemMessage(
+          "Summarize the conversation in a few sentences. Keep the facts, names and decisions needed to continue it."
+        ),
+        new HumanMessage(
+          [
+            session.summary && `Summary so far:\n${session.summary}`,
+            `Conversation:\n${transcript}`,
+          ]
+            .filter(Boolean)
+            .join("\n\n")
+        ),
+      ])
+        .pipe(this.getChatModel())
+        .pipe(new StringOutputParser())
+        .invoke({});
+      session.summary = summary.replace(/<think>.*?<\/think>/gs, "").trim();
+      session.summarizedCount += older.length;
+      session.updatedAt = new Date().toISOString();
+      await this.store.saveSession(session);
+      logger.info(
+        `Summarized ${older.length} messages of session ${sessionId}.`
+      );
+    } finally {
+      release();
+    }
+  }
+
+  private createSession(sessionId: string, ownerId?: string): IChatSession {
+    const now = new Date().toISOString();
+    return {
+      id: sessionId,
+      ownerId,
+      messages: [],
+      summarizedCount: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+  }
+
+  // Resolves once the previous turns of the session are done, the returned
+  // release may be called more than once
+  private async lock(sessionId: string): Promise<() => void> {
+    const previous = this.locks.get(sessionId) ?? Promise.resolve();
+    let release: () => void;
+    const current = new Promise<void>((resolve) => (release = resolve));
+    this.locks.set(sessionId, current);
+    await previous;
+    return () => {
+      if (this.locks.get(sessionId) === current) this.locks.delete(sessionId);
+      release();
+    };
+  }
+}
@@ -23,17 +23,11 @@ import {
 import { StringOutputParser } from "@langchain/core/output_parsers";
 
 initializeApplication("development");
-// Interface for structured elements (classes, methods, etc.)
-interface StructuredElement {
-  type: string;
-  name: string;
-}
 export default class CodeAnalyzerPlugin implements AiPlugin {
   name: string;
   description: string;
   vectorProvider: CassandraVectorDatabase;
   vectorStore: CassandraStore;
-  idCounter: number = 0;
 
   constructor(vectorProvider: CassandraVectorDatabase) {
     this.vectorProvider = vectorProvider;
@@ -47,7 +41,7 @@ export default class CodeAnalyzerPlugin implements AiPlugin {
 
     try {
       const gradedDocuments = (await this.gradeDocuments(userInput))
-        .sort((a, b) => (a.relevanceScore > b.relevanceScore ? 1 : 0))
+        .sort((a, b) => b.relevanceScore - a.relevanceScore)
         .slice(0, 3);
 
       const content = gradedDocuments
@@ -110,32 +104,22 @@ export default class CodeAnalyzerPlugin implements AiPlugin {
     try {
       const resolvedDocs = await loader;
       const uniqueDocs = this.deduplicateDocsBySource(resolvedDocs);
-      let counter = 0;
 
       for (const document of uniqueDocs) {
         try {
-          const docId = `${++counter}`;
-          document.metadata.id = docId;
-
-          // Check if the document already exists in the vector store
-          const exists = await this.vectorProvider.crud.selectRecord(
-            "code_documents",
-            Number(docId)
+          // The file path is the stable id, unchanged files are not re-embedded
+          document.metadata.id = document.metadata.source;
+
+          // Split the file by its language and insert the chunks into the vector store
+          const { upserted } =
+            await this.vectorProvider.documentOperations.upsertDocuments([
+              document,
+            ]);
+          logger.log(
+            upserted.length
+              ? `Document inserted to table.`
+              : `Document already exists in the vector store.`
           );
-          if (!exists) {
-            // Insert the document into the vector store
-            const success =
-              await this.vectorProvider.documentOperations.insertDocument(
-                document
-              );
-            if (success) {
-              logger.log(`Document inserted to table.`);
-            } else {
-              throw new Error(`Document could not be added to table.`);
-            }
-          } else {
-            logger.log(`Document already exists in the vector store.`);
-          }
         } catch (error) {
           logger.error(
             "Document could not be inserted to vector store: ",
@@ -163,79 +147,17 @@ export default class CodeAnalyzerPlugin implements AiPlugin {
   };
 
   private gradeDocuments = async (userInput: string) => {
-    const documents = await this.projectLoader();
-
-    // Adjust how you parse the user input to handle structured queries like "RAG.class"
-    const structuredQueryRegex = /([a-zA-Z0-9]+)\.class/gi;
-    let match;
-    const structuredQueries = [];
-    while ((match = structuredQueryRegex.exec(userInput))) {
-      structuredQueries.push(match[0]);
-    }
-
-    // Compute relevance score based on keyword occurrences in each document
-    const gradedDocuments = documents.map((doc) => {
-      // Extract text content and structured elements (classes, methods, etc.)
-      const text = (doc.pageContent || "").toLowerCase();
-      const structuredElements = this.extractStructuredElements(doc);
-
-      // Compute relevance score based on keyword occurrences and structured elements
-      let relevanceScore = 0;
-
-      // Match keywords in the text content
-      structuredQueries.forEach((query) => {
-        const keyword = query.toLowerCase();
-        const regex = new RegExp("\\b" + keyword + "\\b", "gi");
-        const occurrences = (text.match(regex) || []).length;
-        relevanceScore += occurrences;
-      });
-
-      // Match keywords in structured elements (classes, methods, etc.)
-      structuredElements.forEach((element) => {
-        structuredQueries.forEach((query) => {
-          // Check if the element name matches the structured query
-          if (query.toLowerCase() === element.name.toLowerCase()) {
-            relevanceScore += 10; // Assign a higher score for exact matches
-          }
-        });
-      });
-
-      return {
-        document: doc,
-        relevanceScore,
-      };
-    });
-
-    // Filter out documents with zero relevance score
-    return gradedDocuments
-      .filter((result) => result.relevanceScore > 0)
-      .sort((a, b) => b.relevanceScore - a.relevanceScore);
+    // Identifiers like `ToolExecutor` are matched by keyword, the rest by meaning
+    const results = await this.vectorProvider.vectorSearch.hybridSearch(
+      userInput,
+      { topK: 10 }
+    );
+    return results.map((result) => ({
+      document: result.document,
+      relevanceScore: result.score,
+    }));
   };
 
-  // Example method to extract structured elements (classes, methods, etc.) from document
-  private extractStructuredElements(doc: Document): StructuredElement[] {
-    // Implement logic to extract structured elements from the document
-    // Example: extracting class names, method names, etc.
-    const structuredElements: StructuredElement[] = [];
-
-    // Example logic (you need to implement based on your document structure)
-    const text = (doc.pageContent || "").toLowerCase();
-    const classRegex = /class\s+(\w+)/gi;
-    let match;
-    while ((match = classRegex.exec(text))) {
-      structuredElements.push({ type: "class", name: match[1] });
-    }
-
-    const methodRegex = /function\s+(\w+)/gi;
-    while ((match = methodRegex.exec(text))) {
-      structuredElements.push({ type: "method", name: match[1] });
-    }
-
-    console.log("structured elements", structuredElements);
-
-    return structuredElements;
-  }
-
   //   private computeRelevanceScore = (
   //     doc: Document<Record<string, any>>,
   //     keywords: any[]
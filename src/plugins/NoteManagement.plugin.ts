@@ -1,69 +1,246 @@
 import { Document } from "@langchain/core/documents";
-import { CassandraStore } from "@langchain/community/vectorstores/cassandra";
-import CassandraVectorDatabase from "../database/CassandraVectorDatabase";
+import { VectorStore } from "@langchain/core/vectorstores";
+import { v4 as uuidv4 } from "uuid";
+import { IVectorDatabase } from "../database/VectorDatabase";
+import {
+  SearchFilter,
+  isDocumentStore,
+} from "../database/vectorStores/VectorStoreUtils";
+import {
+  FilterExpression,
+  toFilterExpression,
+} from "../database/vectorStores/FilterExpressions";
 import AiPlugin from "./Plugin";
 import logger from "../utils/Logger";
 
 export interface INote {
-  id?: number;
+  id?: string;
   title: string;
+  // Time of the last change
   timestamp?: Date;
   content: string;
+  tags?: string[];
+  // Folder (notebook) the note is filed in, e.g. `work/project-x`
+  folder?: string;
 }
 
+export type NoteChanges = Partial<
+  Pick<INote, "title" | "content" | "tags" | "folder">
+>;
+
+export interface INoteListOptions {
+  folder?: string;
+  tag?: string;
+  filter?: SearchFilter;
+  offset?: number;
+  // Notes per page, defaults to 20
+  limit?: number;
+  // By timestamp, newest first by default
+  order?: "asc" | "desc";
+}
+
+export interface INotePage {
+  notes: INote[];
+  total: number;
+  offset: number;
+  limit: number;
+}
+
+// Marks the stored documents which are notes
+const NOTE_KIND = "note";
+
 export default class NoteManagementPlugin implements AiPlugin {
   name: String;
   description: String;
-  vectorProvider: CassandraVectorDatabase;
-  vectorStore: CassandraStore;
-  idCounter: number = 0;
+  vectorProvider: IVectorDatabase;
+  vectorStore: VectorStore;
 
-  constructor(vectorProvider: CassandraVectorDatabase) {
+  constructor(vectorProvider: IVectorDatabase) {
     this.vectorProvider = vectorProvider;
     this.vectorStore = vectorProvider.connect();
   }
 
   public async storeNote(note: INote): Promise<Boolean> {
     // Add documents to vector store
-    if (note.title === "" || note.content === "") {
-      throw new Error("Note title and content is empty.");
+    prepareNote(note);
+
+    // Long notes are stored as chunks linked to the note by `parentId`,
+    // storing a note again replaces its chunks unless it is unchanged
+    try {
+      const { skipped } =
+        await this.vectorProvider.documentOperations.upsertDocuments([
+          new Document({
+            pageContent: note.content,
+            metadata: toNoteMetadata(note),
+          }),
+        ]);
+      logger.log(
+        skipped.length
+          ? `Note ${note.id} is unchanged.`
+          : `Note ${note.id} is stored.`
+      );
+      return true;
+    } catch (error) {
+      logger.error("Note is not stored:", error);
+      return false;
     }
+  }
 
-    note.timestamp = new Date();
+  /**
+   * Reads a note by id, other documents of the store (e.g. analyzed code) are
+   * not notes and not found.
+   */
+  public async getNote(id: string): Promise<INote | undefined> {
+    const document =
+      await this.vectorProvider.documentOperations.getDocument(id);
+    return document?.metadata?.kind === NOTE_KIND
+      ? toNote(document)
+      : undefined;
+  }
 
-    const isInserted =
-      await this.vectorProvider.documentOperations.insertJsonDocument(note);
-    if (isInserted) {
-      logger.log("Note is stored.");
-    } else {
-      logger.log("Note is not stored.");
+  /**
+   * Changes a note. Its chunks are split and embedded again only when the
+   * content changes, other changes only rewrite their metadata.
+   */
+  public async updateNote(id: string, changes: NoteChanges): Promise<INote> {
+    const note = await this.getNote(id);
+    if (!note) throw new Error(`Note ${id} not found`);
+    const updated: INote = { ...note, ...changes, id };
+    if (changes.content !== undefined) {
+      if (!(await this.storeNote(updated))) {
+        throw new Error(`Note ${id} could not be updated`);
+      }
+      return updated;
+    }
+    prepareNote(updated);
+    try {
+      await this.vectorProvider.documentOperations.updateDocumentMetadata(
+        id,
+        toNoteMetadata(updated)
+      );
+    } catch (error) {
+      logger.error(`Note ${id} is not updated:`, error);
+      throw new Error(`Note ${id} could not be updated`);
     }
+    logger.log(`Note ${id} is updated.`);
+    return updated;
+  }
 
-    return isInserted;
+  /**
+   * Deletes a note with its chunks, false when there is no such note.
+   */
+  public async deleteNote(id: string): Promise<boolean> {
+    if (!(await this.getNote(id))) return false;
+    const deleted =
+      await this.vectorProvider.documentOperations.deleteDocuments([id]);
+    logger.log(`Note ${id} is deleted (${deleted} entries).`);
+    return deleted > 0;
   }
 
-  // Function to query notes
+  /**
+   * Lists the notes a page at a time, sorted by timestamp.
+   */
+  public async listNotes(options: INoteListOptions = {}): Promise<INotePage> {
+    const { offset = 0, limit = 20 } = options;
+    const filter = toFilterExpression(options.filter);
+    const conditions: FilterExpression[] = [
+      { field: "kind", eq: NOTE_KIND },
+      ...(options.folder ? [{ field: "folder", eq: options.folder }] : []),
+      ...(options.tag ? [{ field: "tags", contains: options.tag }] : []),
+      ...(filter ? [filter] : []),
+    ];
+    const { documents, total } =
+      await this.vectorProvider.documentOperations.listDocuments(
+        { and: conditions },
+        { offset, limit, sortBy: "timestamp", order: options.order ?? "desc" }
+      );
+    return { notes: documents.map(toNote), total, offset, limit };
+  }
+
+  /**
+   * Folders in use with the number of notes filed in each.
+   */
+  public async listFolders(): Promise<{ folder: string; count: number }[]> {
+    if (!isDocumentStore(this.vectorStore)) {
+      throw new Error("Vector store can not list notes.");
+    }
+    // The first chunks carry the metadata of every note once
+    const firstChunks = await this.vectorStore.findDocuments({
+      and: [
+        { field: "kind", eq: NOTE_KIND },
+        { field: "chunkIndex", eq: 0 },
+      ],
+    });
+    const counts = new Map<string, number>();
+    for (const { metadata } of firstChunks) {
+      if (metadata.folder) {
+        counts.set(metadata.folder, (counts.get(metadata.folder) ?? 0) + 1);
+      }
+    }
+    return Array.from(counts, ([folder, count]) => ({ folder, count })).sort(
+      (a, b) => a.folder.localeCompare(b.folder)
+    );
+  }
+
+  // Function to query notes, optionally only those matching the metadata
+  // filter. Other documents of the store are never returned, invalid filters
+  // and search failures are thrown.
   public async queryNotes(
     keyword: string,
-    topN: number = 5
+    topN: number = 5,
+    filter?: SearchFilter
   ): Promise<Document<Record<string, any>>[]> {
     if (!this.vectorStore) throw new Error("Database not connected.");
 
-    try {
-      // Convert the keyword to a vector using embeddings
-      const keywordVector = await this.vectorProvider.embeddings.embedQuery(
-        keyword
-      );
-      // Perform a vector-based search
-      const searchResults = await this.vectorProvider.vectorSearch.search(
-        keywordVector,
-        topN
-      );
-      const matchingDocuments = searchResults.map((result) => result[0]);
-      return matchingDocuments;
-    } catch (err) {
-      console.error("Error during keyword search:", err);
-      return [];
-    }
+    const expression = toFilterExpression(filter);
+    // Convert the keyword to a vector using embeddings
+    const keywordVector =
+      await this.vectorProvider.embeddings.embedQuery(keyword);
+    // Perform a vector-based search
+    const searchResults = await this.vectorProvider.vectorSearch.search(
+      keywordVector,
+      topN,
+      {
+        and: [
+          { field: "kind", eq: NOTE_KIND },
+          ...(expression ? [expression] : []),
+        ],
+      }
+    );
+    const matchingDocuments = searchResults.map((result) => result[0]);
+    return matchingDocuments;
+  }
+}
+
+// Checks a note before it is stored and sets its id and timestamp
+function prepareNote(note: INote) {
+  if (note.title === "" || note.content === "") {
+    throw new Error("Note title and content is empty.");
   }
+  note.id = note.id ?? uuidv4();
+  note.timestamp = new Date();
+  note.folder = note.folder?.trim() || undefined;
+}
+
+function toNoteMetadata(note: INote): Record<string, any> {
+  return {
+    id: note.id,
+    kind: NOTE_KIND,
+    title: note.title,
+    timestamp: note.timestamp.toISOString(),
+    ...(note.tags?.length && { tags: note.tags }),
+    ...(note.folder && { folder: note.folder }),
+  };
+}
+
+function toNote(document: Document): INote {
+  const { title, timestamp, tags, folder } = document.metadata ?? {};
+  return {
+    id: String(document.id ?? document.metadata?.id),
+    title,
+    content: document.pageContent,
+    ...(timestamp && { timestamp: new Date(timestamp) }),
+    ...(tags?.length && { tags: Array.from(tags as string[]) }),
+    ...(folder && { folder }),
+  };
 }
@@ -1,9 +1,9 @@
-import { CassandraStore } from "@langchain/community/vectorstores/cassandra";
-import CassandraVectorDatabase from "../database/CassandraVectorDatabase";
+import { VectorStore } from "@langchain/core/vectorstores";
+import { IVectorDatabase } from "../database/VectorDatabase";
 
 export default interface AiPlugin{
     name: String;
     description: String;
-    vectorProvider: CassandraVectorDatabase;
-    vectorStore: CassandraStore;
+    vectorProvider: IVectorDatabase;
+    vectorStore: VectorStore;
 }
@@ -4,7 +4,7 @@ export function extractJSON(str: string): any | null {
   let firstOpen = 0,
     firstClose = 0,
     candidate = null;
-  firstOpen = str.indexOf("{", firstOpen + 1);
+  firstOpen = str.indexOf("{", firstOpen);
   do {
     firstClose = str.lastIndexOf("}");
     if (firstClose <= firstOpen) {
@@ -0,0 +1,93 @@
+export interface IRetryOptions {
+  // Total number of attempts, including the first one
+  attempts?: number;
+  // Delay before the first retry
+  delayMs?: number;
+  // Multiplier applied to the delay after every failed retry
+  backoffFactor?: number;
+  // Upper bound for the delay between two attempts
+  maxDelayMs?: number;
+}
+
+export const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+/**
+ * Runs `operation` with a signal of its own, which is aborted when the
+ * operation does not settle within `timeoutMs` or when `signal` is aborted.
+ * Rejects right away in both cases, the operation is expected to stop on its
+ * signal instead of running on in the background.
+ */
+export const withTimeout = async <T>(
+  operation: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number | undefined,
+  message = `Timed out after ${timeoutMs}ms`,
+  signal?: AbortSignal
+): Promise<T> => {
+  const controller = new AbortController();
+  let timer: NodeJS.Timeout;
+  const onAbort = () => controller.abort(signal.reason);
+  const aborted = new Promise<never>((_, reject) => {
+    controller.signal.addEventListener(
+      "abort",
+      () => reject(controller.signal.reason),
+      { once: true }
+    );
+  });
+  if (timeoutMs) {
+    timer = setTimeout(() => controller.abort(new Error(message)), timeoutMs);
+  }
+  if (signal?.aborted) onAbort();
+  signal?.addEventListener("abort", onAbort, { once: true });
+  try {
+    return await Promise.race([operation(controller.signal), aborted]);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", onAbort);
+  }
+};
+
+/**
+ * Calls `operation` until it succeeds or the attempts are used up, waiting
+ * with exponential backoff in between. The last error is rethrown, an
+ * aborted `signal` stops retrying.
+ */
+export const retryWithBackoff = async <T>(
+  operation: (attempt: number) => Promise<T>,
+  options: IRetryOptions = {},
+  onRetry?: (error: any, attempt: number, delayMs: number) => void,
+  signal?: AbortSignal
+): Promise<T> => {
+  const {
+    attempts = 1,
+    delayMs = 500,
+    backoffFactor = 2,
+    maxDelayMs = 30000,
+  } = options;
+
+  for (let attempt = 1; ; attempt++) {
+    signal?.throwIfAborted();
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (attempt >= attempts || signal?.aborted) throw error;
+      const delay = Math.min(
+        delayMs * Math.pow(backoffFactor, attempt - 1),
+        maxDelayMs
+      );
+      onRetry?.(error, attempt, delay);
+      await sleep(delay, signal);
+    }
+  }
+};
@@ -4,7 +4,8 @@ import { extractJSON } from "./JSON";
 
 export const convertResponseToString = async (
   response: string | IterableReadableStream<string | BaseMessageChunk>,
-  isJSON = false
+  isJSON = false,
+  onChunk?: (chunk: string) => void
 ) => {
   let responseString = "";
   let buffer = "";
@@ -14,6 +15,7 @@ export const convertResponseToString = async (
       typeof chunk === "string" ? chunk : (chunk as BaseMessageChunk).content;
 
     buffer += chunkContent;
+    onChunk?.(chunkContent.toString());
 
     process.stdout.write(buffer.toString()); // Output only processed content
     responseString += buffer;